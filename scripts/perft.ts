@@ -0,0 +1,23 @@
+/**
+ * Perft divide
+ * Prints the node count under each legal move of a position, to compare
+ * with another engine's divide:
+ *   npm run perft -- "<fen>" <depth> [--chess960]
+ */
+
+import { Game } from '../src/core/Game.js';
+import { PerftSuite } from '../src/core/Perft.js';
+import { STANDARD_FEN } from '../src/core/Fen.js';
+
+const args = process.argv.slice(2).filter((arg) => arg !== '--');
+const chess960 = args.includes('--chess960');
+const [fen = STANDARD_FEN, depthArg = '1'] = args.filter((arg) => arg !== '--chess960');
+const depth = Number(depthArg);
+
+if (!Number.isInteger(depth) || depth < 1) {
+    console.error(`Depth must be a positive whole number, got '${depthArg}'`);
+    process.exit(1);
+}
+
+const game = Game.fromFen(fen, chess960);
+console.log(PerftSuite.formatDivide(game.perftDivide(depth)));
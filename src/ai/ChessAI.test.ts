@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { ChessAI } from './ChessAI.js';
+import { Game } from '../core/Game.js';
+import { type IPosition, AIDifficulty, PieceColor, Variant } from '../types/index.js';
+
+function loadVariant(variant: Variant, fen: string): Game {
+    const game = new Game();
+    game.setVariant(variant);
+    game.loadFen(fen);
+    return game;
+}
+
+/**
+ * Let the AI try moves until the game accepts one, as GameUI does
+ */
+function playWithTries(game: Game, ai: ChessAI): void {
+    const refused: Array<{ from: IPosition; to: IPosition }> = [];
+    for (;;) {
+        const move = ai.getBestMove(game, refused);
+        if (!move) {
+            throw new Error('The AI ran out of moves to try');
+        }
+
+        game.selectPiece(move.from);
+        if (game.makeMove(move.to).success) {
+            return;
+        }
+        refused.push(move);
+    }
+}
+
+describe('ChessAI with hidden pieces', () => {
+    it('chooses Dark chess moves from what it can see', () => {
+        // The knight on e6 is hidden from Black, whose pawn seems free to advance
+        const game = loadVariant(Variant.DARK, '4k3/4p3/4N3/8/8/8/8/4K3 b - - 0 1');
+        const ai = new ChessAI(AIDifficulty.MEDIUM, PieceColor.BLACK);
+        const kingMoves = [
+            { row: 0, col: 3 },
+            { row: 0, col: 5 },
+            { row: 1, col: 3 },
+            { row: 1, col: 5 }
+        ].map((to) => ({ from: { row: 0, col: 4 }, to }));
+
+        const move = ai.getBestMove(game, kingMoves);
+
+        expect(move?.from).toEqual({ row: 1, col: 4 });
+    });
+
+    it('tries Kriegspiel moves until the umpire accepts one', () => {
+        // Black is in check from a rook it cannot see
+        const game = loadVariant(Variant.KRIEGSPIEL, '4k3/8/8/8/8/8/8/K3R3 b - - 0 1');
+        const ai = new ChessAI(AIDifficulty.HARD, PieceColor.BLACK);
+
+        playWithTries(game, ai);
+
+        expect(game.currentPlayer).toBe(PieceColor.WHITE);
+        expect(game.board.findKing(PieceColor.BLACK)?.col).not.toBe(4);
+    });
+});
@@ -4,14 +4,21 @@
  */
 
 import { Game } from '../core/Game.js';
+import { type Board } from '../core/Board.js';
 import { Piece } from '../core/Piece.js';
+import { MoveGenerator } from '../core/MoveGenerator.js';
+import { FogOfWar } from '../core/FogOfWar.js';
+import { Umpire } from '../core/Umpire.js';
+import { PieceRegistry } from '../core/PieceRegistry.js';
+import { type VariantRules, type IGameOutcome } from '../variants/index.js';
 import {
     type IPosition,
+    type ICheckCount,
     type MoveList,
     PieceType,
     PieceColor,
+    GameStatus,
     AIDifficulty,
-    PIECE_VALUES,
     BOARD_SIZE
 } from '../types/index.js';
 
@@ -19,6 +26,13 @@ interface IAIMove {
     from: IPosition;
     to: IPosition;
     score: number;
+    drop?: PieceType; // piece dropped from the pocket on `to` (Crazyhouse)
+}
+
+// A move the game refused, which is not tried again (Dark chess, Kriegspiel)
+interface IRefusedMove {
+    readonly from: IPosition;
+    readonly to: IPosition;
 }
 
 export class ChessAI {
@@ -70,6 +84,12 @@ export class ChessAI {
         [20, 30, 10, 0, 0, 10, 30, 20]
     ];
 
+    // Evaluation (centipawns) below which the AI is happy to accept a draw
+    private static readonly DRAW_ACCEPT_THRESHOLD = -50;
+
+    private static readonly SEARCH_DEPTH = 3;
+    private static readonly MATE_SCORE = 100000;
+
     constructor(
         difficulty: AIDifficulty = AIDifficulty.MEDIUM,
         color: PieceColor = PieceColor.BLACK
@@ -100,12 +120,18 @@ export class ChessAI {
 
     /**
      * Get the best move for the AI
+     * When the opponent's pieces are hidden (Dark chess, Kriegspiel) the move is
+     * chosen from the AI's own view of the board and may turn out to be illegal;
+     * the caller then asks again, passing the moves refused so far
      */
-    public getBestMove(game: Game): IAIMove | null {
-        const allMoves = game.getAllValidMoves();
+    public getBestMove(game: Game, refused: readonly IRefusedMove[] = []): IAIMove | null {
+        const allMoves = this.getCandidateMoves(game, refused);
 
+        // With no piece able to move, Crazyhouse may still allow drops, which only the search plays
         if (allMoves.length === 0) {
-            return null;
+            return !this.hasHiddenPieces(game) && game.getLegalMovesUci().length > 0
+                ? this.getHardMove(game, allMoves, refused)
+                : null;
         }
 
         switch (this._difficulty) {
@@ -114,12 +140,111 @@ export class ChessAI {
             case AIDifficulty.MEDIUM:
                 return this.getMediumMove(game, allMoves);
             case AIDifficulty.HARD:
-                return this.getHardMove(game, allMoves);
+                return this.getHardMove(game, allMoves, refused);
             default:
                 return this.getMediumMove(game, allMoves);
         }
     }
 
+    /**
+     * Moves the AI may play. With hidden pieces these are the moves it sees on
+     * its view of the board, and in Kriegspiel the pawn captures the umpire says
+     * exist somewhere; once all of them have been refused, any square is worth a try
+     */
+    private getCandidateMoves(
+        game: Game,
+        refused: readonly IRefusedMove[]
+    ): Array<{ piece: Piece; moves: MoveList }> {
+        if (!this.hasHiddenPieces(game)) {
+            return game.getAllValidMoves();
+        }
+
+        const { rules } = game;
+        const color = game.currentPlayer;
+        const view = this.getVisibleBoard(game, color);
+        const generator = rules.createGenerator(view, color, game.isChess960);
+        const seen = new Map<Piece, MoveList>();
+
+        for (const move of rules.generateMoves(generator)) {
+            const piece = view.getPiece(MoveGenerator.toPosition(MoveGenerator.moveFrom(move)));
+            if (piece) {
+                seen.set(piece, [
+                    ...(seen.get(piece) ?? []),
+                    MoveGenerator.toPosition(MoveGenerator.moveTo(move))
+                ]);
+            }
+        }
+        if (rules.hasUmpire && Umpire.countPawnCaptures(game) > 0) {
+            for (const pawn of view.getPiecesByColor(color)) {
+                if (pawn.type === PieceType.PAWN) {
+                    seen.set(pawn, [...(seen.get(pawn) ?? []), ...this.getPawnCaptureTries(pawn)]);
+                }
+            }
+        }
+
+        const candidates = this.withoutRefused([...seen], refused);
+        if (candidates.length > 0) {
+            return candidates;
+        }
+
+        const squares = Array.from({ length: BOARD_SIZE * BOARD_SIZE }, (_, i) => ({
+            row: Math.floor(i / BOARD_SIZE),
+            col: i % BOARD_SIZE
+        }));
+        return this.withoutRefused(
+            view
+                .getPiecesByColor(color)
+                .map((piece) => [
+                    piece,
+                    squares.filter((square) => view.getPiece(square)?.color !== color)
+                ]),
+            refused
+        );
+    }
+
+    /**
+     * The squares a pawn captures on, whatever stands there
+     */
+    private getPawnCaptureTries(pawn: Piece): MoveList {
+        const row = pawn.row + (pawn.color === PieceColor.WHITE ? -1 : 1);
+        return [pawn.col - 1, pawn.col + 1]
+            .filter((col) => row >= 0 && row < BOARD_SIZE && col >= 0 && col < BOARD_SIZE)
+            .map((col) => ({ row, col }));
+    }
+
+    private withoutRefused(
+        entries: Array<[Piece, MoveList]>,
+        refused: readonly IRefusedMove[]
+    ): Array<{ piece: Piece; moves: MoveList }> {
+        return entries
+            .map(([piece, moves]) => ({
+                piece,
+                moves: moves.filter((to, index) => {
+                    const isFirst =
+                        moves.findIndex((m) => m.row === to.row && m.col === to.col) === index;
+                    return isFirst && !this.isRefused(piece.position, to, refused);
+                })
+            }))
+            .filter(({ moves }) => moves.length > 0);
+    }
+
+    private isRefused(from: IPosition, to: IPosition, refused: readonly IRefusedMove[]): boolean {
+        return refused.some(
+            (move) =>
+                move.from.row === from.row &&
+                move.from.col === from.col &&
+                move.to.row === to.row &&
+                move.to.col === to.col
+        );
+    }
+
+    /**
+     * Whether the AI cannot see all of the opponent's pieces
+     */
+    private hasHiddenPieces(game: Game): boolean {
+        return game.rules.hasFogOfWar || game.rules.hasUmpire;
+    }
+
     /**
      * Easy difficulty - Random move selection
      */
@@ -139,12 +264,15 @@ export class ChessAI {
      * Medium difficulty - Evaluate each move and pick best with some randomness
      */
     private getMediumMove(game: Game, allMoves: Array<{ piece: Piece; moves: MoveList }>): IAIMove {
+        const board = this.getVisibleBoard(game, game.currentPlayer);
         let bestMove: IAIMove | null = null;
         let bestScore = -Infinity;
 
         for (const { piece, moves } of allMoves) {
             for (const move of moves) {
-                const score = this.evaluateMove(game, piece, move);
+                const score =
+                    this.evaluateMove(game, board, piece, move) +
+                    this.evaluateVariantGoal(game, piece.position, move);
                 // Add randomness for variety
                 const randomFactor = Math.random() * 50;
                 const finalScore = score + randomFactor;
@@ -164,46 +292,228 @@ export class ChessAI {
     }
 
     /**
-     * Hard difficulty - Minimax with alpha-beta pruning
+     * Hard difficulty - Minimax with alpha-beta pruning, searched with make/unmake
+     * on the move generator so no position is ever copied
      */
-    private getHardMove(game: Game, allMoves: Array<{ piece: Piece; moves: MoveList }>): IAIMove {
+    private getHardMove(
+        game: Game,
+        allMoves: Array<{ piece: Piece; moves: MoveList }>,
+        refused: readonly IRefusedMove[]
+    ): IAIMove {
+        const { rules, checkCount } = game;
+        const board = this.getVisibleBoard(game, game.currentPlayer);
+        const generator = rules.createGenerator(board, game.currentPlayer, game.isChess960);
         let bestMove: IAIMove | null = null;
         let bestScore = -Infinity;
-        const depth = 3;
 
-        for (const { piece, moves } of allMoves) {
-            for (const move of moves) {
-                // Simulate move
-                const score = this.evaluateMoveWithLookahead(game, piece, move, depth);
+        for (const move of this.orderMoves(rules.generateMoves(generator))) {
+            // The AI always promotes to a queen
+            const promotion = MoveGenerator.movePromotion(move);
+            if (promotion && promotion !== PieceType.QUEEN) {
+                continue;
+            }
+            const from = MoveGenerator.toPosition(MoveGenerator.moveFrom(move));
+            const to = MoveGenerator.toPosition(MoveGenerator.moveTo(move));
+            if (!MoveGenerator.moveDrop(move) && this.isRefused(from, to, refused)) {
+                continue;
+            }
 
-                if (score > bestScore) {
-                    bestScore = score;
-                    bestMove = {
-                        from: piece.position,
-                        to: move,
-                        score
-                    };
-                }
+            generator.makeMove(move);
+            const score = -this.search(
+                rules,
+                generator,
+                ChessAI.SEARCH_DEPTH - 1,
+                -Infinity,
+                -bestScore,
+                1,
+                this.countCheck(rules, generator, checkCount)
+            );
+            generator.unmakeMove();
+
+            if (!bestMove || score > bestScore) {
+                const drop = MoveGenerator.moveDrop(move);
+                bestScore = score;
+                bestMove = {
+                    from,
+                    to,
+                    score,
+                    ...(drop && { drop })
+                };
             }
         }
 
         return bestMove ?? this.getMediumMove(game, allMoves);
     }
 
+    /**
+     * Negamax search under the variant's rules; scores are from the point of view
+     * of the side to move
+     */
+    private search(
+        rules: VariantRules,
+        generator: MoveGenerator,
+        depth: number,
+        alpha: number,
+        beta: number,
+        ply: number,
+        checkCount: ICheckCount
+    ): number {
+        const moves = rules.generateMoves(generator);
+        const outcome = rules.getOutcome(generator, moves, checkCount);
+        if (outcome) {
+            return this.scoreOutcome(outcome, generator.sideToMove, ply);
+        }
+
+        if (depth === 0) {
+            const color = generator.sideToMove;
+            return (
+                this.evaluatePieces(generator, color) + rules.evaluate(generator, color, checkCount)
+            );
+        }
+
+        for (const move of this.orderMoves(moves)) {
+            generator.makeMove(move);
+            const score = -this.search(
+                rules,
+                generator,
+                depth - 1,
+                -beta,
+                -alpha,
+                ply + 1,
+                this.countCheck(rules, generator, checkCount)
+            );
+            generator.unmakeMove();
+
+            if (score >= beta) {
+                return score;
+            }
+            alpha = Math.max(alpha, score);
+        }
+
+        return alpha;
+    }
+
+    /**
+     * Score a finished game for the side to move, preferring the quickest win
+     */
+    private scoreOutcome(outcome: IGameOutcome, color: PieceColor, ply: number): number {
+        if (outcome.status === GameStatus.CHECKMATE) {
+            return -ChessAI.MATE_SCORE + ply;
+        }
+        if (outcome.winner) {
+            return outcome.winner === color ? ChessAI.MATE_SCORE - ply : -ChessAI.MATE_SCORE + ply;
+        }
+        return 0;
+    }
+
+    /**
+     * Checks given after a move was made on the generator, crediting the mover
+     * when the side now to move is in check
+     */
+    private countCheck(
+        rules: VariantRules,
+        generator: MoveGenerator,
+        checkCount: ICheckCount
+    ): ICheckCount {
+        if (!rules.isInCheck(generator)) {
+            return checkCount;
+        }
+
+        const mover =
+            generator.sideToMove === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return { ...checkCount, [mover]: checkCount[mover] + 1 };
+    }
+
+    /**
+     * The board as a player sees it, which under fog of war (Dark chess) leaves
+     * out the opponent's pieces the player cannot see, and in Kriegspiel all of them
+     */
+    private getVisibleBoard(game: Game, color: PieceColor): Board {
+        if (game.rules.hasUmpire) {
+            const occupied = FogOfWar.getOccupiedSquares(game.board, color);
+            return FogOfWar.getVisibleBoard(game.board, color, occupied);
+        }
+        return game.rules.hasFogOfWar ? FogOfWar.getVisibleBoard(game.board, color) : game.board;
+    }
+
+    /**
+     * Search captures first, which lets alpha-beta cut off sooner
+     */
+    private orderMoves(moves: number[]): number[] {
+        return [
+            ...moves.filter((move) => MoveGenerator.isCapture(move)),
+            ...moves.filter((move) => !MoveGenerator.isCapture(move))
+        ];
+    }
+
+    // ============================================================================
+    // DUCK PLACEMENT
+    // ============================================================================
+
+    /**
+     * Choose where to place the duck after the AI's move (Duck chess): the square
+     * that leaves the opponent the least valuable capture, then the fewest moves
+     */
+    public getDuckSquare(game: Game): IPosition | null {
+        const { rules } = game;
+        let bestSquare: IPosition | null = null;
+        let bestScore = Infinity;
+
+        for (const square of game.getDuckSquares()) {
+            const board = game.board.clone();
+            board.setDuck(square);
+            const generator = rules.createGenerator(
+                board,
+                this.getOpponentColor(),
+                game.isChess960
+            );
+            const moves = rules.generateMoves(generator);
+
+            let threat = 0;
+            for (const move of moves) {
+                const target = MoveGenerator.toPosition(MoveGenerator.moveTo(move));
+                const captured = generator.getPiece(target.row, target.col);
+                if (captured) {
+                    threat = Math.max(threat, PieceRegistry.getValue(captured.type));
+                }
+            }
+
+            const score = threat * 100 + moves.length;
+            if (score < bestScore) {
+                bestScore = score;
+                bestSquare = square;
+            }
+        }
+
+        return bestSquare;
+    }
+
+    // ============================================================================
+    // DRAW OFFERS
+    // ============================================================================
+
+    /**
+     * Decide whether to accept a draw offer: accept only when the position
+     * evaluates as worse for the AI
+     */
+    public respondToDrawOffer(game: Game): boolean {
+        return this.evaluateBoardPosition(game) < ChessAI.DRAW_ACCEPT_THRESHOLD;
+    }
+
     // ============================================================================
     // EVALUATION
     // ============================================================================
 
     /**
-     * Evaluate a single move
+     * Evaluate a single move on the board as the AI sees it
      */
-    private evaluateMove(game: Game, piece: Piece, to: IPosition): number {
+    private evaluateMove(game: Game, board: Board, piece: Piece, to: IPosition): number {
         let score = 0;
 
         // Capture bonus
-        const targetPiece = game.board.getPiece(to);
+        const targetPiece = board.getPiece(to);
         if (targetPiece) {
-            score += PIECE_VALUES[targetPiece.type];
+            score += PieceRegistry.getValue(targetPiece.type);
         }
 
         // Position bonus
@@ -225,52 +535,81 @@ export class ChessAI {
     }
 
     /**
-     * Evaluate move with lookahead (simplified minimax)
+     * Evaluate overall board position, as far as the AI can see it
      */
-    private evaluateMoveWithLookahead(
-        game: Game,
-        piece: Piece,
-        to: IPosition,
-        depth: number
-    ): number {
-        // Base evaluation
-        let score = this.evaluateMove(game, piece, to);
+    private evaluateBoardPosition(game: Game): number {
+        const generator = game.rules.createGenerator(
+            this.getVisibleBoard(game, this._color),
+            game.board.sideToMove,
+            game.isChess960
+        );
+        let score =
+            this.evaluatePieces(generator, this._color) +
+            game.rules.evaluate(generator, this._color, game.checkCount);
 
-        // Add board evaluation
-        if (depth > 0) {
-            score += this.evaluateBoardPosition(game) * 0.5;
+        // Check bonus
+        if (generator.sideToMove !== this._color && game.rules.isInCheck(generator)) {
+            score += 50;
         }
 
         return score;
     }
 
     /**
-     * Evaluate overall board position
+     * Score a move by the variant's goal: winning outright, or the change in
+     * the variant's own evaluation (always 0 in standard chess)
      */
-    private evaluateBoardPosition(game: Game): number {
+    private evaluateVariantGoal(game: Game, from: IPosition, to: IPosition): number {
+        const { rules, checkCount } = game;
+        const color = game.currentPlayer;
+        const board = this.getVisibleBoard(game, color);
+        const generator = rules.createGenerator(board, color, game.isChess960);
+        const before = rules.evaluate(generator, color, checkCount);
+
+        const move = rules
+            .generateMoves(generator)
+            .find(
+                (m) =>
+                    MoveGenerator.moveFrom(m) === MoveGenerator.toSquare(from) &&
+                    MoveGenerator.moveTo(m) === MoveGenerator.toSquare(to) &&
+                    (MoveGenerator.movePromotion(m) ?? PieceType.QUEEN) === PieceType.QUEEN
+            );
+        if (move === undefined) {
+            return 0;
+        }
+
+        generator.makeMove(move);
+        const after = this.countCheck(rules, generator, checkCount);
+        const outcome = rules.getOutcome(generator, rules.generateMoves(generator), after);
+        if (outcome?.status === GameStatus.VARIANT_WIN) {
+            return outcome.winner === color ? ChessAI.MATE_SCORE : -ChessAI.MATE_SCORE;
+        }
+
+        return rules.evaluate(generator, color, after) - before;
+    }
+
+    /**
+     * Material and position bonuses from one color's point of view
+     */
+    private evaluatePieces(generator: MoveGenerator, color: PieceColor): number {
         let score = 0;
 
         for (let row = 0; row < BOARD_SIZE; row++) {
             for (let col = 0; col < BOARD_SIZE; col++) {
-                const pieceData = game.board.getPieceData({ row, col });
-                if (pieceData) {
-                    const pieceValue = PIECE_VALUES[pieceData.type];
+                const piece = generator.getPiece(row, col);
+                if (piece) {
+                    const pieceValue = PieceRegistry.getValue(piece.type);
                     const positionBonus = this.getPositionBonus(
-                        pieceData.type,
+                        piece.type,
                         { row, col },
-                        pieceData.color
+                        piece.color
                     );
-                    const multiplier = pieceData.color === this._color ? 1 : -1;
+                    const multiplier = piece.color === color ? 1 : -1;
                     score += (pieceValue + positionBonus) * multiplier;
                 }
             }
         }
 
-        // Check bonus
-        if (game.isInCheck(this.getOpponentColor())) {
-            score += 50;
-        }
-
         return score;
     }
 
@@ -2,7 +2,7 @@
  * Chess Piece SVG Images
  */
 
-import { PieceType, PieceColor } from '../../types/index.js';
+import { type StandardPieceType, PieceType, PieceColor } from '../../types/index.js';
 
 // Import all piece SVGs
 import whiteKing from './white-king.svg';
@@ -19,7 +19,20 @@ import blackBishop from './black-bishop.svg';
 import blackKnight from './black-knight.svg';
 import blackPawn from './black-pawn.svg';
 
-export const PIECE_IMAGES: Record<PieceColor, Record<PieceType, string>> = {
+// Fairy pieces, whose images the PieceRegistry holds
+import whiteAmazon from './white-amazon.svg';
+import whiteArchbishop from './white-archbishop.svg';
+import whiteChancellor from './white-chancellor.svg';
+import whiteCamel from './white-camel.svg';
+import whiteGrasshopper from './white-grasshopper.svg';
+
+import blackAmazon from './black-amazon.svg';
+import blackArchbishop from './black-archbishop.svg';
+import blackChancellor from './black-chancellor.svg';
+import blackCamel from './black-camel.svg';
+import blackGrasshopper from './black-grasshopper.svg';
+
+export const PIECE_IMAGES: Record<PieceColor, Record<StandardPieceType, string>> = {
     [PieceColor.WHITE]: {
         [PieceType.KING]: whiteKing,
         [PieceType.QUEEN]: whiteQueen,
@@ -50,5 +63,15 @@ export {
     blackRook,
     blackBishop,
     blackKnight,
-    blackPawn
+    blackPawn,
+    whiteAmazon,
+    whiteArchbishop,
+    whiteChancellor,
+    whiteCamel,
+    whiteGrasshopper,
+    blackAmazon,
+    blackArchbishop,
+    blackChancellor,
+    blackCamel,
+    blackGrasshopper
 };
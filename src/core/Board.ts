@@ -4,21 +4,32 @@
  */
 
 import { Piece } from './Piece.js';
+import { FenConverter } from './Fen.js';
+import { Zobrist } from './Zobrist.js';
+import { Chess960 } from './Chess960.js';
+import { PieceRegistry } from './PieceRegistry.js';
 import { Pawn, Rook, Knight, Bishop, Queen, King } from '../pieces/index.js';
 import {
     type IPosition,
     type IPieceData,
     type Board as BoardType,
     type ICastlingRights,
+    type IBoardState,
+    type IPockets,
     PieceType,
     PieceColor,
-    BOARD_SIZE
+    BOARD_SIZE,
+    CASTLING_FILES
 } from '../types/index.js';
 
 export class Board {
     private _squares: (Piece | null)[][];
     private _enPassantTarget: IPosition | null = null;
     private _castlingRights: ICastlingRights;
+    private _sideToMove: PieceColor = PieceColor.WHITE;
+    private _pockets: IPockets | null = null; // pieces in hand; null outside Crazyhouse
+    private _duck: IPosition | null = null; // the neutral blocker (Duck chess)
+    private _hash: bigint; // Zobrist key without the en passant file
 
     constructor() {
         this._squares = this.createEmptyBoard();
@@ -28,6 +39,7 @@ export class Board {
             blackKingside: true,
             blackQueenside: true
         };
+        this._hash = this.computeBaseHash();
     }
 
     // ============================================================================
@@ -46,6 +58,31 @@ export class Board {
         return { ...this._castlingRights };
     }
 
+    public get sideToMove(): PieceColor {
+        return this._sideToMove;
+    }
+
+    public get pockets(): IPockets | null {
+        return this._pockets
+            ? { white: [...this._pockets.white], black: [...this._pockets.black] }
+            : null;
+    }
+
+    public get duck(): IPosition | null {
+        return this._duck ? { ...this._duck } : null;
+    }
+
+    /**
+     * Polyglot-compatible Zobrist key of the position
+     * Updated incrementally; the en passant file is added only when a capture is possible
+     */
+    public get hash(): bigint {
+        return (
+            this._hash ^
+            Zobrist.enPassantKey(this._squares, this._enPassantTarget, this._sideToMove)
+        );
+    }
+
     // ============================================================================
     // SETTERS
     // ============================================================================
@@ -55,7 +92,82 @@ export class Board {
     }
 
     public updateCastlingRights(rights: Partial<ICastlingRights>): void {
-        this._castlingRights = { ...this._castlingRights, ...rights };
+        this.setCastlingRights({ ...this._castlingRights, ...rights });
+    }
+
+    public setSideToMove(color: PieceColor): void {
+        this._hash ^= Zobrist.sideKey(this._sideToMove) ^ Zobrist.sideKey(color);
+        this._sideToMove = color;
+    }
+
+    public setPockets(pockets: IPockets | null): void {
+        this._hash ^= Zobrist.pocketsKey(this._pockets) ^ Zobrist.pocketsKey(pockets);
+        this._pockets = pockets ? { white: [...pockets.white], black: [...pockets.black] } : null;
+    }
+
+    /**
+     * Move the duck to a square, or take it off the board with null
+     */
+    public setDuck(position: IPosition | null): void {
+        this._hash ^= Zobrist.duckKey(this._duck) ^ Zobrist.duckKey(position);
+        this._duck = position ? { ...position } : null;
+    }
+
+    /**
+     * Put a piece in a player's hand, starting their pocket if needed
+     */
+    public addToPocket(color: PieceColor, type: PieceType): void {
+        const pockets = this.pockets ?? { white: [], black: [] };
+        pockets[color].push(type);
+        this.setPockets(pockets);
+    }
+
+    /**
+     * Take a piece out of a player's hand
+     * Returns false if they hold no such piece
+     */
+    public removeFromPocket(color: PieceColor, type: PieceType): boolean {
+        const pockets = this.pockets;
+        const index = pockets ? pockets[color].indexOf(type) : -1;
+        if (!pockets || index === -1) {
+            return false;
+        }
+
+        pockets[color].splice(index, 1);
+        this.setPockets(pockets);
+        return true;
+    }
+
+    private setCastlingRights(rights: ICastlingRights): void {
+        this._hash ^= Zobrist.castlingKey(this._castlingRights) ^ Zobrist.castlingKey(rights);
+        this._castlingRights = rights;
+    }
+
+    /**
+     * Put a piece (or nothing) on a square, keeping the hash in step
+     */
+    private placePiece(position: IPosition, piece: Piece | null): void {
+        const current = this._squares[position.row][position.col];
+        if (current) {
+            this._hash ^= Zobrist.pieceKey(current.type, current.color, position);
+        }
+        if (piece) {
+            this._hash ^= Zobrist.pieceKey(piece.type, piece.color, position);
+        }
+        this._squares[position.row][position.col] = piece;
+    }
+
+    private computeBaseHash(): bigint {
+        let hash = Zobrist.castlingKey(this._castlingRights) ^ Zobrist.sideKey(this._sideToMove);
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                const piece = this._squares[row][col];
+                if (piece) {
+                    hash ^= Zobrist.pieceKey(piece.type, piece.color, { row, col });
+                }
+            }
+        }
+        return hash;
     }
 
     // ============================================================================
@@ -74,12 +186,14 @@ export class Board {
     public setupStandardPosition(): void {
         this._squares = this.createEmptyBoard();
         this._enPassantTarget = null;
+        this._sideToMove = PieceColor.WHITE;
         this._castlingRights = {
             whiteKingside: true,
             whiteQueenside: true,
             blackKingside: true,
             blackQueenside: true
         };
+        this._hash = this.computeBaseHash();
 
         // Place pawns
         for (const pawn of Pawn.createStartingPositions(PieceColor.WHITE)) {
@@ -122,6 +236,47 @@ export class Board {
         this.setPiece(King.createStartingPosition(PieceColor.BLACK));
     }
 
+    /**
+     * Initialize board with a Chess960 starting position (0-959; 518 is the standard one)
+     */
+    public setupChess960Position(position: number): void {
+        const backRank = Chess960.getBackRank(position);
+        const queensideRookFile = backRank.indexOf(PieceType.ROOK);
+        const kingsideRookFile = backRank.lastIndexOf(PieceType.ROOK);
+
+        this._squares = this.createEmptyBoard();
+        this._enPassantTarget = null;
+        this._sideToMove = PieceColor.WHITE;
+        this._castlingRights = {
+            whiteKingside: true,
+            whiteQueenside: true,
+            blackKingside: true,
+            blackQueenside: true,
+            ...(kingsideRookFile !== CASTLING_FILES.kingside.rook && { kingsideRookFile }),
+            ...(queensideRookFile !== CASTLING_FILES.queenside.rook && { queensideRookFile })
+        };
+        this._hash = this.computeBaseHash();
+
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            for (const pawn of Pawn.createStartingPositions(color)) {
+                this.setPiece(pawn);
+            }
+
+            const row = color === PieceColor.WHITE ? 7 : 0;
+            backRank.forEach((type, col) => {
+                const piece = Board.createPieceFromData({
+                    type,
+                    color,
+                    position: { row, col },
+                    hasMoved: false
+                });
+                if (piece) {
+                    this.setPiece(piece);
+                }
+            });
+        }
+    }
+
     // ============================================================================
     // PIECE MANAGEMENT
     // ============================================================================
@@ -148,9 +303,8 @@ export class Board {
      * Set piece at its current position
      */
     public setPiece(piece: Piece): void {
-        const { row, col } = piece.position;
-        if (this.isValidPosition({ row, col })) {
-            this._squares[row][col] = piece;
+        if (this.isValidPosition(piece.position)) {
+            this.placePiece(piece.position, piece);
         }
     }
 
@@ -159,7 +313,7 @@ export class Board {
      */
     public setPieceAt(position: IPosition, piece: Piece | null): void {
         if (this.isValidPosition(position)) {
-            this._squares[position.row][position.col] = piece;
+            this.placePiece(position, piece);
             if (piece) {
                 piece.setPosition(position);
             }
@@ -167,12 +321,13 @@ export class Board {
     }
 
     /**
-     * Remove piece at position
+     * Remove piece at position; a removed king, or rook from its corner, loses its castling rights
      */
     public removePiece(position: IPosition): Piece | null {
         const piece = this.getPiece(position);
         if (piece) {
-            this._squares[position.row][position.col] = null;
+            this.placePiece(position, null);
+            this.updateCastlingRightsAfterMove(piece, position);
         }
         return piece;
     }
@@ -190,18 +345,48 @@ export class Board {
         const capturedPiece = this.getPiece(to);
 
         // Remove from old position
-        this._squares[from.row][from.col] = null;
+        this.placePiece(from, null);
 
         // Place at new position
         piece.setPosition(to);
-        this._squares[to.row][to.col] = piece;
+        this.placePiece(to, piece);
 
-        // Update castling rights if king or rook moves
+        // Update castling rights if king or rook moves, or a rook is captured at home
         this.updateCastlingRightsAfterMove(piece, from);
+        if (capturedPiece) {
+            this.updateCastlingRightsAfterMove(capturedPiece, to);
+        }
 
         return capturedPiece;
     }
 
+    /**
+     * Move king and rook to their castled squares
+     * Both are lifted first because in Chess960 either may land on the other's square
+     */
+    public castle(
+        kingFrom: IPosition,
+        kingTo: IPosition,
+        rookFrom: IPosition,
+        rookTo: IPosition
+    ): void {
+        const king = this.getPiece(kingFrom);
+        const rook = this.getPiece(rookFrom);
+        if (!king || !rook) {
+            return;
+        }
+
+        this.placePiece(kingFrom, null);
+        this.placePiece(rookFrom, null);
+
+        king.setPosition(kingTo);
+        rook.setPosition(rookTo);
+        this.placePiece(kingTo, king);
+        this.placePiece(rookTo, rook);
+
+        this.updateCastlingRightsAfterMove(king, kingFrom);
+    }
+
     /**
      * Update castling rights after a piece moves
      */
@@ -209,33 +394,31 @@ export class Board {
         // If king moves, lose both castling rights
         if (piece.type === PieceType.KING) {
             if (piece.color === PieceColor.WHITE) {
-                this._castlingRights = {
-                    ...this._castlingRights,
-                    whiteKingside: false,
-                    whiteQueenside: false
-                };
+                this.updateCastlingRights({ whiteKingside: false, whiteQueenside: false });
             } else {
-                this._castlingRights = {
-                    ...this._castlingRights,
-                    blackKingside: false,
-                    blackQueenside: false
-                };
+                this.updateCastlingRights({ blackKingside: false, blackQueenside: false });
             }
         }
 
-        // If rook moves, lose that side's castling right
-        if (piece.type === PieceType.ROOK) {
+        // If rook leaves its starting square, lose that side's castling right
+        const homeRow = piece.color === PieceColor.WHITE ? 7 : 0;
+        const {
+            kingsideRookFile = CASTLING_FILES.kingside.rook,
+            queensideRookFile = CASTLING_FILES.queenside.rook
+        } = this._castlingRights;
+
+        if (piece.type === PieceType.ROOK && from.row === homeRow) {
             if (piece.color === PieceColor.WHITE) {
-                if (from.col === 0) {
-                    this._castlingRights = { ...this._castlingRights, whiteQueenside: false };
-                } else if (from.col === 7) {
-                    this._castlingRights = { ...this._castlingRights, whiteKingside: false };
+                if (from.col === queensideRookFile) {
+                    this.updateCastlingRights({ whiteQueenside: false });
+                } else if (from.col === kingsideRookFile) {
+                    this.updateCastlingRights({ whiteKingside: false });
                 }
             } else {
-                if (from.col === 0) {
-                    this._castlingRights = { ...this._castlingRights, blackQueenside: false };
-                } else if (from.col === 7) {
-                    this._castlingRights = { ...this._castlingRights, blackKingside: false };
+                if (from.col === queensideRookFile) {
+                    this.updateCastlingRights({ blackQueenside: false });
+                } else if (from.col === kingsideRookFile) {
+                    this.updateCastlingRights({ blackKingside: false });
                 }
             }
         }
@@ -310,12 +493,18 @@ export class Board {
         const newBoard = new Board();
         newBoard._enPassantTarget = this._enPassantTarget ? { ...this._enPassantTarget } : null;
         newBoard._castlingRights = { ...this._castlingRights };
+        newBoard._sideToMove = this._sideToMove;
+        newBoard._pockets = this.pockets;
+        newBoard._duck = this.duck;
+        newBoard._hash = this._hash;
 
         for (let row = 0; row < BOARD_SIZE; row++) {
             for (let col = 0; col < BOARD_SIZE; col++) {
                 const piece = this._squares[row][col];
                 if (piece) {
-                    newBoard._squares[row][col] = piece.clone();
+                    const copy = piece.clone();
+                    copy.setPromoted(piece.promoted);
+                    newBoard._squares[row][col] = copy;
                 }
             }
         }
@@ -335,7 +524,7 @@ export class Board {
                 if (pieceData) {
                     const piece = Board.createPieceFromData(pieceData);
                     if (piece) {
-                        board._squares[row][col] = piece;
+                        board.placePiece({ row, col }, piece);
                     }
                 }
             }
@@ -347,7 +536,16 @@ export class Board {
     /**
      * Create piece instance from piece data
      */
-    private static createPieceFromData(data: IPieceData): Piece | null {
+    public static createPieceFromData(data: IPieceData): Piece | null {
+        const piece = Board.createPiece(data);
+        piece?.setPromoted(data.promoted ?? false);
+        return piece;
+    }
+
+    /**
+     * Create the piece of the data's type
+     */
+    private static createPiece(data: IPieceData): Piece | null {
         const { type, color, position, hasMoved } = data;
 
         switch (type) {
@@ -364,17 +562,61 @@ export class Board {
             case PieceType.KING:
                 return new King(color, position, hasMoved);
             default:
-                return null;
+                return PieceRegistry.create(data);
         }
     }
 
     /**
      * Create board from board state (for history restoration)
      */
-    public static fromBoardState(boardState: import('../types/index.js').IBoardState): Board {
+    public static fromBoardState(boardState: IBoardState): Board {
         const board = Board.fromData(boardState.squares);
-        board._enPassantTarget = boardState.enPassantTarget ? { ...boardState.enPassantTarget } : null;
-        board._castlingRights = { ...boardState.castlingRights };
+        board._enPassantTarget = boardState.enPassantTarget
+            ? { ...boardState.enPassantTarget }
+            : null;
+        board.setCastlingRights({ ...boardState.castlingRights });
+        board.setSideToMove(boardState.currentPlayer);
+        board.setPockets(boardState.pockets ?? null);
+        board.setDuck(boardState.duck ?? null);
+        return board;
+    }
+
+    /**
+     * Create board from a FEN string
+     * Move counters are ignored; use Game.loadFen to keep them
+     */
+    public static fromFen(fen: string): Board {
+        return Board.fromBoardState(FenConverter.parse(fen));
+    }
+
+    /**
+     * Serialize the board to FEN
+     */
+    public toFen(
+        currentPlayer: PieceColor = this._sideToMove,
+        halfMoveClock = 0,
+        fullMoveNumber = 1
+    ): string {
+        const pockets = this.pockets;
+        const duck = this.duck;
+        return FenConverter.stringify({
+            squares: this.squares,
+            currentPlayer,
+            enPassantTarget: this.enPassantTarget,
+            castlingRights: this.castlingRights,
+            halfMoveClock,
+            fullMoveNumber,
+            ...(pockets && { pockets }),
+            ...(duck && { duck })
+        });
+    }
+
+    /**
+     * Factory method to create a Chess960 board
+     */
+    public static createChess960(position: number): Board {
+        const board = new Board();
+        board.setupChess960Position(position);
         return board;
     }
 
@@ -0,0 +1,327 @@
+/**
+ * Board Editor
+ * Holds a hand-built position (pieces, side to move, castling rights and
+ * en passant square), checks that it is playable and exports it as FEN
+ */
+
+import { FenConverter, FenError, STANDARD_FEN } from './Fen.js';
+import { NotationConverter } from './GameHistory.js';
+import { MoveGenerator } from './MoveGenerator.js';
+import {
+    type IBoardState,
+    type IPieceData,
+    type IPosition,
+    type ICastlingRights,
+    PieceType,
+    PieceColor,
+    BOARD_SIZE,
+    CASTLING_FILES
+} from '../types/index.js';
+
+export type CastlingSide = 'kingside' | 'queenside';
+
+export class BoardEditor {
+    private _squares: (IPieceData | null)[][] = [];
+    private _sideToMove: PieceColor = PieceColor.WHITE;
+    private _castlingRights: ICastlingRights = BoardEditor.noCastlingRights();
+    private _enPassantTarget: IPosition | null = null;
+
+    constructor(fen: string = STANDARD_FEN) {
+        this.loadFen(fen);
+    }
+
+    // ============================================================================
+    // GETTERS
+    // ============================================================================
+
+    public get sideToMove(): PieceColor {
+        return this._sideToMove;
+    }
+
+    public get castlingRights(): ICastlingRights {
+        return { ...this._castlingRights };
+    }
+
+    public get enPassantTarget(): IPosition | null {
+        return this._enPassantTarget ? { ...this._enPassantTarget } : null;
+    }
+
+    public getPiece(position: IPosition): IPieceData | null {
+        return this._squares[position.row]?.[position.col] ?? null;
+    }
+
+    public hasCastlingRight(color: PieceColor, side: CastlingSide): boolean {
+        return this._castlingRights[BoardEditor.castlingKey(color, side)];
+    }
+
+    // ============================================================================
+    // EDITING
+    // ============================================================================
+
+    /**
+     * Replace the whole position with a FEN position
+     * Throws FenError if the FEN is malformed
+     */
+    public loadFen(fen: string): void {
+        const state = FenConverter.parse(fen);
+
+        if (
+            state.castlingRights.kingsideRookFile !== undefined ||
+            state.castlingRights.queensideRookFile !== undefined
+        ) {
+            throw new FenError('the board editor only supports standard castling rights', fen);
+        }
+
+        this._squares = state.squares.map((rank) =>
+            rank.map((piece) => piece && { ...piece, hasMoved: false })
+        );
+        this._sideToMove = state.currentPlayer;
+        this._castlingRights = { ...state.castlingRights };
+        this._enPassantTarget = state.enPassantTarget;
+    }
+
+    /**
+     * Remove every piece and all castling rights
+     */
+    public clear(): void {
+        this._squares = Array.from({ length: BOARD_SIZE }, () =>
+            Array<IPieceData | null>(BOARD_SIZE).fill(null)
+        );
+        this._castlingRights = BoardEditor.noCastlingRights();
+        this._enPassantTarget = null;
+    }
+
+    /**
+     * Put a piece on a square, replacing whatever stood there
+     */
+    public setPiece(position: IPosition, type: PieceType, color: PieceColor): void {
+        this._squares[position.row][position.col] = {
+            type,
+            color,
+            position: { ...position },
+            hasMoved: false
+        };
+    }
+
+    public removePiece(position: IPosition): void {
+        this._squares[position.row][position.col] = null;
+    }
+
+    /**
+     * Move a piece to another square, replacing whatever stood there
+     */
+    public movePiece(from: IPosition, to: IPosition): void {
+        const piece = this.getPiece(from);
+        if (!piece || (from.row === to.row && from.col === to.col)) {
+            return;
+        }
+
+        this.removePiece(from);
+        this.setPiece(to, piece.type, piece.color);
+    }
+
+    /**
+     * Set the side to move; an en passant square only makes sense for one side,
+     * so it is cleared
+     */
+    public setSideToMove(color: PieceColor): void {
+        if (color !== this._sideToMove) {
+            this._sideToMove = color;
+            this._enPassantTarget = null;
+        }
+    }
+
+    public setCastlingRight(color: PieceColor, side: CastlingSide, allowed: boolean): void {
+        this._castlingRights = {
+            ...this._castlingRights,
+            [BoardEditor.castlingKey(color, side)]: allowed
+        };
+    }
+
+    public setEnPassantTarget(position: IPosition | null): void {
+        this._enPassantTarget = position ? { ...position } : null;
+    }
+
+    // ============================================================================
+    // VALIDATION
+    // ============================================================================
+
+    /**
+     * Squares a pawn of the side not to move could just have skipped with a
+     * double push, i.e. the en passant squares worth offering
+     */
+    public getEnPassantCandidates(): IPosition[] {
+        const isWhiteToMove = this._sideToMove === PieceColor.WHITE;
+        const row = isWhiteToMove ? 2 : 5;
+        const candidates: IPosition[] = [];
+
+        for (let col = 0; col < BOARD_SIZE; col++) {
+            if (this.isEnPassantPossible({ row, col })) {
+                candidates.push({ row, col });
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * List what keeps the position from being played; an empty list means it is valid
+     */
+    public validate(): string[] {
+        const errors: string[] = [];
+
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const kings = this.countPieces(PieceType.KING, color);
+            if (kings !== 1) {
+                errors.push(
+                    `${BoardEditor.colorName(color)} must have exactly one king (found ${kings})`
+                );
+            }
+        }
+
+        const backRankPawns = [0, BOARD_SIZE - 1].flatMap((row) =>
+            this._squares[row]
+                .flatMap((piece) => (piece?.type === PieceType.PAWN ? [piece.position] : []))
+                .map((position) => BoardEditor.squareName(position))
+        );
+        if (backRankPawns.length > 0) {
+            errors.push(
+                `Pawns cannot stand on the first or last rank (${backRankPawns.join(', ')})`
+            );
+        }
+
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            for (const side of ['kingside', 'queenside'] as const) {
+                if (this.hasCastlingRight(color, side) && !this.canHaveCastlingRight(color, side)) {
+                    const row = color === PieceColor.WHITE ? BOARD_SIZE - 1 : 0;
+                    errors.push(
+                        `${BoardEditor.colorName(color)} cannot castle ${side}: the king and rook ` +
+                            `must stand on ${BoardEditor.squareName({ row, col: 4 })} and ` +
+                            BoardEditor.squareName({ row, col: CASTLING_FILES[side].rook })
+                    );
+                }
+            }
+        }
+
+        if (this._enPassantTarget && !this.isEnPassantPossible(this._enPassantTarget)) {
+            errors.push(
+                `No pawn can just have passed ${BoardEditor.squareName(this._enPassantTarget)}`
+            );
+        }
+
+        // Only meaningful once both kings are known
+        if (errors.length === 0 && this.isSideNotToMoveInCheck()) {
+            const opponent =
+                this._sideToMove === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+            errors.push(
+                `${BoardEditor.colorName(opponent)} is in check but it is ` +
+                    `${BoardEditor.colorName(this._sideToMove)} to move`
+            );
+        }
+
+        return errors;
+    }
+
+    public isValid(): boolean {
+        return this.validate().length === 0;
+    }
+
+    private countPieces(type: PieceType, color: PieceColor): number {
+        return this._squares.flat().filter((piece) => piece?.type === type && piece.color === color)
+            .length;
+    }
+
+    private canHaveCastlingRight(color: PieceColor, side: CastlingSide): boolean {
+        const row = color === PieceColor.WHITE ? BOARD_SIZE - 1 : 0;
+        const king = this._squares[row][4];
+        const rook = this._squares[row][CASTLING_FILES[side].rook];
+
+        return (
+            king?.type === PieceType.KING &&
+            king.color === color &&
+            rook?.type === PieceType.ROOK &&
+            rook.color === color
+        );
+    }
+
+    /**
+     * The square must be empty, as must the square the pawn started on,
+     * and the pawn of the side not to move must stand just beyond it
+     */
+    private isEnPassantPossible(target: IPosition): boolean {
+        const isWhiteToMove = this._sideToMove === PieceColor.WHITE;
+        if (target.row !== (isWhiteToMove ? 2 : 5)) {
+            return false;
+        }
+
+        const direction = isWhiteToMove ? 1 : -1;
+        const pawn = this.getPiece({ row: target.row + direction, col: target.col });
+
+        return (
+            this.getPiece(target) === null &&
+            this.getPiece({ row: target.row - direction, col: target.col }) === null &&
+            pawn?.type === PieceType.PAWN &&
+            pawn.color !== this._sideToMove
+        );
+    }
+
+    private isSideNotToMoveInCheck(): boolean {
+        const opponent =
+            this._sideToMove === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return MoveGenerator.fromBoardState({
+            ...this.toBoardState(),
+            currentPlayer: opponent,
+            enPassantTarget: null
+        }).isInCheck();
+    }
+
+    // ============================================================================
+    // EXPORT
+    // ============================================================================
+
+    public toBoardState(): IBoardState {
+        return {
+            squares: this._squares.map((rank) => rank.map((piece) => piece && { ...piece })),
+            currentPlayer: this._sideToMove,
+            enPassantTarget: this.enPassantTarget,
+            castlingRights: this.castlingRights,
+            halfMoveClock: 0,
+            fullMoveNumber: 1
+        };
+    }
+
+    public toFen(): string {
+        return FenConverter.stringify(this.toBoardState());
+    }
+
+    // ============================================================================
+    // HELPERS
+    // ============================================================================
+
+    private static noCastlingRights(): ICastlingRights {
+        return {
+            whiteKingside: false,
+            whiteQueenside: false,
+            blackKingside: false,
+            blackQueenside: false
+        };
+    }
+
+    private static castlingKey(
+        color: PieceColor,
+        side: CastlingSide
+    ): 'whiteKingside' | 'whiteQueenside' | 'blackKingside' | 'blackQueenside' {
+        if (color === PieceColor.WHITE) {
+            return side === 'kingside' ? 'whiteKingside' : 'whiteQueenside';
+        }
+        return side === 'kingside' ? 'blackKingside' : 'blackQueenside';
+    }
+
+    private static colorName(color: PieceColor): string {
+        return color === PieceColor.WHITE ? 'White' : 'Black';
+    }
+
+    private static squareName(position: IPosition): string {
+        return NotationConverter.positionToAlgebraic(position.row, position.col);
+    }
+}
@@ -0,0 +1,115 @@
+/**
+ * Chess960 (Fischer Random)
+ * Numbered start positions (Scharnagl numbering, 0-959) and castling helpers
+ */
+
+import {
+    type IBoardState,
+    type StandardPieceType,
+    PieceType,
+    PieceColor,
+    PIECE_LETTERS,
+    CASTLING_FILES,
+    BOARD_SIZE
+} from '../types/index.js';
+
+export class Chess960 {
+    public static readonly POSITION_COUNT = 960;
+    public static readonly STANDARD_POSITION = 518; // RNBQKBNR
+
+    // Knight placements on the five squares left after bishops and queen
+    private static readonly KNIGHT_PLACEMENTS: readonly (readonly [number, number])[] = [
+        [0, 1],
+        [0, 2],
+        [0, 3],
+        [0, 4],
+        [1, 2],
+        [1, 3],
+        [1, 4],
+        [2, 3],
+        [2, 4],
+        [3, 4]
+    ];
+
+    /**
+     * Back-rank pieces of a start position, from the a-file to the h-file
+     */
+    public static getBackRank(position: number): StandardPieceType[] {
+        if (!Number.isInteger(position) || position < 0 || position >= this.POSITION_COUNT) {
+            throw new RangeError(`Chess960 position must be 0-959, got ${position}`);
+        }
+
+        const rank: (StandardPieceType | null)[] = Array<StandardPieceType | null>(BOARD_SIZE).fill(
+            null
+        );
+        let rest = position;
+
+        // Light-squared bishop on b, d, f or h; dark-squared on a, c, e or g
+        rank[(rest % 4) * 2 + 1] = PieceType.BISHOP;
+        rest = Math.floor(rest / 4);
+        rank[(rest % 4) * 2] = PieceType.BISHOP;
+        rest = Math.floor(rest / 4);
+
+        const emptyFiles = (): number[] =>
+            rank.flatMap((piece, file) => (piece === null ? [file] : []));
+
+        rank[emptyFiles()[rest % 6]] = PieceType.QUEEN;
+        rest = Math.floor(rest / 6);
+
+        const empty = emptyFiles();
+        for (const index of this.KNIGHT_PLACEMENTS[rest]) {
+            rank[empty[index]] = PieceType.KNIGHT;
+        }
+
+        // The king goes between the two rooks on the last three squares
+        const [queensideRook, king, kingsideRook] = emptyFiles();
+        rank[queensideRook] = PieceType.ROOK;
+        rank[king] = PieceType.KING;
+        rank[kingsideRook] = PieceType.ROOK;
+
+        return rank as StandardPieceType[];
+    }
+
+    /**
+     * FEN of a start position; X-FEN castling letters (KQkq) name the outer rooks
+     */
+    public static getStartFen(position: number): string {
+        const letters = this.getBackRank(position)
+            .map((type) => PIECE_LETTERS[type])
+            .join('');
+
+        return `${letters.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${letters} w KQkq - 0 1`;
+    }
+
+    /**
+     * Pick a start position at random
+     */
+    public static randomPosition(): number {
+        return Math.floor(Math.random() * this.POSITION_COUNT);
+    }
+
+    /**
+     * Check whether every castling right held can be played as in standard chess:
+     * the king on the e-file and the castling rooks on the a- and h-files
+     */
+    public static hasStandardCastling(state: IBoardState): boolean {
+        const { castlingRights: rights } = state;
+        const rookFiles =
+            (rights.kingsideRookFile ?? CASTLING_FILES.kingside.rook) ===
+                CASTLING_FILES.kingside.rook &&
+            (rights.queensideRookFile ?? CASTLING_FILES.queenside.rook) ===
+                CASTLING_FILES.queenside.rook;
+
+        const kingOnEFile = (color: PieceColor, row: number): boolean => {
+            const piece = state.squares[row][4];
+            return piece?.type === PieceType.KING && piece.color === color;
+        };
+
+        return (
+            rookFiles &&
+            (!(rights.whiteKingside || rights.whiteQueenside) ||
+                kingOnEFile(PieceColor.WHITE, BOARD_SIZE - 1)) &&
+            (!(rights.blackKingside || rights.blackQueenside) || kingOnEFile(PieceColor.BLACK, 0))
+        );
+    }
+}
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChessClock } from './ChessClock.js';
+import { Game } from './Game.js';
+import {
+    type ITimeControl,
+    DelayType,
+    DrawReason,
+    GameMode,
+    GameStatus,
+    PieceColor
+} from '../types/index.js';
+
+const ROOK_ENDING = '4k3/8/8/8/8/8/8/R3K3 w - - 0 1';
+const TEN_SECONDS: ITimeControl = { initialTime: 10, increment: 0 };
+
+/**
+ * A clock whose time only moves when the test says so
+ */
+function createClock(white: ITimeControl, black: ITimeControl = white) {
+    let now = 0;
+    const clock = new ChessClock(
+        { [PieceColor.WHITE]: white, [PieceColor.BLACK]: black },
+        () => now
+    );
+    const wait = (seconds: number): void => {
+        now += seconds * 1000;
+    };
+    return { clock, wait };
+}
+
+function timedGame(fen: string, timeControl: ITimeControl): Game {
+    const game = new Game();
+    game.initialize({
+        mode: GameMode.PVP,
+        players: {
+            white: { name: 'White', color: PieceColor.WHITE, isAI: false },
+            black: { name: 'Black', color: PieceColor.BLACK, isAI: false }
+        },
+        theme: 'default',
+        timeControl,
+        startFen: fen
+    });
+    return game;
+}
+
+describe('ChessClock with Fischer increment', () => {
+    it("does not run White's clock before the first move", () => {
+        const { clock, wait } = createClock({ initialTime: 60, increment: 0 });
+
+        wait(30);
+
+        expect(clock.isRunning).toBe(false);
+        expect(clock.getRemaining(PieceColor.WHITE)).toBe(60_000);
+    });
+
+    it('charges the time used and adds the increment after each move', () => {
+        const { clock, wait } = createClock({ initialTime: 60, increment: 2 });
+        clock.press(PieceColor.WHITE);
+
+        wait(5);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(55_000);
+        clock.press(PieceColor.BLACK);
+
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(57_000);
+        expect(clock.getRemaining(PieceColor.WHITE)).toBe(62_000);
+        expect(clock.activeColor).toBe(PieceColor.WHITE);
+    });
+
+    it('stops counting down while paused', () => {
+        const { clock, wait } = createClock({ initialTime: 60, increment: 0 });
+        clock.press(PieceColor.WHITE);
+
+        wait(10);
+        clock.pause();
+        wait(100);
+        clock.resume();
+        wait(5);
+
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(45_000);
+    });
+
+    it('flags a player at zero and never shows negative time', () => {
+        const { clock, wait } = createClock({ initialTime: 10, increment: 0 });
+        clock.press(PieceColor.WHITE);
+
+        wait(15);
+
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(0);
+        expect(clock.isFlagged(PieceColor.BLACK)).toBe(true);
+        expect(clock.isFlagged(PieceColor.WHITE)).toBe(false);
+    });
+});
+
+describe('Game on the clock', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('ends the game when the player to move runs out of time', () => {
+        const game = timedGame(ROOK_ENDING, TEN_SECONDS);
+        expect(game.playUci('a1a2').success).toBe(true);
+
+        vi.advanceTimersByTime(9_000);
+        expect(game.checkFlagFall()).toBe(false);
+        vi.advanceTimersByTime(1_000);
+
+        expect(game.checkFlagFall()).toBe(true);
+        expect(game.status).toBe(GameStatus.TIMEOUT);
+        expect(game.flaggedColor).toBe(PieceColor.BLACK);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('draws on time when the opponent could never checkmate', () => {
+        const game = timedGame(ROOK_ENDING, TEN_SECONDS);
+        expect(game.playUci('a1a2').success).toBe(true);
+        expect(game.playUci('e8d8').success).toBe(true);
+
+        vi.advanceTimersByTime(10_000);
+
+        expect(game.checkFlagFall()).toBe(true);
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL);
+    });
+
+    it('pauses the clock while an earlier position is shown', () => {
+        const game = timedGame(ROOK_ENDING, TEN_SECONDS);
+        expect(game.playUci('a1a2').success).toBe(true);
+
+        expect(game.undoMove()).toBe(true);
+        vi.advanceTimersByTime(60_000);
+        expect(game.goToLatest()).toBe(true);
+
+        expect(game.checkFlagFall()).toBe(false);
+        expect(game.clock?.getRemaining(PieceColor.BLACK)).toBe(10_000);
+    });
+});
+
+describe('ChessClock with delays and stages', () => {
+    it('does not start charging time until a simple delay has passed', () => {
+        const { clock, wait } = createClock({ initialTime: 60, increment: 0, delay: 5 });
+        clock.press(PieceColor.WHITE);
+
+        wait(3);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(60_000);
+        expect(clock.getDelayRemaining(PieceColor.BLACK)).toBe(2_000);
+
+        wait(4);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(58_000);
+        clock.press(PieceColor.BLACK);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(58_000);
+    });
+
+    it('gives back the time used up to the Bronstein delay', () => {
+        const { clock, wait } = createClock({
+            initialTime: 60,
+            increment: 0,
+            delay: 5,
+            delayType: DelayType.BRONSTEIN
+        });
+        clock.press(PieceColor.WHITE);
+
+        wait(3);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(57_000);
+        clock.press(PieceColor.BLACK);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(60_000);
+
+        clock.press(PieceColor.WHITE);
+        wait(8);
+        clock.press(PieceColor.BLACK);
+        expect(clock.getRemaining(PieceColor.BLACK)).toBe(57_000);
+    });
+
+    it("adds the next stage's time once the stage's moves are made", () => {
+        const { clock, wait } = createClock({
+            initialTime: 60,
+            increment: 0,
+            moves: 2,
+            stages: [{ time: 30, increment: 5 }]
+        });
+
+        clock.press(PieceColor.WHITE);
+        expect(clock.getMovesToNextStage(PieceColor.WHITE)).toBe(1);
+        clock.press(PieceColor.BLACK);
+        wait(10);
+        clock.press(PieceColor.WHITE);
+
+        expect(clock.getRemaining(PieceColor.WHITE)).toBe(80_000);
+        expect(clock.getStage(PieceColor.WHITE).increment).toBe(5);
+        expect(clock.getMovesToNextStage(PieceColor.WHITE)).toBeNull();
+
+        clock.press(PieceColor.BLACK);
+        wait(10);
+        clock.press(PieceColor.WHITE);
+        expect(clock.getRemaining(PieceColor.WHITE)).toBe(75_000);
+    });
+
+    it('repeats a final stage that has a move count', () => {
+        const { clock } = createClock({ initialTime: 60, increment: 0, moves: 1 });
+
+        clock.press(PieceColor.WHITE);
+        clock.press(PieceColor.BLACK);
+        clock.press(PieceColor.WHITE);
+
+        expect(clock.getRemaining(PieceColor.WHITE)).toBe(180_000);
+        expect(clock.getMovesToNextStage(PieceColor.WHITE)).toBe(1);
+    });
+
+    it('gives each player their own time control in a time-odds game', () => {
+        const game = new Game();
+        game.initialize({
+            mode: GameMode.PVP,
+            players: {
+                white: { name: 'White', color: PieceColor.WHITE, isAI: false },
+                black: {
+                    name: 'Black',
+                    color: PieceColor.BLACK,
+                    isAI: false,
+                    timeControl: { initialTime: 300, increment: 0 }
+                }
+            },
+            theme: 'default',
+            timeControl: TEN_SECONDS
+        });
+
+        expect(game.getTimeControl(PieceColor.WHITE)).toEqual(TEN_SECONDS);
+        expect(game.clock?.getRemaining(PieceColor.WHITE)).toBe(10_000);
+        expect(game.clock?.getRemaining(PieceColor.BLACK)).toBe(300_000);
+    });
+});
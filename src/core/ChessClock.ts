@@ -0,0 +1,185 @@
+/**
+ * Chess Clock
+ * Keeps per-side remaining time for increment, delay and multi-stage time controls
+ */
+
+import {
+    type ITimeControl,
+    type ITimeControlStage,
+    PieceColor,
+    DelayType
+} from '../types/index.js';
+
+interface ISideClock {
+    readonly timeControl: ITimeControl;
+    readonly stages: ITimeControlStage[];
+    remaining: number; // in milliseconds, at the start of the current move
+    stageIndex: number;
+    stageMoves: number; // moves made in the current stage
+}
+
+export class ChessClock {
+    private readonly _sides: Record<PieceColor, ISideClock>;
+    private readonly _now: () => number;
+    private _activeColor: PieceColor | null;
+    private _runningSince: number | null;
+    private _moveElapsed: number; // time spent on the current move before the last pause
+
+    /**
+     * @param timeControls - Time control for each side; they differ in time-odds games
+     * @param now - Time source in milliseconds, replaceable for deterministic use
+     */
+    constructor(
+        timeControls: Record<PieceColor, ITimeControl>,
+        now: () => number = () => Date.now()
+    ) {
+        this._sides = {
+            [PieceColor.WHITE]: this.createSide(timeControls[PieceColor.WHITE]),
+            [PieceColor.BLACK]: this.createSide(timeControls[PieceColor.BLACK])
+        };
+        this._now = now;
+        this._activeColor = null;
+        this._runningSince = null;
+        this._moveElapsed = 0;
+    }
+
+    /**
+     * List the stages of a time control, the first one described by the control itself
+     */
+    public static getStages(timeControl: ITimeControl): ITimeControlStage[] {
+        const { initialTime, increment, delay, delayType, moves, stages = [] } = timeControl;
+        return [{ time: initialTime, increment, delay, delayType, moves }, ...stages];
+    }
+
+    private createSide(timeControl: ITimeControl): ISideClock {
+        return {
+            timeControl,
+            stages: ChessClock.getStages(timeControl),
+            remaining: timeControl.initialTime * 1000,
+            stageIndex: 0,
+            stageMoves: 0
+        };
+    }
+
+    // ============================================================================
+    // GETTERS
+    // ============================================================================
+
+    public getTimeControl(color: PieceColor): ITimeControl {
+        return this._sides[color].timeControl;
+    }
+
+    /**
+     * Color whose time is (or was last) counting down, null before the first move
+     */
+    public get activeColor(): PieceColor | null {
+        return this._activeColor;
+    }
+
+    public get isRunning(): boolean {
+        return this._runningSince !== null;
+    }
+
+    /**
+     * The stage a player is currently in
+     */
+    public getStage(color: PieceColor): ITimeControlStage {
+        const side = this._sides[color];
+        return side.stages[side.stageIndex];
+    }
+
+    /**
+     * Moves left before the next stage begins (null in a sudden-death stage)
+     */
+    public getMovesToNextStage(color: PieceColor): number | null {
+        const { moves } = this.getStage(color);
+        return moves ? moves - this._sides[color].stageMoves : null;
+    }
+
+    /**
+     * Remaining time in milliseconds, never below zero
+     * Under simple delay the clock does not move until the delay has passed
+     */
+    public getRemaining(color: PieceColor): number {
+        const side = this._sides[color];
+        if (color !== this._activeColor) {
+            return Math.max(0, side.remaining);
+        }
+
+        const elapsed = this.getMoveElapsed();
+        const { delay = 0, delayType = DelayType.SIMPLE } = this.getStage(color);
+        const charged =
+            delayType === DelayType.SIMPLE ? Math.max(0, elapsed - delay * 1000) : elapsed;
+
+        return Math.max(0, side.remaining - charged);
+    }
+
+    /**
+     * Delay left on the current move in milliseconds
+     */
+    public getDelayRemaining(color: PieceColor): number {
+        if (color !== this._activeColor) {
+            return 0;
+        }
+        const delay = (this.getStage(color).delay ?? 0) * 1000;
+        return Math.max(0, delay - this.getMoveElapsed());
+    }
+
+    public isFlagged(color: PieceColor): boolean {
+        return this.getRemaining(color) <= 0;
+    }
+
+    private getMoveElapsed(): number {
+        const running = this._runningSince !== null ? this._now() - this._runningSince : 0;
+        return this._moveElapsed + running;
+    }
+
+    // ============================================================================
+    // CONTROL
+    // ============================================================================
+
+    /**
+     * Stop the clock of the player who just moved, apply the stage's increment or
+     * Bronstein delay, move on to the next stage if its moves are completed and
+     * start the opponent's clock. White's clock does not run before the first move.
+     */
+    public press(color: PieceColor): void {
+        const side = this._sides[color];
+        const stage = this.getStage(color);
+        const elapsed = color === this._activeColor ? this.getMoveElapsed() : 0;
+
+        side.remaining = this.getRemaining(color) + stage.increment * 1000;
+        if (stage.delayType === DelayType.BRONSTEIN) {
+            side.remaining += Math.min(elapsed, (stage.delay ?? 0) * 1000);
+        }
+
+        side.stageMoves++;
+        if (stage.moves && side.stageMoves >= stage.moves) {
+            // A final stage with a move count repeats (e.g. 40 moves in 2 hours, repeating)
+            side.stageIndex = Math.min(side.stageIndex + 1, side.stages.length - 1);
+            side.stageMoves = 0;
+            side.remaining += this.getStage(color).time * 1000;
+        }
+
+        this._activeColor = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        this._moveElapsed = 0;
+        this._runningSince = this._now();
+    }
+
+    /**
+     * Stop counting down, keeping the remaining times
+     */
+    public pause(): void {
+        this._moveElapsed = this.getMoveElapsed();
+        this._runningSince = null;
+    }
+
+    /**
+     * Continue counting down for the active color after a pause
+     */
+    public resume(): void {
+        if (this._activeColor && this._runningSince === null) {
+            this._runningSince = this._now();
+        }
+    }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { DrawDetector } from './DrawDetector.js';
+import { FenConverter } from './Fen.js';
+import { Game } from './Game.js';
+import { type IDrawRules, DrawReason, GameMode, GameStatus, PieceColor } from '../types/index.js';
+
+function gameWithDrawRules(fen: string, drawRules: IDrawRules): Game {
+    const game = new Game();
+    game.initialize({
+        mode: GameMode.PVP,
+        players: {
+            white: { name: 'White', color: PieceColor.WHITE, isAI: false },
+            black: { name: 'Black', color: PieceColor.BLACK, isAI: false }
+        },
+        theme: 'default',
+        startFen: fen,
+        drawRules
+    });
+    return game;
+}
+
+function play(game: Game, moves: string[]): void {
+    for (const uci of moves) {
+        expect(game.playUci(uci).success).toBe(true);
+    }
+}
+
+function isInsufficient(fen: string): boolean {
+    return DrawDetector.hasInsufficientMaterial(FenConverter.parse(fen).squares);
+}
+
+describe('DrawDetector', () => {
+    it('finds the dead positions', () => {
+        expect(isInsufficient('8/8/4k3/8/8/3K4/8/8 w - - 0 1')).toBe(true);
+        expect(isInsufficient('8/8/4k3/8/8/3K4/8/6N1 w - - 0 1')).toBe(true);
+        expect(isInsufficient('8/8/4k3/8/8/3K4/8/5B2 w - - 0 1')).toBe(true);
+        // Bishops on the same square color, whoever owns them
+        expect(isInsufficient('8/8/4k3/1b6/8/3K4/8/5B2 w - - 0 1')).toBe(true);
+    });
+
+    it('leaves positions where mate is still possible', () => {
+        expect(isInsufficient('8/2b5/4k3/8/8/3K4/8/5B2 w - - 0 1')).toBe(false);
+        expect(isInsufficient('8/8/4k3/8/8/3K4/8/5BN1 w - - 0 1')).toBe(false);
+        expect(isInsufficient('8/8/4k3/8/8/3K4/4P3/8 w - - 0 1')).toBe(false);
+        expect(isInsufficient('8/8/4k3/8/8/3K4/8/7R w - - 0 1')).toBe(false);
+    });
+
+    it('only counts mating material for the player who has it', () => {
+        const squares = FenConverter.parse('8/8/4k3/8/8/3K4/8/7R w - - 0 1').squares;
+
+        expect(DrawDetector.hasMatingMaterial(squares, PieceColor.WHITE)).toBe(true);
+        expect(DrawDetector.hasMatingMaterial(squares, PieceColor.BLACK)).toBe(false);
+    });
+});
+
+describe('Game draw rules', () => {
+    it('ends the game when a capture leaves too little material', () => {
+        const game = new Game();
+        game.loadFen('8/8/4k3/8/8/3K4/8/4r1N1 w - - 0 1');
+
+        play(game, ['g1e2']);
+        expect(game.status).toBe(GameStatus.IN_PROGRESS);
+        play(game, ['e1e2', 'd3e2']);
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.INSUFFICIENT_MATERIAL);
+    });
+
+    it('draws after fifty moves without a capture or pawn move', () => {
+        const game = new Game();
+        game.loadFen('k7/8/8/8/8/8/8/KR6 w - - 99 80');
+
+        play(game, ['b1b2']);
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.FIFTY_MOVE);
+    });
+
+    it('resets the fifty-move count on a pawn move', () => {
+        const game = new Game();
+        game.loadFen('k7/8/8/8/8/8/P7/1K5R w - - 99 80');
+
+        play(game, ['a2a3']);
+
+        expect(game.halfMoveClock).toBe(0);
+        expect(game.isGameOver()).toBe(false);
+    });
+
+    it('draws on the third occurrence of a position', () => {
+        const game = new Game();
+        const shuffle = ['g1f3', 'g8f6', 'f3g1', 'f6g8'];
+
+        play(game, shuffle);
+        play(game, shuffle.slice(0, 3));
+        expect(game.isGameOver()).toBe(false);
+        play(game, shuffle.slice(3));
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.THREEFOLD_REPETITION);
+    });
+
+    it('leaves fifty-move and threefold draws to a claim when asked to', () => {
+        const game = gameWithDrawRules('k7/8/8/8/8/8/8/KR6 w - - 99 80', {
+            claimRequired: true,
+            seventyFiveMove: true
+        });
+
+        play(game, ['b1b2']);
+        expect(game.isGameOver()).toBe(false);
+        expect(game.getClaimableDraw()).toBe(DrawReason.FIFTY_MOVE);
+
+        expect(game.claimDraw()).toBe(true);
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.FIFTY_MOVE);
+    });
+
+    it('ends the game after seventy-five moves even when draws are claimed', () => {
+        const game = gameWithDrawRules('k7/8/8/8/8/8/8/KR6 w - - 149 80', {
+            claimRequired: true,
+            seventyFiveMove: true
+        });
+
+        play(game, ['b1b2']);
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.SEVENTY_FIVE_MOVE);
+    });
+
+    it('has nothing to claim in a fresh position', () => {
+        const game = new Game();
+        play(game, ['e2e4', 'e7e5']);
+
+        expect(game.getClaimableDraw()).toBeNull();
+        expect(game.claimDraw()).toBe(false);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Draw Detector
+ * Detects repetitions, move-count draws and dead positions (insufficient material)
+ */
+
+import { Zobrist } from './Zobrist.js';
+import {
+    type IBoardState,
+    type Board as BoardType,
+    PieceType,
+    PieceColor
+} from '../types/index.js';
+
+export class DrawDetector {
+    public static readonly FIFTY_MOVE_PLIES = 100;
+    public static readonly SEVENTY_FIVE_MOVE_PLIES = 150;
+
+    /**
+     * Identify a position for repetition purposes: placement, side to move,
+     * castling rights, and the en passant file only when a capture is possible
+     */
+    public static getPositionKey(state: IBoardState): bigint {
+        return Zobrist.hash(state);
+    }
+
+    /**
+     * Count how often the position occurs in the given history (including itself)
+     */
+    public static countRepetitions(previousKeys: bigint[], current: bigint): number {
+        return 1 + previousKeys.filter((key) => key === current).length;
+    }
+
+    /**
+     * Check whether neither side can possibly checkmate:
+     * K vs K, K+minor vs K, or kings with bishops all on the same square color
+     */
+    public static hasInsufficientMaterial(squares: BoardType): boolean {
+        const minors: { type: PieceType; squareColor: number }[] = [];
+
+        for (let row = 0; row < squares.length; row++) {
+            for (let col = 0; col < squares[row].length; col++) {
+                const piece = squares[row][col];
+                if (!piece || piece.type === PieceType.KING) {
+                    continue;
+                }
+                if (piece.type !== PieceType.BISHOP && piece.type !== PieceType.KNIGHT) {
+                    return false;
+                }
+                minors.push({ type: piece.type, squareColor: (row + col) % 2 });
+            }
+        }
+
+        if (minors.length <= 1) {
+            return true;
+        }
+
+        return (
+            minors.every((minor) => minor.type === PieceType.BISHOP) &&
+            minors.every((minor) => minor.squareColor === minors[0].squareColor)
+        );
+    }
+
+    /**
+     * Check whether a player could still checkmate by some series of legal moves;
+     * a lone king never can. Decides whether running out of time loses or draws.
+     */
+    public static hasMatingMaterial(squares: BoardType, color: PieceColor): boolean {
+        if (this.hasInsufficientMaterial(squares)) {
+            return false;
+        }
+
+        return this.hasPiecesBesidesKing(squares, color);
+    }
+
+    /**
+     * Check whether a player has anything left but the king
+     */
+    public static hasPiecesBesidesKing(squares: BoardType, color: PieceColor): boolean {
+        return squares.some((rank) =>
+            rank.some((piece) => piece?.color === color && piece.type !== PieceType.KING)
+        );
+    }
+
+    /**
+     * Check whether only kings are left, the one dead position in variants where
+     * any other piece might still win (Three-check, Atomic)
+     */
+    public static hasBareKings(squares: BoardType): boolean {
+        return (
+            !this.hasPiecesBesidesKing(squares, PieceColor.WHITE) &&
+            !this.hasPiecesBesidesKing(squares, PieceColor.BLACK)
+        );
+    }
+}
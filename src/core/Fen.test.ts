@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { FenConverter } from './Fen.js';
+import { Game } from './Game.js';
+import { PgnParser, PgnWriter } from './Pgn.js';
+import { Variant } from '../types/index.js';
+
+const THREE_CHECK_FEN = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2 +2+1';
+
+function threeCheckGame(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.THREE_CHECK);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('FenConverter', () => {
+    it('reads and writes the Three-check check counts', () => {
+        const state = FenConverter.parse(THREE_CHECK_FEN);
+
+        expect(state.checkCount).toEqual({ white: 2, black: 1 });
+        expect(FenConverter.stringify(state)).toBe(THREE_CHECK_FEN);
+    });
+
+    it('accepts check counts after an EPD-style position', () => {
+        const state = FenConverter.parse('8/8/8/4k3/8/8/8/4K3 b - - +0+2');
+
+        expect(state.checkCount).toEqual({ white: 0, black: 2 });
+        expect(state.fullMoveNumber).toBe(1);
+    });
+
+    it('keeps the check counts of a loaded Three-check position', () => {
+        const game = threeCheckGame(THREE_CHECK_FEN);
+
+        expect(game.checkCount).toEqual({ white: 2, black: 1 });
+        expect(game.toFen()).toBe(THREE_CHECK_FEN);
+    });
+
+    it('keeps the check counts through the PGN FEN tag', () => {
+        const game = threeCheckGame(THREE_CHECK_FEN);
+        const loaded = new Game();
+        PgnParser.load(loaded, PgnWriter.write(game));
+
+        expect(loaded.checkCount).toEqual({ white: 2, black: 1 });
+    });
+});
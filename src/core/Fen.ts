@@ -0,0 +1,480 @@
+/**
+ * FEN (Forsyth-Edwards Notation) Converter
+ * Parses FEN strings into board states and serializes board states back to FEN
+ */
+
+import { PieceRegistry } from './PieceRegistry.js';
+import {
+    type IBoardState,
+    type IPieceData,
+    type IPosition,
+    type ICastlingRights,
+    type IPockets,
+    type ICheckCount,
+    PieceType,
+    PieceColor,
+    BOARD_SIZE,
+    FILE_LETTERS,
+    RANK_NUMBERS,
+    CASTLING_FILES
+} from '../types/index.js';
+
+export const STANDARD_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * Error thrown when a FEN string cannot be parsed
+ */
+export class FenError extends Error {
+    public readonly fen: string;
+
+    constructor(message: string, fen: string) {
+        super(`Invalid FEN: ${message}`);
+        this.name = 'FenError';
+        this.fen = fen;
+    }
+}
+
+export class FenConverter {
+    // ============================================================================
+    // PARSING
+    // ============================================================================
+
+    /**
+     * Parse a FEN string into a board state
+     * The half-move clock and full-move number may be omitted (EPD style); Crazyhouse
+     * holdings follow the placement in brackets, with promoted pieces marked by '~',
+     * and the duck (Duck chess) stands on the square marked '*'.
+     * A last field like '+2+0' gives the checks white and black have given (Three-check)
+     */
+    public static parse(fen: string): IBoardState {
+        const fields = fen.trim().split(/\s+/);
+        const checkCount = this.parseCheckCount(fields[fields.length - 1]);
+        if (checkCount) {
+            fields.pop();
+        }
+
+        if (fields.length < 4 || fields.length > 6) {
+            throw new FenError(`expected 4 to 6 fields, got ${fields.length}`, fen);
+        }
+
+        const [placementField, activeColor, castling, enPassant, halfMove = '0', fullMove = '1'] =
+            fields;
+
+        const [, placement, holdings] = /^([^[]*)(?:\[(.*)\])?$/.exec(placementField) ?? [];
+        const currentPlayer = this.parseActiveColor(activeColor, fen);
+        const placed = this.parsePlacement(placement ?? placementField, fen);
+        const duck = this.parseDuck(placement ?? placementField, fen);
+        const castlingRights = this.parseCastlingRights(castling, placed, fen);
+        const squares = placed.map((rank) =>
+            rank.map(
+                (piece) =>
+                    piece && {
+                        ...piece,
+                        hasMoved: this.inferHasMoved(
+                            piece.type,
+                            piece.color,
+                            piece.position,
+                            castlingRights
+                        )
+                    }
+            )
+        );
+
+        return {
+            squares,
+            currentPlayer,
+            enPassantTarget: this.parseEnPassant(enPassant, currentPlayer, fen),
+            castlingRights,
+            halfMoveClock: this.parseCounter(halfMove, 0, 'half-move clock', fen),
+            fullMoveNumber: this.parseCounter(fullMove, 1, 'full-move number', fen),
+            ...(holdings !== undefined && { pockets: this.parseHoldings(holdings, fen) }),
+            ...(duck && { duck }),
+            ...(checkCount && { checkCount })
+        };
+    }
+
+    private static parseCheckCount(field: string): ICheckCount | null {
+        const [, white, black] = /^\+(\d+)\+(\d+)$/.exec(field) ?? [];
+        return white === undefined ? null : { white: Number(white), black: Number(black) };
+    }
+
+    private static parsePlacement(placement: string, fen: string): (IPieceData | null)[][] {
+        const ranks = placement.split('/');
+        if (ranks.length !== BOARD_SIZE) {
+            throw new FenError(`expected ${BOARD_SIZE} ranks, got ${ranks.length}`, fen);
+        }
+
+        return ranks.map((rank, row) => {
+            const squares: (IPieceData | null)[] = [];
+
+            for (const char of rank) {
+                const last = squares[squares.length - 1];
+                if (char === '~' && last) {
+                    squares[squares.length - 1] = { ...last, promoted: true };
+                    continue;
+                }
+
+                if (/[1-8]/.test(char)) {
+                    squares.push(...Array<null>(Number(char)).fill(null));
+                    continue;
+                }
+
+                // The duck's square holds no piece
+                if (char === '*') {
+                    squares.push(null);
+                    continue;
+                }
+
+                const type = PieceRegistry.getTypeByLetter(char.toUpperCase());
+                if (!type) {
+                    throw new FenError(`unknown piece '${char}' on rank ${RANK_NUMBERS[row]}`, fen);
+                }
+
+                const color = char === char.toUpperCase() ? PieceColor.WHITE : PieceColor.BLACK;
+                const position = { row, col: squares.length };
+                squares.push({ type, color, position, hasMoved: false });
+            }
+
+            if (squares.length !== BOARD_SIZE) {
+                throw new FenError(
+                    `rank ${RANK_NUMBERS[row]} describes ${squares.length} squares`,
+                    fen
+                );
+            }
+
+            return squares;
+        });
+    }
+
+    /**
+     * Find the duck's square, marked '*' in an already validated placement
+     */
+    private static parseDuck(placement: string, fen: string): IPosition | null {
+        const ranks = placement.split('/');
+        const row = ranks.findIndex((rank) => rank.includes('*'));
+        if (row === -1) {
+            return null;
+        }
+        if (placement.indexOf('*') !== placement.lastIndexOf('*')) {
+            throw new FenError('more than one duck', fen);
+        }
+
+        const before = ranks[row].slice(0, ranks[row].indexOf('*')).replace(/~/g, '');
+        const col = [...before].reduce(
+            (count, char) => count + (/[1-8]/.test(char) ? Number(char) : 1),
+            0
+        );
+        return { row, col };
+    }
+
+    /**
+     * Parse Crazyhouse holdings: white's pieces in upper case, black's in lower case
+     */
+    private static parseHoldings(field: string, fen: string): IPockets {
+        const pockets: { white: PieceType[]; black: PieceType[] } = { white: [], black: [] };
+
+        for (const char of field) {
+            const type = PieceRegistry.getTypeByLetter(char.toUpperCase());
+            if (!type || type === PieceType.KING) {
+                throw new FenError(`unknown piece '${char}' in holdings`, fen);
+            }
+            pockets[char === char.toUpperCase() ? 'white' : 'black'].push(type);
+        }
+
+        return pockets;
+    }
+
+    /**
+     * FEN does not record whether a piece has moved, so derive it from
+     * the starting rows and the castling rights
+     */
+    private static inferHasMoved(
+        type: PieceType,
+        color: PieceColor,
+        position: IPosition,
+        rights: ICastlingRights
+    ): boolean {
+        const isWhite = color === PieceColor.WHITE;
+        const backRow = isWhite ? 7 : 0;
+        const kingside = isWhite ? rights.whiteKingside : rights.blackKingside;
+        const queenside = isWhite ? rights.whiteQueenside : rights.blackQueenside;
+        const {
+            kingsideRookFile = CASTLING_FILES.kingside.rook,
+            queensideRookFile = CASTLING_FILES.queenside.rook
+        } = rights;
+
+        switch (type) {
+            case PieceType.PAWN:
+                // Pawns never move backwards, so one on the first rank (Horde) has not moved
+                return position.row !== (isWhite ? 6 : 1) && position.row !== backRow;
+            case PieceType.KING:
+                // Chess960 kings may start on any file
+                return !(position.row === backRow && (kingside || queenside));
+            case PieceType.ROOK:
+                if (position.row !== backRow) {
+                    return true;
+                }
+                return !(
+                    (position.col === kingsideRookFile && kingside) ||
+                    (position.col === queensideRookFile && queenside)
+                );
+            default:
+                return false;
+        }
+    }
+
+    private static parseActiveColor(field: string, fen: string): PieceColor {
+        if (field === 'w') {
+            return PieceColor.WHITE;
+        }
+        if (field === 'b') {
+            return PieceColor.BLACK;
+        }
+        throw new FenError(`side to move must be 'w' or 'b', got '${field}'`, fen);
+    }
+
+    /**
+     * Parse standard, X-FEN and Shredder-FEN castling rights
+     * K/Q name the outermost rook on that side of the king, file letters (A-H, a-h)
+     * name the rook's file, as needed when Chess960 rooks could be confused
+     */
+    private static parseCastlingRights(
+        field: string,
+        squares: (IPieceData | null)[][],
+        fen: string
+    ): ICastlingRights {
+        if (field === '-') {
+            return {
+                whiteKingside: false,
+                whiteQueenside: false,
+                blackKingside: false,
+                blackQueenside: false
+            };
+        }
+
+        if (!/^[KQA-Hkqa-h]{1,4}$/.test(field) || new Set(field).size !== field.length) {
+            throw new FenError(`malformed castling rights '${field}'`, fen);
+        }
+
+        const rights = {
+            whiteKingside: false,
+            whiteQueenside: false,
+            blackKingside: false,
+            blackQueenside: false
+        };
+        const rookFiles: { kingside?: number; queenside?: number } = {};
+
+        for (const char of field) {
+            const color = char === char.toUpperCase() ? PieceColor.WHITE : PieceColor.BLACK;
+            const [side, file] = this.resolveCastlingRook(char, color, squares, fen);
+
+            if (rookFiles[side] !== undefined && rookFiles[side] !== file) {
+                throw new FenError(
+                    `castling rooks must start on the same files for both colors ('${field}')`,
+                    fen
+                );
+            }
+            rookFiles[side] = file;
+
+            if (side === 'kingside') {
+                rights[color === PieceColor.WHITE ? 'whiteKingside' : 'blackKingside'] = true;
+            } else {
+                rights[color === PieceColor.WHITE ? 'whiteQueenside' : 'blackQueenside'] = true;
+            }
+        }
+
+        // Standard files are implied, so ordinary positions keep plain rights
+        return {
+            ...rights,
+            ...(rookFiles.kingside !== undefined &&
+                rookFiles.kingside !== CASTLING_FILES.kingside.rook && {
+                    kingsideRookFile: rookFiles.kingside
+                }),
+            ...(rookFiles.queenside !== undefined &&
+                rookFiles.queenside !== CASTLING_FILES.queenside.rook && {
+                    queensideRookFile: rookFiles.queenside
+                })
+        };
+    }
+
+    /**
+     * Find the side and rook file a castling letter refers to
+     */
+    private static resolveCastlingRook(
+        char: string,
+        color: PieceColor,
+        squares: (IPieceData | null)[][],
+        fen: string
+    ): ['kingside' | 'queenside', number] {
+        const backRank = squares[color === PieceColor.WHITE ? BOARD_SIZE - 1 : 0];
+        const isOwn = (piece: IPieceData | null, type: PieceType): boolean =>
+            piece?.type === type && piece.color === color;
+        const kingFile = backRank.findIndex((piece) => isOwn(piece, PieceType.KING));
+        const letter = char.toUpperCase();
+
+        if (letter === 'K' || letter === 'Q') {
+            const side = letter === 'K' ? 'kingside' : 'queenside';
+            const rookFiles = backRank
+                .map((piece, file) => (isOwn(piece, PieceType.ROOK) ? file : -1))
+                .filter((file) => file >= 0 && kingFile >= 0);
+
+            // Outermost rook beside the king; without one, keep the standard file
+            const outermost =
+                side === 'kingside'
+                    ? rookFiles.filter((file) => file > kingFile).pop()
+                    : rookFiles.find((file) => file < kingFile);
+            return [side, outermost ?? CASTLING_FILES[side].rook];
+        }
+
+        const file = FILE_LETTERS.indexOf(letter.toLowerCase() as (typeof FILE_LETTERS)[number]);
+        if (kingFile < 0 || file === kingFile) {
+            throw new FenError(`castling right '${char}' needs a king on the back rank`, fen);
+        }
+        if (!isOwn(backRank[file], PieceType.ROOK)) {
+            throw new FenError(`castling right '${char}' names no rook`, fen);
+        }
+        return [file > kingFile ? 'kingside' : 'queenside', file];
+    }
+
+    private static parseEnPassant(
+        field: string,
+        currentPlayer: PieceColor,
+        fen: string
+    ): IPosition | null {
+        if (field === '-') {
+            return null;
+        }
+
+        const match = /^([a-h])([36])$/.exec(field);
+        if (!match) {
+            throw new FenError(`malformed en passant square '${field}'`, fen);
+        }
+
+        const expectedRank = currentPlayer === PieceColor.WHITE ? '6' : '3';
+        if (match[2] !== expectedRank) {
+            throw new FenError(
+                `en passant square '${field}' is impossible with ${currentPlayer} to move`,
+                fen
+            );
+        }
+
+        return {
+            row: RANK_NUMBERS.indexOf(match[2] as (typeof RANK_NUMBERS)[number]),
+            col: FILE_LETTERS.indexOf(match[1] as (typeof FILE_LETTERS)[number])
+        };
+    }
+
+    private static parseCounter(field: string, min: number, name: string, fen: string): number {
+        if (!/^\d+$/.test(field) || Number(field) < min) {
+            throw new FenError(`${name} must be an integer >= ${min}, got '${field}'`, fen);
+        }
+        return Number(field);
+    }
+
+    // ============================================================================
+    // SERIALIZATION
+    // ============================================================================
+
+    /**
+     * Serialize a board state to a FEN string
+     */
+    public static stringify(state: IBoardState): string {
+        const holdings = state.pockets ? `[${this.stringifyHoldings(state.pockets)}]` : '';
+
+        return [
+            this.stringifyPlacement(state.squares, state.pockets !== undefined, state.duck) +
+                holdings,
+            state.currentPlayer === PieceColor.WHITE ? 'w' : 'b',
+            this.stringifyCastlingRights(state.castlingRights, state.squares),
+            state.enPassantTarget
+                ? `${FILE_LETTERS[state.enPassantTarget.col]}${RANK_NUMBERS[state.enPassantTarget.row]}`
+                : '-',
+            String(state.halfMoveClock),
+            String(state.fullMoveNumber),
+            ...(state.checkCount ? [`+${state.checkCount.white}+${state.checkCount.black}`] : [])
+        ].join(' ');
+    }
+
+    private static stringifyPlacement(
+        squares: (IPieceData | null)[][],
+        markPromoted: boolean,
+        duck?: IPosition
+    ): string {
+        return squares
+            .map((rank, row) => {
+                let result = '';
+                let empty = 0;
+
+                for (const [col, piece] of rank.entries()) {
+                    const isDuck = duck?.row === row && duck.col === col;
+                    if (!piece && !isDuck) {
+                        empty++;
+                        continue;
+                    }
+                    if (empty > 0) {
+                        result += empty;
+                        empty = 0;
+                    }
+                    if (!piece) {
+                        result += '*';
+                        continue;
+                    }
+                    const letter = PieceRegistry.getLetter(piece.type);
+                    result += piece.color === PieceColor.WHITE ? letter : letter.toLowerCase();
+                    if (markPromoted && piece.promoted) {
+                        result += '~';
+                    }
+                }
+
+                return empty > 0 ? result + empty : result;
+            })
+            .join('/');
+    }
+
+    /**
+     * Write holdings strongest piece first, white's before black's
+     */
+    private static stringifyHoldings(pockets: IPockets): string {
+        const letters = (types: PieceType[]): string[] =>
+            [...types]
+                .sort((a, b) => PieceRegistry.getValue(b) - PieceRegistry.getValue(a))
+                .map((type) => PieceRegistry.getLetter(type));
+
+        return [
+            ...letters(pockets.white),
+            ...letters(pockets.black).map((letter) => letter.toLowerCase())
+        ].join('');
+    }
+
+    /**
+     * Write castling rights as X-FEN: K/Q unless another rook stands further out
+     * on that side, in which case the rook's file letter
+     */
+    private static stringifyCastlingRights(
+        rights: ICastlingRights,
+        squares: (IPieceData | null)[][]
+    ): string {
+        const {
+            kingsideRookFile = CASTLING_FILES.kingside.rook,
+            queensideRookFile = CASTLING_FILES.queenside.rook
+        } = rights;
+
+        const letter = (color: PieceColor, kingside: boolean): string => {
+            const backRank = squares[color === PieceColor.WHITE ? BOARD_SIZE - 1 : 0];
+            const file = kingside ? kingsideRookFile : queensideRookFile;
+            const outerFiles = kingside ? backRank.slice(file + 1) : backRank.slice(0, file);
+            const isOutermost = !outerFiles.some(
+                (piece) => piece?.type === PieceType.ROOK && piece.color === color
+            );
+            const result = isOutermost ? (kingside ? 'K' : 'Q') : FILE_LETTERS[file].toUpperCase();
+            return color === PieceColor.WHITE ? result : result.toLowerCase();
+        };
+
+        const result =
+            (rights.whiteKingside ? letter(PieceColor.WHITE, true) : '') +
+            (rights.whiteQueenside ? letter(PieceColor.WHITE, false) : '') +
+            (rights.blackKingside ? letter(PieceColor.BLACK, true) : '') +
+            (rights.blackQueenside ? letter(PieceColor.BLACK, false) : '');
+        return result || '-';
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * Fog of War
+ * What one player can see in Dark chess: the squares their pieces stand on
+ * or can move to. Everything else is hidden under the fog. In Kriegspiel a
+ * player sees only the squares their own pieces stand on.
+ */
+
+import { type Board } from './Board.js';
+import { King } from '../pieces/index.js';
+import { type IPosition, PieceColor, BOARD_SIZE } from '../types/index.js';
+
+export class FogOfWar {
+    /**
+     * Squares a player can see, by row and column
+     */
+    public static getVisibleSquares(board: Board, color: PieceColor): boolean[][] {
+        const visible = this.getOccupiedSquares(board, color);
+
+        for (const piece of board.getPiecesByColor(color)) {
+            for (const { row, col } of piece.getPossibleMoves(
+                board.squares,
+                board.enPassantTarget,
+                board.duck
+            )) {
+                visible[row][col] = true;
+            }
+        }
+
+        return visible;
+    }
+
+    /**
+     * Squares a player's own pieces stand on, by row and column (Kriegspiel)
+     */
+    public static getOccupiedSquares(board: Board, color: PieceColor): boolean[][] {
+        const occupied = Array.from({ length: BOARD_SIZE }, () =>
+            new Array<boolean>(BOARD_SIZE).fill(false)
+        );
+
+        for (const piece of board.getPiecesByColor(color)) {
+            occupied[piece.row][piece.col] = true;
+        }
+
+        return occupied;
+    }
+
+    /**
+     * Copy of the board as a player sees it: the opponent's pieces on hidden
+     * squares are left out, except the king, which is assumed to stand on the
+     * hidden square nearest its home square so the position still has a king
+     */
+    public static getVisibleBoard(
+        board: Board,
+        color: PieceColor,
+        visible = this.getVisibleSquares(board, color)
+    ): Board {
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        const view = board.clone();
+
+        for (const piece of view.getPiecesByColor(opponent)) {
+            if (!visible[piece.row][piece.col]) {
+                view.removePiece(piece.position);
+            }
+        }
+
+        const king = board.findKing(opponent);
+        if (king && !visible[king.row][king.col]) {
+            const square = this.getGuessedKingSquare(view, visible, opponent);
+            if (square) {
+                view.setPiece(new King(opponent, square, true));
+            }
+        }
+
+        return view;
+    }
+
+    /**
+     * The empty hidden square nearest a king's home square (e1 or e8)
+     */
+    private static getGuessedKingSquare(
+        view: Board,
+        visible: boolean[][],
+        color: PieceColor
+    ): IPosition | null {
+        const home = { row: color === PieceColor.WHITE ? BOARD_SIZE - 1 : 0, col: 4 };
+        let best: IPosition | null = null;
+        let bestDistance = Infinity;
+
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                const distance = Math.max(Math.abs(row - home.row), Math.abs(col - home.col));
+                if (!visible[row][col] && !view.getPiece({ row, col }) && distance < bestDistance) {
+                    best = { row, col };
+                    bestDistance = distance;
+                }
+            }
+        }
+
+        return best;
+    }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './Game.js';
+import { DrawReason, GameStatus, PieceColor, PieceType, Variant } from '../types/index.js';
+
+function playOpening(): Game {
+    const game = new Game();
+    for (const uci of ['e2e4', 'e7e5', 'g1f3']) {
+        expect(game.playUci(uci).success).toBe(true);
+    }
+    return game;
+}
+
+describe('Game draw offers and resignation', () => {
+    it('does not let the player who offered a draw accept or decline it', () => {
+        const game = playOpening();
+        expect(game.offerDraw(PieceColor.WHITE)).toBe(true);
+
+        expect(game.acceptDraw(PieceColor.WHITE)).toBe(false);
+        expect(game.declineDraw(PieceColor.WHITE)).toBe(false);
+        expect(game.drawOffer).toBe(PieceColor.WHITE);
+
+        expect(game.acceptDraw(PieceColor.BLACK)).toBe(true);
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.AGREEMENT);
+    });
+
+    it('only ends the game from the latest position', () => {
+        const game = playOpening();
+        game.offerDraw(PieceColor.BLACK);
+        expect(game.undoMove()).toBe(true);
+
+        expect(game.resign(PieceColor.WHITE)).toBe(false);
+        expect(game.offerDraw(PieceColor.WHITE)).toBe(false);
+        expect(game.acceptDraw(PieceColor.WHITE)).toBe(false);
+        expect(game.claimDraw()).toBe(false);
+        expect(game.isGameOver()).toBe(false);
+
+        // The earlier snapshot is left untouched
+        expect(game.goToLatest()).toBe(true);
+        expect(game.resign(PieceColor.WHITE)).toBe(true);
+        expect(game.undoMove()).toBe(true);
+        expect(game.isGameOver()).toBe(false);
+    });
+});
+
+describe('Game UCI moves', () => {
+    it('plays moves, castling and promotions in long algebraic notation', () => {
+        const game = new Game();
+        game.loadFen('r3k3/1P6/8/8/8/8/8/4K2R w K - 0 1');
+
+        expect(game.playUci('e1g1').success).toBe(true);
+        expect(game.board.getPiece({ row: 7, col: 5 })?.type).toBe(PieceType.ROOK);
+        expect(game.playUci('e8d7').success).toBe(true);
+        expect(game.playUci('b7a8n').success).toBe(true);
+
+        expect(game.board.getPiece({ row: 0, col: 0 })?.type).toBe(PieceType.KNIGHT);
+        expect(game.toUci(game.moveHistory[2])).toBe('b7a8n');
+    });
+
+    it('explains why a move cannot be played', () => {
+        const game = new Game();
+        game.loadFen('4k3/1P6/8/8/8/8/8/4K3 w - - 0 1');
+
+        expect(game.playUci('e9e4').error).toMatch(/^Malformed/);
+        expect(game.playUci('e8d8').error).toMatch(/^No white piece/);
+        expect(game.playUci('e1e3').error).toMatch(/^Illegal/);
+        expect(game.playUci('b7b8').error).toMatch(/needs a promotion piece/);
+        expect(game.playUci('b7b8k').error).toMatch(/^Pawns cannot promote/);
+        expect(game.playUci('e1e2q').error).toMatch(/is not a promotion/);
+        expect(game.moveHistory).toHaveLength(0);
+    });
+
+    it('lists one entry per promotion piece', () => {
+        const game = new Game();
+        game.loadFen('k7/7P/8/8/8/8/8/K7 w - - 0 1');
+
+        const promotions = game.getLegalMovesUci().filter((uci) => uci.startsWith('h7'));
+
+        expect(promotions.sort()).toEqual(['h7h8b', 'h7h8n', 'h7h8q', 'h7h8r']);
+    });
+
+    it('plays and lists Crazyhouse drops', () => {
+        const game = new Game();
+        game.setVariant(Variant.CRAZYHOUSE);
+        game.loadFen('k7/8/8/8/8/8/8/K7[N] w - - 0 1');
+
+        expect(game.getLegalMovesUci()).toContain('N@f3');
+        expect(game.playUci('N@f3').success).toBe(true);
+        expect(game.board.getPiece({ row: 5, col: 5 })?.type).toBe(PieceType.KNIGHT);
+        expect(game.toUci(game.moveHistory[0])).toBe('N@f3');
+        expect(game.playUci('Q@f4').success).toBe(false);
+    });
+});
@@ -7,17 +7,41 @@ import { Board } from './Board.js';
 import { Piece } from './Piece.js';
 import { Pawn, Rook, Knight, Bishop, Queen, King } from '../pieces/index.js';
 import { GameHistory, NotationConverter } from './GameHistory.js';
+import { FenConverter } from './Fen.js';
+import { DrawDetector } from './DrawDetector.js';
+import { ChessClock } from './ChessClock.js';
+import { GameEventBus } from './GameEventBus.js';
+import { MoveGenerator } from './MoveGenerator.js';
+import { Chess960 } from './Chess960.js';
+import { PieceRegistry } from './PieceRegistry.js';
+import type { IPgnHeader } from './Pgn.js';
+import { type VariantRules, VARIANT_RULES } from '../variants/index.js';
 import {
     type IPosition,
     type IMove,
     type IGameState,
     type IGameSettings,
     type ICapturedPieces,
+    type ICheckCount,
+    type IPockets,
+    type IGameResult,
+    type IDrawRules,
+    type ITimeControl,
+    type IBoardState,
+    type IGameEventData,
+    type GameEventListener,
     type MoveList,
     PieceType,
     PieceColor,
     GameStatus,
-    MoveType
+    MoveType,
+    DrawReason,
+    GameEventType,
+    Variant,
+    VariantWinReason,
+    CASTLING_FILES,
+    DEFAULT_DRAW_RULES,
+    BOARD_SIZE
 } from '../types/index.js';
 
 export interface IMoveResult {
@@ -25,30 +49,85 @@ export interface IMoveResult {
     move?: IMove;
     needsPromotion?: boolean;
     promotionPosition?: IPosition;
+    needsDuck?: boolean; // the move is played and the duck must now be placed (Duck chess)
     error?: string;
 }
 
+export interface IPendingPromotion {
+    readonly position: IPosition;
+    readonly color: PieceColor;
+    readonly from: IPosition;
+    readonly capturedPiece?: PieceType;
+    readonly captured?: Piece;
+}
+
+/**
+ * A move played on the board whose turn ends once the duck is placed (Duck chess)
+ */
+export interface IPendingDuck {
+    readonly move: IMove;
+    readonly pieceType: PieceType;
+    readonly color: PieceColor;
+    readonly disambiguation: string;
+}
+
 export class Game {
     private _board: Board;
     private _currentPlayer: PieceColor;
     private _status: GameStatus;
     private _moveHistory: IMove[];
     private _capturedPieces: ICapturedPieces;
+    private _checkCount: ICheckCount;
     private _settings: IGameSettings | null;
     private _selectedPiece: Piece | null;
-    private _pendingPromotion: { position: IPosition; color: PieceColor } | null;
+    private _pendingPromotion: IPendingPromotion | null;
+    private _pendingDuck: IPendingDuck | null;
     private _history: GameHistory;
+    private _halfMoveClock: number;
+    private _fullMoveNumber: number;
+    private _startFen: string | null;
+    private _pgnHeader: IPgnHeader | null;
+    private _drawReason: DrawReason | null;
+    private _resignedColor: PieceColor | null;
+    private _drawOffer: PieceColor | null;
+    private _clock: ChessClock | null;
+    private _flaggedColor: PieceColor | null;
+    private _variantWinner: PieceColor | null;
+    private _variantWinReason: VariantWinReason | null;
+    private readonly _events: GameEventBus;
+    private _legalMovesCache: { key: bigint; color: PieceColor; moves: number[] } | null;
+    private _chess960: boolean;
+    private _rules: VariantRules;
+    private _promotionPieces: PieceType[];
 
     constructor() {
         this._board = Board.createStandard();
         this._currentPlayer = PieceColor.WHITE;
         this._status = GameStatus.IN_PROGRESS;
         this._moveHistory = [];
+        this._halfMoveClock = 0;
+        this._fullMoveNumber = 1;
+        this._startFen = null;
+        this._pgnHeader = null;
+        this._drawReason = null;
+        this._resignedColor = null;
+        this._drawOffer = null;
+        this._clock = null;
+        this._flaggedColor = null;
+        this._variantWinner = null;
+        this._variantWinReason = null;
         this._capturedPieces = { white: [], black: [] };
+        this._checkCount = { white: 0, black: 0 };
         this._settings = null;
         this._selectedPiece = null;
         this._pendingPromotion = null;
+        this._pendingDuck = null;
         this._history = new GameHistory();
+        this._events = new GameEventBus();
+        this._legalMovesCache = null;
+        this._chess960 = false;
+        this._rules = new VARIANT_RULES[Variant.STANDARD]();
+        this._promotionPieces = this._rules.promotionPieces;
 
         // Save initial state
         this._history.addSnapshot(null, this.getState(), 'Start');
@@ -81,14 +160,32 @@ export class Game {
         };
     }
 
+    /**
+     * Checks given by each player (counted in every variant, decisive in Three-check)
+     */
+    public get checkCount(): ICheckCount {
+        return { ...this._checkCount };
+    }
+
+    /**
+     * Pieces each player holds in hand (Crazyhouse; empty in other variants)
+     */
+    public get pockets(): IPockets {
+        return this._board.pockets ?? { white: [], black: [] };
+    }
+
     public get selectedPiece(): Piece | null {
         return this._selectedPiece;
     }
 
-    public get pendingPromotion(): { position: IPosition; color: PieceColor } | null {
+    public get pendingPromotion(): IPendingPromotion | null {
         return this._pendingPromotion;
     }
 
+    public get pendingDuck(): IPendingDuck | null {
+        return this._pendingDuck;
+    }
+
     public get settings(): IGameSettings | null {
         return this._settings;
     }
@@ -97,26 +194,276 @@ export class Game {
         return this._history;
     }
 
+    public get halfMoveClock(): number {
+        return this._halfMoveClock;
+    }
+
+    public get fullMoveNumber(): number {
+        return this._fullMoveNumber;
+    }
+
+    public get drawReason(): DrawReason | null {
+        return this._drawReason;
+    }
+
+    /**
+     * Color of the player with a pending draw offer
+     */
+    public get drawOffer(): PieceColor | null {
+        return this._drawOffer;
+    }
+
+    public get resignedColor(): PieceColor | null {
+        return this._resignedColor;
+    }
+
+    /**
+     * Clock for the game's time control (null for untimed games)
+     */
+    public get clock(): ChessClock | null {
+        return this._clock;
+    }
+
+    public get flaggedColor(): PieceColor | null {
+        return this._flaggedColor;
+    }
+
+    /**
+     * How the variant's own goal was reached, when that ended the game
+     */
+    public get variantWinReason(): VariantWinReason | null {
+        return this._variantWinReason;
+    }
+
+    public get drawRules(): IDrawRules {
+        return this._settings?.drawRules ?? DEFAULT_DRAW_RULES;
+    }
+
+    /**
+     * Whether castling follows Chess960 rules (king moves onto its rook)
+     */
+    public get isChess960(): boolean {
+        return this._chess960;
+    }
+
+    /**
+     * Rules of the variant being played
+     */
+    public get rules(): VariantRules {
+        return this._rules;
+    }
+
+    public get variant(): Variant {
+        return this._rules.variant;
+    }
+
+    /**
+     * Pieces a pawn may promote to: the variant's, and the registered pieces
+     * the game started with
+     */
+    public get promotionPieces(): PieceType[] {
+        return this._promotionPieces;
+    }
+
+    /**
+     * FEN of the custom starting position (null for the variant's start position)
+     */
+    public get startFen(): string | null {
+        return this._startFen;
+    }
+
+    /**
+     * Tags and result of the PGN game this game was loaded from (null otherwise)
+     */
+    public get pgnHeader(): IPgnHeader | null {
+        return this._pgnHeader;
+    }
+
+    public setPgnHeader(header: IPgnHeader | null): void {
+        this._pgnHeader = header;
+    }
+
     // ============================================================================
     // GAME SETUP
     // ============================================================================
 
     public initialize(settings: IGameSettings): void {
         this._settings = settings;
-        this.reset();
+        this._rules = new VARIANT_RULES[settings.variant ?? Variant.STANDARD]();
+        if (settings.chess960Position !== undefined) {
+            this.startChess960(settings.chess960Position);
+        } else if (settings.startFen) {
+            this.loadFen(settings.startFen);
+        } else {
+            this.reset();
+        }
+    }
+
+    /**
+     * Switch to another variant's rules; they apply from the next start or loaded position
+     */
+    public setVariant(variant: Variant): void {
+        this._rules = new VARIANT_RULES[variant]();
+        if (this._settings) {
+            this._settings = { ...this._settings, variant };
+        }
     }
 
+    /**
+     * Start a new game from the variant's start position
+     */
     public reset(): void {
-        this._board = Board.createStandard();
-        this._currentPlayer = PieceColor.WHITE;
-        this._status = GameStatus.IN_PROGRESS;
+        this.startFromState(FenConverter.parse(this._rules.startFen), null, false);
+    }
+
+    /**
+     * Start a Chess960 game from a numbered start position (0-959)
+     */
+    public startChess960(position: number): void {
+        const state = FenConverter.parse(Chess960.getStartFen(position));
+        this.startFromState(state, FenConverter.stringify(state), true);
+    }
+
+    /**
+     * Start a new game from a FEN position
+     * Castling follows Chess960 rules when asked to, or when the castling rights
+     * cannot be standard (Shredder-FEN files, king off the e-file...)
+     * Throws FenError if the FEN is malformed
+     */
+    public loadFen(fen: string, chess960 = false): void {
+        const state = FenConverter.parse(fen);
+        this.startFromState(
+            state,
+            FenConverter.stringify(state),
+            chess960 || !Chess960.hasStandardCastling(state)
+        );
+    }
+
+    /**
+     * Export the current position as FEN
+     */
+    public toFen(): string {
+        return FenConverter.stringify(this.getState().board);
+    }
+
+    /**
+     * Create a game from a FEN position
+     */
+    public static fromFen(fen: string, chess960 = false): Game {
+        const game = new Game();
+        game.loadFen(fen, chess960);
+        return game;
+    }
+
+    private startFromState(state: IBoardState, startFen: string | null, chess960: boolean): void {
+        this._chess960 = chess960;
+        this._board = Board.fromBoardState(state);
+        this._currentPlayer = state.currentPlayer;
+        this._halfMoveClock = state.halfMoveClock;
+        this._fullMoveNumber = state.fullMoveNumber;
+        this._startFen = startFen;
+        this._pgnHeader = null;
         this._moveHistory = [];
         this._capturedPieces = { white: [], black: [] };
+        this._checkCount = { white: 0, black: 0, ...state.checkCount };
         this._selectedPiece = null;
         this._pendingPromotion = null;
+        this._pendingDuck = null;
+        this._resignedColor = null;
+        this._drawOffer = null;
+        this._flaggedColor = null;
+        this._legalMovesCache = null;
+        this._promotionPieces = [
+            ...this._rules.promotionPieces,
+            ...PieceRegistry.getTypes().filter((type) =>
+                [PieceColor.WHITE, PieceColor.BLACK].some((color) =>
+                    this._board.getPiecesByColor(color).some((piece) => piece.type === type)
+                )
+            )
+        ];
+
+        const white = this.getTimeControl(PieceColor.WHITE);
+        const black = this.getTimeControl(PieceColor.BLACK);
+        this._clock =
+            white && black
+                ? new ChessClock({ [PieceColor.WHITE]: white, [PieceColor.BLACK]: black })
+                : null;
 
         this._history.clear();
+        this.updateGameStatus();
         this._history.addSnapshot(null, this.getState(), 'Start');
+        this._events.emit(GameEventType.GAME_START, { fen: this.toFen() });
+    }
+
+    // ============================================================================
+    // EVENTS
+    // ============================================================================
+
+    /**
+     * Listen for a game event; returns a function that removes the listener
+     */
+    public subscribe<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void {
+        return this._events.subscribe(type, listener);
+    }
+
+    public unsubscribe<T extends GameEventType>(type: T, listener: GameEventListener<T>): boolean {
+        return this._events.unsubscribe(type, listener);
+    }
+
+    private emit<T extends GameEventType>(type: T, data: IGameEventData[T]): void {
+        this._events.emit(type, data);
+    }
+
+    /**
+     * Announce a completed move and everything it caused, in order:
+     * the move, capture, castling, promotion, then check/mate/stalemate and game end
+     */
+    private emitMoveEvents(move: IMove, color: PieceColor, notation: string): void {
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+
+        this.emit(GameEventType.MOVE_MADE, { move, color, notation });
+
+        if (move.capturedPiece) {
+            // An en passant capture takes the pawn beside the moving pawn, not on the target
+            const position =
+                move.type === MoveType.EN_PASSANT
+                    ? { row: move.from.row, col: move.to.col }
+                    : move.to;
+            this.emit(GameEventType.PIECE_CAPTURED, {
+                piece: move.capturedPiece,
+                color: opponent,
+                position
+            });
+        }
+
+        if (move.type === MoveType.CASTLE_KINGSIDE || move.type === MoveType.CASTLE_QUEENSIDE) {
+            this.emit(GameEventType.CASTLE, { color, side: move.type });
+        }
+
+        if (move.promotionPiece) {
+            this.emit(GameEventType.PROMOTION, {
+                piece: move.promotionPiece,
+                color,
+                position: move.to
+            });
+        }
+
+        if (this._status === GameStatus.CHECK) {
+            this.emit(GameEventType.CHECK, { color: opponent });
+        } else if (this._status === GameStatus.CHECKMATE) {
+            this.emit(GameEventType.CHECKMATE, { winner: color });
+        } else if (this._status === GameStatus.STALEMATE) {
+            this.emit(GameEventType.STALEMATE, { color: opponent });
+        }
+
+        this.emitGameEnd();
+    }
+
+    private emitGameEnd(): void {
+        const result = this.getResult();
+        if (result) {
+            this.emit(GameEventType.GAME_END, result);
+        }
     }
 
     // ============================================================================
@@ -165,8 +512,19 @@ export class Game {
 
     /**
      * Execute a move between two positions
+     * If a promotion piece is given, a promoting pawn move is completed in the same call
      */
-    public executeMove(from: IPosition, to: IPosition): IMoveResult {
+    public executeMove(from: IPosition, to: IPosition, promotion?: PieceType): IMoveResult {
+        if (this.isGameOver()) {
+            return { success: false, error: 'Game is over' };
+        }
+        if (this.checkFlagFall()) {
+            return { success: false, error: 'Time has expired' };
+        }
+        if (this._pendingDuck) {
+            return { success: false, error: 'The duck must be placed first' };
+        }
+
         const piece = this._board.getPiece(from);
         if (!piece) {
             return { success: false, error: 'No piece at source position' };
@@ -174,21 +532,23 @@ export class Game {
 
         let moveType = MoveType.NORMAL;
         let capturedPiece: PieceType | undefined;
+        let captured: Piece | null = null;
+        const disambiguation = this.getSanDisambiguation(piece, to);
+        const castlingSide = this.getCastlingSide(from, to);
 
-        // Determine move type
-        const targetPiece = this._board.getPiece(to);
+        // Determine move type (a Chess960 king moving onto its rook captures nothing)
+        const targetPiece = castlingSide ? null : this._board.getPiece(to);
         if (targetPiece) {
             moveType = MoveType.CAPTURE;
             capturedPiece = targetPiece.type;
+            captured = targetPiece;
             this._capturedPieces[targetPiece.color].push(targetPiece.type);
         }
 
         // Handle special moves
-        if (piece.type === PieceType.KING) {
-            const castleResult = this.handleCastling(piece as King, from, to);
-            if (castleResult) {
-                moveType = castleResult;
-            }
+        if (castlingSide) {
+            this.handleCastling(from, castlingSide);
+            moveType = castlingSide;
         }
 
         if (piece.type === PieceType.PAWN) {
@@ -196,20 +556,33 @@ export class Game {
             if (pawnResult.type) {
                 moveType = pawnResult.type;
             }
-            if (pawnResult.capturedPiece) {
-                capturedPiece = pawnResult.capturedPiece;
+            if (pawnResult.captured) {
+                capturedPiece = pawnResult.captured.type;
+                captured = pawnResult.captured;
             }
         }
 
-        // Execute the move
-        this._board.movePiece(from, to);
+        // Execute the move (castling has already placed king and rook)
+        if (!castlingSide) {
+            this._board.movePiece(from, to);
+        }
 
         // Update en passant target
         this.updateEnPassantTarget(piece, from, to);
 
         // Check for pawn promotion
         if (piece.type === PieceType.PAWN && (piece as Pawn).canPromote(to.row)) {
-            this._pendingPromotion = { position: to, color: piece.color };
+            this._pendingPromotion = {
+                position: to,
+                color: piece.color,
+                from,
+                capturedPiece,
+                ...(captured && { captured })
+            };
+
+            if (promotion) {
+                return this.promotePawn(promotion);
+            }
 
             const move: IMove = {
                 from,
@@ -228,27 +601,44 @@ export class Game {
 
         // Complete the move
         const move: IMove = { from, to, type: moveType, capturedPiece };
-        this._moveHistory.push(move);
-        this._selectedPiece = null;
+        this.completeMove(move, piece.type, piece.color, disambiguation, captured);
 
-        // Switch player and update game status
-        this.switchPlayer();
-        this.updateGameStatus();
+        return this.getMoveResult(move);
+    }
 
-        // Save to history
-        const pieceData = this._board.getPieceData(to);
-        const notation = pieceData
-            ? NotationConverter.moveToNotation(
-                move,
-                pieceData.type,
-                !!capturedPiece,
-                this._status === GameStatus.CHECK,
-                this._status === GameStatus.CHECKMATE
-            )
-            : '';
-        this._history.addSnapshot(move, this.getState(), notation);
+    /**
+     * Drop a piece from the current player's pocket onto an empty square (Crazyhouse)
+     */
+    public dropPiece(type: PieceType, to: IPosition): IMoveResult {
+        if (this.isGameOver()) {
+            return { success: false, error: 'Game is over' };
+        }
+        if (this.checkFlagFall()) {
+            return { success: false, error: 'Time has expired' };
+        }
+        if (this._pendingDuck) {
+            return { success: false, error: 'The duck must be placed first' };
+        }
+
+        const color = this._currentPlayer;
+        const isLegal = this.getDropSquares(type).some(
+            (square) => square.row === to.row && square.col === to.col
+        );
+        const piece = isLegal
+            ? Board.createPieceFromData({ type, color, position: to, hasMoved: false })
+            : null;
+        if (!piece) {
+            return { success: false, error: 'Illegal drop' };
+        }
+
+        this._board.removeFromPocket(color, type);
+        this._board.setPiece(piece);
+        this._board.setEnPassantTarget(null);
 
-        return { success: true, move };
+        const move: IMove = { from: to, to, type: MoveType.DROP, dropPiece: type };
+        this.completeMove(move, type, color, '', null);
+
+        return this.getMoveResult(move);
     }
 
     /**
@@ -259,7 +649,10 @@ export class Game {
             return { success: false, error: 'No pending promotion' };
         }
 
-        const { position, color } = this._pendingPromotion;
+        const { position, color, from, capturedPiece, captured } = this._pendingPromotion;
+        if (!this._promotionPieces.includes(pieceType)) {
+            return { success: false, error: 'Invalid promotion piece' };
+        }
 
         // Create the promoted piece
         let newPiece: Piece;
@@ -276,80 +669,207 @@ export class Game {
             case PieceType.KNIGHT:
                 newPiece = new Knight(color, position, true);
                 break;
-            default:
-                return { success: false, error: 'Invalid promotion piece' };
+            case PieceType.KING:
+                newPiece = new King(color, position, true);
+                break;
+            default: {
+                const definition = PieceRegistry.get(pieceType);
+                if (!definition) {
+                    return { success: false, error: 'Invalid promotion piece' };
+                }
+                newPiece = new definition.piece(color, position, true);
+            }
         }
 
         // Replace pawn with promoted piece
+        newPiece.setPromoted(true);
         this._board.setPieceAt(position, newPiece);
 
-        // Get the last move info
-        const lastMoveIndex = this._moveHistory.length;
-        const from = lastMoveIndex > 0 ? this._moveHistory[lastMoveIndex - 1]?.from : position;
-
         const move: IMove = {
-            from: from ?? position,
+            from,
             to: position,
             type: MoveType.PROMOTION,
+            capturedPiece,
             promotionPiece: pieceType
         };
 
-        this._moveHistory.push(move);
         this._pendingPromotion = null;
+        this.completeMove(move, PieceType.PAWN, color, '', captured ?? null);
+
+        return this.getMoveResult(move);
+    }
+
+    /**
+     * Place the duck after a move, which ends the turn (Duck chess)
+     */
+    public placeDuck(position: IPosition): IMoveResult {
+        if (this.isGameOver()) {
+            return { success: false, error: 'Game is over' };
+        }
+        if (!this._pendingDuck) {
+            return { success: false, error: 'No duck to place' };
+        }
+        if (this.checkFlagFall()) {
+            return { success: false, error: 'Time has expired' };
+        }
+
+        const isLegal = this.getDuckSquares().some(
+            (square) => square.row === position.row && square.col === position.col
+        );
+        if (!isLegal) {
+            return { success: false, error: 'The duck must move to another empty square' };
+        }
+
+        const { move, pieceType, color, disambiguation } = this._pendingDuck;
+        const duckMove: IMove = { ...move, duck: position };
+        this._pendingDuck = null;
+        this._board.setDuck(position);
+        this.finishTurn(duckMove, pieceType, color, disambiguation);
+
+        return { success: true, move: duckMove };
+    }
+
+    /**
+     * Squares the duck may be placed on: any empty square but the one it stands on
+     */
+    public getDuckSquares(): MoveList {
+        if (!this._pendingDuck) {
+            return [];
+        }
+
+        const duck = this._board.duck;
+        const squares: MoveList = [];
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                const isDuck = duck?.row === row && duck.col === col;
+                if (!isDuck && !this._board.getPiece({ row, col })) {
+                    squares.push({ row, col });
+                }
+            }
+        }
+        return squares;
+    }
+
+    /**
+     * Result of a completed move, noting when the duck must still be placed
+     */
+    private getMoveResult(move: IMove): IMoveResult {
+        return this._pendingDuck
+            ? { success: true, move, needsDuck: true }
+            : { success: true, move };
+    }
+
+    /**
+     * Finish a move already played on the board: apply the variant's effects,
+     * then end the turn unless the duck must be placed first
+     */
+    private completeMove(
+        move: IMove,
+        pieceType: PieceType,
+        color: PieceColor,
+        disambiguation: string,
+        captured: Piece | null
+    ): void {
+        for (const piece of this._rules.afterMove(this._board, move, color, captured)) {
+            this._capturedPieces[piece.color].push(piece.type);
+        }
         this._selectedPiece = null;
 
+        // Capturing the king ends a Duck chess game before the duck moves
+        if (this._rules.hasDuck && move.capturedPiece !== PieceType.KING) {
+            this._pendingDuck = { move, pieceType, color, disambiguation };
+            return;
+        }
+
+        this.finishTurn(move, pieceType, color, disambiguation);
+    }
+
+    /**
+     * Pass the turn after a completed move and update the game status, clock and history
+     */
+    private finishTurn(
+        move: IMove,
+        pieceType: PieceType,
+        color: PieceColor,
+        disambiguation: string
+    ): void {
+        this._moveHistory.push(move);
+
         // Switch player and update game status
+        this.advanceMoveCounters(pieceType === PieceType.PAWN || !!move.capturedPiece);
         this.switchPlayer();
+        const givesCheck = this.isInCheck();
+        if (givesCheck) {
+            this._checkCount = { ...this._checkCount, [color]: this._checkCount[color] + 1 };
+        }
         this.updateGameStatus();
-
-        // Save to history
-        const notation = NotationConverter.moveToNotation(
-            move,
-            pieceType,
-            false,
-            this._status === GameStatus.CHECK,
-            this._status === GameStatus.CHECKMATE
-        );
+        this.pressClock(color);
+
+        // Save to history (a check that ends the game, as in Three-check, keeps its '+')
+        const notation = NotationConverter.moveToNotation(move, pieceType, {
+            disambiguation,
+            isCheck: givesCheck,
+            isCheckmate: this._status === GameStatus.CHECKMATE
+        });
         this._history.addSnapshot(move, this.getState(), notation);
-
-        return { success: true, move };
+        this.annotateClock(color);
+        this.emitMoveEvents(move, color, notation);
     }
 
     // ============================================================================
     // SPECIAL MOVE HANDLERS
     // ============================================================================
 
-    private handleCastling(_king: King, from: IPosition, to: IPosition): MoveType | null {
-        const colDiff = to.col - from.col;
-
-        if (Math.abs(colDiff) !== 2) {
+    /**
+     * Tell whether a king move is castling, and to which side
+     * Standard castling moves the king two files; in Chess960 the king moves onto its own rook
+     */
+    public getCastlingSide(
+        from: IPosition,
+        to: IPosition
+    ): MoveType.CASTLE_KINGSIDE | MoveType.CASTLE_QUEENSIDE | null {
+        const king = this._board.getPiece(from);
+        if (king?.type !== PieceType.KING || from.row !== to.row) {
             return null;
         }
 
-        // Kingside castling
-        if (colDiff === 2) {
-            const rookFrom = { row: from.row, col: 7 };
-            const rookTo = { row: from.row, col: 5 };
-            this._board.movePiece(rookFrom, rookTo);
-            return MoveType.CASTLE_KINGSIDE;
+        if (this._chess960) {
+            const rook = this._board.getPiece(to);
+            if (rook?.type !== PieceType.ROOK || rook.color !== king.color) {
+                return null;
+            }
+        } else if (Math.abs(to.col - from.col) !== 2) {
+            return null;
         }
 
-        // Queenside castling
-        if (colDiff === -2) {
-            const rookFrom = { row: from.row, col: 0 };
-            const rookTo = { row: from.row, col: 3 };
-            this._board.movePiece(rookFrom, rookTo);
-            return MoveType.CASTLE_QUEENSIDE;
-        }
+        return to.col > from.col ? MoveType.CASTLE_KINGSIDE : MoveType.CASTLE_QUEENSIDE;
+    }
 
-        return null;
+    private handleCastling(
+        from: IPosition,
+        side: MoveType.CASTLE_KINGSIDE | MoveType.CASTLE_QUEENSIDE
+    ): void {
+        const rights = this._board.castlingRights;
+        const files =
+            side === MoveType.CASTLE_KINGSIDE ? CASTLING_FILES.kingside : CASTLING_FILES.queenside;
+        const rookFile =
+            side === MoveType.CASTLE_KINGSIDE
+                ? (rights.kingsideRookFile ?? files.rook)
+                : (rights.queensideRookFile ?? files.rook);
+
+        this._board.castle(
+            from,
+            { row: from.row, col: files.kingTo },
+            { row: from.row, col: rookFile },
+            { row: from.row, col: files.rookTo }
+        );
     }
 
     private handlePawnSpecialMoves(
         pawn: Pawn,
         _from: IPosition,
         to: IPosition
-    ): { type?: MoveType; capturedPiece?: PieceType } {
+    ): { type?: MoveType; captured?: Piece } {
         const enPassantTarget = this._board.enPassantTarget;
 
         // En passant capture
@@ -359,7 +879,7 @@ export class Game {
 
             if (capturedPawn) {
                 this._capturedPieces[capturedPawn.color].push(PieceType.PAWN);
-                return { type: MoveType.EN_PASSANT, capturedPiece: PieceType.PAWN };
+                return { type: MoveType.EN_PASSANT, captured: capturedPawn };
             }
         }
 
@@ -375,8 +895,9 @@ export class Game {
 
         const rowDiff = Math.abs(to.row - from.row);
 
-        // If pawn moved two squares, set en passant target
-        if (rowDiff === 2) {
+        // If pawn moved two squares from its starting row, set en passant target
+        // (not from the first rank in Horde)
+        if (rowDiff === 2 && from.row === (piece as Pawn).startRow) {
             const direction = piece.color === PieceColor.WHITE ? 1 : -1;
             this._board.setEnPassantTarget({
                 row: to.row + direction,
@@ -395,47 +916,74 @@ export class Game {
      * Get all valid moves for a piece (filtered for check)
      */
     public getValidMovesForPiece(piece: Piece): MoveList {
-        const possibleMoves = piece.getPossibleMoves(
-            this._board.squares,
-            this._board.enPassantTarget
-        );
+        const from = MoveGenerator.toSquare(piece.position);
+
+        // Promotions appear once per promotion piece; a target square is listed once
+        return this.getLegalMoves(piece.color)
+            .filter((move) => {
+                const promotion = MoveGenerator.movePromotion(move);
+                return (
+                    MoveGenerator.moveFrom(move) === from &&
+                    (promotion === null || promotion === PieceType.QUEEN)
+                );
+            })
+            .map((move) => MoveGenerator.toPosition(MoveGenerator.moveTo(move)));
+    }
 
-        // Add castling moves for king
-        if (piece.type === PieceType.KING) {
-            const king = piece as King;
-            const castlingMoves = king.getCastlingMoves(
-                this._board.squares,
-                this._board.castlingRights,
-                (row, col) => this.isSquareAttacked(row, col, piece.color)
-            );
-
-            for (const castle of castlingMoves) {
-                possibleMoves.push(castle.kingTo);
-            }
+    /**
+     * Get the squares the current player may drop a piece from their pocket on
+     */
+    public getDropSquares(type: PieceType): MoveList {
+        return this.getLegalMoves(this._currentPlayer)
+            .filter((move) => MoveGenerator.moveDrop(move) === type)
+            .map((move) => MoveGenerator.toPosition(MoveGenerator.moveTo(move)));
+    }
+
+    /**
+     * Generate the legal moves of a color under the variant's rules, reusing
+     * the last result while the position is unchanged
+     */
+    private getLegalMoves(color: PieceColor): number[] {
+        const key = this._board.hash;
+        const cached = this._legalMovesCache;
+        if (cached && cached.key === key && cached.color === color) {
+            return cached.moves;
         }
 
-        // Filter out moves that would leave king in check
-        return possibleMoves.filter((move) => !this.wouldMoveLeaveKingInCheck(piece, move));
+        const moves = this._rules.generateMoves(this.createGenerator(color));
+        this._legalMovesCache = { key, color, moves };
+        return moves;
     }
 
     /**
-     * Check if a move would leave own king in check
+     * Move generator on the current position with the given color to move
      */
-    private wouldMoveLeaveKingInCheck(piece: Piece, to: IPosition): boolean {
-        // Clone the board
-        const testBoard = this._board.clone();
-
-        // Make the move on the test board
-        testBoard.movePiece(piece.position, to);
+    private createGenerator(color: PieceColor): MoveGenerator {
+        return this._rules.createGenerator(this._board, color, this._chess960);
+    }
 
-        // Find the king
-        const king = testBoard.findKing(piece.color);
-        if (!king) {
-            return true; // No king found, invalid state
+    /**
+     * Find which other pieces of the same kind could also move to the target,
+     * so the SAN of this move names its origin file, rank or square
+     */
+    private getSanDisambiguation(piece: Piece, to: IPosition): string {
+        if (piece.type === PieceType.PAWN || piece.type === PieceType.KING) {
+            return '';
         }
 
-        // Check if king is under attack
-        return this.isKingInCheckOnBoard(testBoard, piece.color);
+        const rivals = this._board
+            .getPiecesByColor(piece.color)
+            .filter(
+                (other) =>
+                    other !== piece &&
+                    other.type === piece.type &&
+                    this.getValidMovesForPiece(other).some(
+                        (m) => m.row === to.row && m.col === to.col
+                    )
+            )
+            .map((other) => other.position);
+
+        return NotationConverter.getDisambiguation(piece.position, rivals);
     }
 
     // ============================================================================
@@ -446,92 +994,303 @@ export class Game {
      * Check if current player's king is in check
      */
     public isInCheck(color: PieceColor = this._currentPlayer): boolean {
-        return this.isKingInCheckOnBoard(this._board, color);
+        return this._rules.isInCheck(this.createGenerator(color));
     }
 
     /**
-     * Check if king is in check on a specific board
+     * Check if a square is attacked by opponent
      */
-    private isKingInCheckOnBoard(board: Board, color: PieceColor): boolean {
-        const king = board.findKing(color);
-        if (!king) {
-            return false;
+    public isSquareAttacked(row: number, col: number, defendingColor: PieceColor): boolean {
+        const opponentColor =
+            defendingColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return MoveGenerator.fromBoard(this._board).isSquareAttacked({ row, col }, opponentColor);
+    }
+
+    // ============================================================================
+    // GAME STATUS
+    // ============================================================================
+
+    /**
+     * Update the half-move clock and full-move number before the turn passes
+     */
+    private advanceMoveCounters(isPawnMoveOrCapture: boolean): void {
+        this._halfMoveClock = isPawnMoveOrCapture ? 0 : this._halfMoveClock + 1;
+        if (this._currentPlayer === PieceColor.BLACK) {
+            this._fullMoveNumber++;
+        }
+    }
+
+    private switchPlayer(): void {
+        // Moving declines a draw offer made by the opponent
+        if (this._drawOffer !== this._currentPlayer) {
+            this._drawOffer = null;
+        }
+
+        this._currentPlayer =
+            this._currentPlayer === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        this._board.setSideToMove(this._currentPlayer);
+    }
+
+    private updateGameStatus(): void {
+        const generator = this.createGenerator(this._currentPlayer);
+        const outcome = this._rules.getOutcome(
+            generator,
+            this.getLegalMoves(this._currentPlayer),
+            this._checkCount
+        );
+        this._drawReason = null;
+        this._variantWinner = null;
+        this._variantWinReason = null;
+
+        // The variant decides wins and stalemates; the draw rules apply to every variant
+        if (outcome) {
+            this._status = outcome.status;
+            this._drawReason = outcome.drawReason ?? null;
+            this._variantWinner = outcome.winner ?? null;
+            this._variantWinReason = outcome.winReason ?? null;
+            return;
         }
 
-        return this.isSquareAttackedOnBoard(board, king.row, king.col, color);
+        const drawReason = this.detectAutomaticDraw();
+        if (drawReason) {
+            this._status = GameStatus.DRAW;
+            this._drawReason = drawReason;
+        } else if (this._rules.isInCheck(generator)) {
+            this._status = GameStatus.CHECK;
+        } else {
+            this._status = GameStatus.IN_PROGRESS;
+        }
     }
 
+    // ============================================================================
+    // DRAW RULES
+    // ============================================================================
+
     /**
-     * Check if a square is attacked by opponent
+     * Detect draws that end the game without a claim
      */
-    public isSquareAttacked(row: number, col: number, defendingColor: PieceColor): boolean {
-        return this.isSquareAttackedOnBoard(this._board, row, col, defendingColor);
+    private detectAutomaticDraw(): DrawReason | null {
+        const rules = this.drawRules;
+
+        if (this._rules.hasInsufficientMaterial(this._board.squares)) {
+            return DrawReason.INSUFFICIENT_MATERIAL;
+        }
+
+        // The new position has not been added to the history yet
+        const repetitions = this.countRepetitions(this._history.getCurrentIndex() + 1);
+
+        if (rules.seventyFiveMove) {
+            if (this._halfMoveClock >= DrawDetector.SEVENTY_FIVE_MOVE_PLIES) {
+                return DrawReason.SEVENTY_FIVE_MOVE;
+            }
+            if (repetitions >= 5) {
+                return DrawReason.FIVEFOLD_REPETITION;
+            }
+        }
+
+        return rules.claimRequired ? null : this.getDrawClaimReason(repetitions);
+    }
+
+    private getDrawClaimReason(repetitions: number): DrawReason | null {
+        if (this._halfMoveClock >= DrawDetector.FIFTY_MOVE_PLIES) {
+            return DrawReason.FIFTY_MOVE;
+        }
+        if (repetitions >= 3) {
+            return DrawReason.THREEFOLD_REPETITION;
+        }
+        return null;
     }
 
     /**
-     * Check if a square is attacked on a specific board
+     * Count occurrences of the current position since the last irreversible move,
+     * comparing against the history snapshots before index `end`
      */
-    private isSquareAttackedOnBoard(
-        board: Board,
-        row: number,
-        col: number,
-        defendingColor: PieceColor
-    ): boolean {
-        const opponentColor =
-            defendingColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    private countRepetitions(end: number): number {
+        const start = Math.max(0, end - this._halfMoveClock);
+        const previousKeys = this._history
+            .getSnapshots()
+            .slice(start, end)
+            .map((snapshot) => snapshot.hash);
+
+        return DrawDetector.countRepetitions(previousKeys, this._board.hash);
+    }
 
-        const opponentPieces = board.getPiecesByColor(opponentColor);
+    /**
+     * Get the draw the player to move may claim (fifty-move rule or threefold repetition)
+     */
+    public getClaimableDraw(): DrawReason | null {
+        if (this.isGameOver()) {
+            return null;
+        }
+        return this.getDrawClaimReason(this.countRepetitions(this._history.getCurrentIndex()));
+    }
 
-        for (const piece of opponentPieces) {
-            const moves = piece.getPossibleMoves(board.squares, null);
-            if (moves.some((m) => m.row === row && m.col === col)) {
-                return true;
-            }
+    /**
+     * Claim a draw under the fifty-move rule or threefold repetition
+     */
+    public claimDraw(): boolean {
+        const reason = this.getClaimableDraw();
+        if (!reason || !this._history.isAtLatest()) {
+            return false;
         }
 
-        return false;
+        this._status = GameStatus.DRAW;
+        this._drawReason = reason;
+        this._clock?.pause();
+        this._history.replaceCurrentState(this.getState());
+        this.emitGameEnd();
+        return true;
     }
 
     // ============================================================================
-    // GAME STATUS
+    // CLOCK
     // ============================================================================
 
-    private switchPlayer(): void {
-        this._currentPlayer =
-            this._currentPlayer === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    /**
+     * Get a player's time control: their own setting (for time odds) or the game's
+     */
+    public getTimeControl(color: PieceColor): ITimeControl | null {
+        return this._settings?.players[color].timeControl ?? this._settings?.timeControl ?? null;
     }
 
-    private updateGameStatus(): void {
-        const hasValidMoves = this.hasAnyValidMoves(this._currentPlayer);
-        const isInCheck = this.isInCheck(this._currentPlayer);
-
-        if (!hasValidMoves) {
-            if (isInCheck) {
-                this._status = GameStatus.CHECKMATE;
-            } else {
-                this._status = GameStatus.STALEMATE;
-            }
-        } else if (isInCheck) {
-            this._status = GameStatus.CHECK;
+    /**
+     * Hand the turn over on the clock, or stop it once the game has ended
+     */
+    private pressClock(mover: PieceColor): void {
+        if (!this._clock) {
+            return;
+        }
+
+        if (this.isGameOver()) {
+            this._clock.pause();
         } else {
-            this._status = GameStatus.IN_PROGRESS;
+            this._clock.press(mover);
         }
     }
 
     /**
-     * Check if player has any valid moves
+     * Record the mover's remaining time on the latest snapshot (for PGN %clk)
      */
-    private hasAnyValidMoves(color: PieceColor): boolean {
-        const pieces = this._board.getPiecesByColor(color);
+    private annotateClock(mover: PieceColor): void {
+        if (this._clock) {
+            this._history.annotate(this._history.getCurrentIndex(), {
+                clock: this._clock.getRemaining(mover) / 1000
+            });
+        }
+    }
 
-        for (const piece of pieces) {
-            const validMoves = this.getValidMovesForPiece(piece);
-            if (validMoves.length > 0) {
-                return true;
-            }
+    /**
+     * End the game if the player to move has run out of time.
+     * The game is drawn instead when the opponent could never checkmate.
+     * Call periodically while a timed game is running.
+     */
+    public checkFlagFall(): boolean {
+        const color = this._clock?.activeColor;
+        if (!this._clock || !color || this.isGameOver() || !this._history.isAtLatest()) {
+            return false;
+        }
+        if (!this._clock.isFlagged(color)) {
+            return false;
         }
 
-        return false;
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        this._clock.pause();
+        this._flaggedColor = color;
+        this._drawOffer = null;
+
+        if (this._rules.hasMatingMaterial(this._board.squares, opponent)) {
+            this._status = GameStatus.TIMEOUT;
+        } else {
+            this._status = GameStatus.DRAW;
+            this._drawReason = DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL;
+        }
+
+        this._history.replaceCurrentState(this.getState());
+        this.emitGameEnd();
+        return true;
+    }
+
+    /**
+     * The clock only runs while the latest position is shown
+     */
+    private syncClockWithHistory(): void {
+        if (!this._clock) {
+            return;
+        }
+
+        if (this._history.isAtLatest() && !this.isGameOver()) {
+            this._clock.resume();
+        } else {
+            this._clock.pause();
+        }
+    }
+
+    // ============================================================================
+    // RESIGNATION & DRAW OFFERS
+    // ============================================================================
+
+    /**
+     * Resign the game on behalf of a player; only from the latest position
+     */
+    public resign(color: PieceColor): boolean {
+        if (this.isGameOver() || !this._history.isAtLatest()) {
+            return false;
+        }
+
+        this._status = GameStatus.RESIGNED;
+        this._resignedColor = color;
+        this._drawOffer = null;
+        this._clock?.pause();
+        this._history.replaceCurrentState(this.getState());
+        this.emitGameEnd();
+        return true;
+    }
+
+    /**
+     * Offer a draw to the opponent; the offer stands until answered or the opponent moves
+     */
+    public offerDraw(color: PieceColor): boolean {
+        if (this.isGameOver() || this._drawOffer || !this._history.isAtLatest()) {
+            return false;
+        }
+
+        this._drawOffer = color;
+        this.emit(GameEventType.DRAW_OFFERED, { color });
+        return true;
+    }
+
+    /**
+     * Accept the pending draw offer on behalf of the opponent of the player who made it
+     */
+    public acceptDraw(color: PieceColor): boolean {
+        if (
+            !this._drawOffer ||
+            this._drawOffer === color ||
+            this.isGameOver() ||
+            !this._history.isAtLatest()
+        ) {
+            return false;
+        }
+
+        this._status = GameStatus.DRAW;
+        this._drawReason = DrawReason.AGREEMENT;
+        this._drawOffer = null;
+        this._clock?.pause();
+        this._history.replaceCurrentState(this.getState());
+        this.emitGameEnd();
+        return true;
+    }
+
+    /**
+     * Decline the pending draw offer on behalf of the opponent of the player who made it
+     */
+    public declineDraw(color: PieceColor): boolean {
+        if (!this._drawOffer || this._drawOffer === color) {
+            return false;
+        }
+
+        this._drawOffer = null;
+        return true;
     }
 
     /**
@@ -551,6 +1310,164 @@ export class Game {
         return result;
     }
 
+    // ============================================================================
+    // UCI MOVES
+    // ============================================================================
+
+    /**
+     * Play a move in UCI long algebraic notation (e.g. "e2e4", "e7e8q", or "N@f3" for a drop)
+     * In Duck chess a ",d5" suffix also places the duck; without it, or if the duck
+     * cannot go there, the move is played and the duck left pending
+     */
+    public playUci(uci: string): IMoveResult {
+        const drop = /^([a-z])@([a-h][1-8])$/i.exec(uci.trim());
+        if (drop) {
+            const type = Game.pieceTypeFromUci(drop[1]);
+            const to = NotationConverter.algebraicToPosition(drop[2].toLowerCase());
+            const result = type && to ? this.dropPiece(type, to) : null;
+            return result?.success
+                ? result
+                : { success: false, error: result?.error ?? `Illegal move '${uci}'` };
+        }
+
+        const match = /^([a-h][1-8])([a-h][1-8])([a-z])?(?:,([a-h][1-8]))?$/.exec(
+            uci.trim().toLowerCase()
+        );
+        const from = match ? NotationConverter.algebraicToPosition(match[1]) : null;
+        const to = match ? NotationConverter.algebraicToPosition(match[2]) : null;
+        if (!match || !from || !to) {
+            return { success: false, error: `Malformed UCI move '${uci}'` };
+        }
+        const duck = match[4] ? NotationConverter.algebraicToPosition(match[4]) : null;
+        if (duck && !this._rules.hasDuck) {
+            return { success: false, error: `There is no duck to place in '${uci}'` };
+        }
+
+        const piece = this._board.getPiece(from);
+        if (!piece || piece.color !== this._currentPlayer) {
+            return { success: false, error: `No ${this._currentPlayer} piece on ${match[1]}` };
+        }
+
+        const isLegal = this.getValidMovesForPiece(piece).some(
+            (m) => m.row === to.row && m.col === to.col
+        );
+        if (!isLegal) {
+            return { success: false, error: `Illegal move '${uci}'` };
+        }
+
+        const isPromotion = piece.type === PieceType.PAWN && (piece as Pawn).canPromote(to.row);
+        const promotion = match[3] ? Game.pieceTypeFromUci(match[3]) : undefined;
+        if (promotion === null) {
+            return { success: false, error: `Unknown promotion piece in '${uci}'` };
+        }
+        if (promotion && !this._promotionPieces.includes(promotion)) {
+            return { success: false, error: `Pawns cannot promote to a ${promotion}` };
+        }
+        if (isPromotion !== !!promotion) {
+            return {
+                success: false,
+                error: isPromotion
+                    ? `Move '${uci}' needs a promotion piece`
+                    : `Move '${uci}' is not a promotion`
+            };
+        }
+
+        this._selectedPiece = null;
+        const result = this.executeMove(from, to, promotion);
+        return duck && result.needsDuck ? this.placeDuck(duck) : result;
+    }
+
+    /**
+     * Convert a move to UCI long algebraic notation
+     */
+    public toUci(move: IMove): string {
+        if (move.dropPiece) {
+            return `${PieceRegistry.getLetter(move.dropPiece)}@${NotationConverter.positionToAlgebraic(move.to.row, move.to.col)}`;
+        }
+
+        const from = NotationConverter.positionToAlgebraic(move.from.row, move.from.col);
+        const to = NotationConverter.positionToAlgebraic(move.to.row, move.to.col);
+        const promotion = move.promotionPiece ? PieceRegistry.getLetter(move.promotionPiece) : '';
+        const duck = move.duck
+            ? `,${NotationConverter.positionToAlgebraic(move.duck.row, move.duck.col)}`
+            : '';
+        return `${from}${to}${promotion.toLowerCase()}${duck}`;
+    }
+
+    /**
+     * Piece type of a UCI drop or promotion letter; null for a letter no piece has
+     */
+    private static pieceTypeFromUci(letter: string): PieceType | null {
+        return PieceRegistry.getTypeByLetter(letter.toUpperCase());
+    }
+
+    /**
+     * List all legal moves for the current player in UCI notation
+     * Promotions are expanded to one entry per promotion piece, and drops follow the moves;
+     * in Duck chess these are the piece moves, before the duck is placed
+     */
+    public getLegalMovesUci(): string[] {
+        const result: string[] = [];
+
+        for (const { piece, moves } of this.getAllValidMoves()) {
+            for (const to of moves) {
+                const isPromotion =
+                    piece.type === PieceType.PAWN && (piece as Pawn).canPromote(to.row);
+                const promotions = isPromotion ? this._promotionPieces : [undefined];
+
+                for (const promotionPiece of promotions) {
+                    result.push(
+                        this.toUci({
+                            from: piece.position,
+                            to,
+                            type: MoveType.NORMAL,
+                            promotionPiece
+                        })
+                    );
+                }
+            }
+        }
+
+        for (const move of this.getLegalMoves(this._currentPlayer)) {
+            const dropPiece = MoveGenerator.moveDrop(move);
+            if (dropPiece) {
+                const to = MoveGenerator.toPosition(MoveGenerator.moveTo(move));
+                result.push(this.toUci({ from: to, to, type: MoveType.DROP, dropPiece }));
+            }
+        }
+
+        return result;
+    }
+
+    // ============================================================================
+    // PERFT
+    // ============================================================================
+
+    /**
+     * Count the positions reachable from the current one in exactly `depth` moves
+     * (perft), for checking move generation against published node counts
+     */
+    public perft(depth: number): number {
+        return this.createGenerator(this._currentPlayer).perft(depth);
+    }
+
+    /**
+     * Perft split by first move, keyed by UCI notation, to narrow down a wrong count
+     */
+    public perftDivide(depth: number): Record<string, number> {
+        const generator = this.createGenerator(this._currentPlayer);
+        const result: Record<string, number> = {};
+
+        for (const move of generator.generateLegalMoves()) {
+            const uci = this.toUci(generator.toMove(move));
+            generator.makeMove(move);
+            result[uci] = generator.perft(depth - 1);
+            generator.unmakeMove();
+        }
+
+        return result;
+    }
+
     // ============================================================================
     // GAME STATE
     // ============================================================================
@@ -559,6 +1476,8 @@ export class Game {
      * Get complete game state
      */
     public getState(): IGameState {
+        const pockets = this._board.pockets;
+        const duck = this._board.duck;
         return {
             status: this._status,
             currentPlayer: this._currentPlayer,
@@ -567,11 +1486,20 @@ export class Game {
                 currentPlayer: this._currentPlayer,
                 enPassantTarget: this._board.enPassantTarget,
                 castlingRights: this._board.castlingRights,
-                halfMoveClock: 0,
-                fullMoveNumber: Math.floor(this._moveHistory.length / 2) + 1
+                halfMoveClock: this._halfMoveClock,
+                fullMoveNumber: this._fullMoveNumber,
+                ...(pockets && { pockets }),
+                ...(duck && { duck }),
+                ...(this._rules.countsChecks && { checkCount: this.checkCount })
             },
             moveHistory: [...this._moveHistory],
-            capturedPieces: this.capturedPieces
+            capturedPieces: this.capturedPieces,
+            checkCount: this.checkCount,
+            drawReason: this._drawReason ?? undefined,
+            resignedColor: this._resignedColor ?? undefined,
+            flaggedColor: this._flaggedColor ?? undefined,
+            variantWinner: this._variantWinner ?? undefined,
+            variantWinReason: this._variantWinReason ?? undefined
         };
     }
 
@@ -595,7 +1523,9 @@ export class Game {
             this._status === GameStatus.CHECKMATE ||
             this._status === GameStatus.STALEMATE ||
             this._status === GameStatus.DRAW ||
-            this._status === GameStatus.RESIGNED
+            this._status === GameStatus.RESIGNED ||
+            this._status === GameStatus.TIMEOUT ||
+            this._status === GameStatus.VARIANT_WIN
         );
     }
 
@@ -606,9 +1536,35 @@ export class Game {
         if (this._status === GameStatus.CHECKMATE) {
             return this._currentPlayer === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
         }
+        if (this._status === GameStatus.RESIGNED && this._resignedColor) {
+            return this._resignedColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        }
+        if (this._status === GameStatus.TIMEOUT && this._flaggedColor) {
+            return this._flaggedColor === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        }
+        if (this._status === GameStatus.VARIANT_WIN) {
+            return this._variantWinner;
+        }
         return null;
     }
 
+    /**
+     * Get the game result (null while the game is in progress)
+     */
+    public getResult(): IGameResult | null {
+        if (!this.isGameOver()) {
+            return null;
+        }
+
+        return {
+            winner: this.getWinner(),
+            reason: this._status,
+            moves: this._moveHistory.length,
+            drawReason: this._drawReason ?? undefined,
+            variantWinReason: this._variantWinReason ?? undefined
+        };
+    }
+
     // ============================================================================
     // HISTORY & ROLLBACK
     // ============================================================================
@@ -619,16 +1575,28 @@ export class Game {
     private restoreStateFromSnapshot(state: IGameState): void {
         this._currentPlayer = state.currentPlayer;
         this._status = state.status;
+        this._halfMoveClock = state.board.halfMoveClock;
+        this._fullMoveNumber = state.board.fullMoveNumber;
+        this._drawReason = state.drawReason ?? null;
+        this._resignedColor = state.resignedColor ?? null;
+        this._flaggedColor = state.flaggedColor ?? null;
+        this._variantWinner = state.variantWinner ?? null;
+        this._variantWinReason = state.variantWinReason ?? null;
+        this._drawOffer = null;
         this._moveHistory = [...state.moveHistory];
         this._capturedPieces = {
             white: [...state.capturedPieces.white],
             black: [...state.capturedPieces.black]
         };
+        this._checkCount = { ...state.checkCount };
         this._selectedPiece = null;
         this._pendingPromotion = null;
+        this._pendingDuck = null;
 
         // Restore board state
         this._board = Board.fromBoardState(state.board);
+        this.syncClockWithHistory();
+        this.emit(GameEventType.HISTORY_NAVIGATED, { index: this._history.getCurrentIndex() });
     }
 
     /**
@@ -647,6 +1615,13 @@ export class Game {
      * Go back one move
      */
     public undoMove(): boolean {
+        // A move still waiting for its duck is taken back on its own
+        const current = this._history.getCurrentSnapshot();
+        if (this._pendingDuck && current) {
+            this.restoreStateFromSnapshot(current.gameState);
+            return true;
+        }
+
         const state = this._history.goBack();
         if (state) {
             this.restoreStateFromSnapshot(state);
@@ -0,0 +1,59 @@
+/**
+ * Game Event Bus
+ * Typed publish/subscribe channel for game events
+ */
+
+import {
+    type IGameEvent,
+    type IGameEventData,
+    type GameEventListener,
+    GameEventType
+} from '../types/index.js';
+
+export class GameEventBus {
+    private readonly _listeners = new Map<GameEventType, Set<GameEventListener>>();
+
+    /**
+     * Register a listener for one event type
+     * Returns a function that removes the listener again
+     */
+    public subscribe<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void {
+        let listeners = this._listeners.get(type);
+        if (!listeners) {
+            listeners = new Set();
+            this._listeners.set(type, listeners);
+        }
+
+        listeners.add(listener as GameEventListener);
+        return () => this.unsubscribe(type, listener);
+    }
+
+    /**
+     * Remove a previously registered listener
+     */
+    public unsubscribe<T extends GameEventType>(type: T, listener: GameEventListener<T>): boolean {
+        return this._listeners.get(type)?.delete(listener as GameEventListener) ?? false;
+    }
+
+    /**
+     * Deliver an event to every listener of its type
+     * A failing listener is reported and does not stop the others
+     */
+    public emit<T extends GameEventType>(type: T, data: IGameEventData[T]): void {
+        const listeners = this._listeners.get(type);
+        if (!listeners || listeners.size === 0) {
+            return;
+        }
+
+        const event: IGameEvent<T> = { type, data, timestamp: Date.now() };
+
+        // Copy so listeners may unsubscribe while being notified
+        for (const listener of [...listeners]) {
+            try {
+                listener(event as IGameEvent);
+            } catch (error) {
+                console.error(`Error in ${type} event listener:`, error);
+            }
+        }
+    }
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './Game.js';
+import { NotationConverter, SanError } from './GameHistory.js';
+import { MoveType, PieceType } from '../types/index.js';
+
+function gameFrom(fen: string): Game {
+    const game = new Game();
+    game.loadFen(fen);
+    return game;
+}
+
+/**
+ * SAN recorded for the last move played
+ */
+function lastSan(game: Game, uci: string): string {
+    expect(game.playUci(uci).success).toBe(true);
+    const snapshots = game.history.getSnapshots();
+    return snapshots[snapshots.length - 1].notation;
+}
+
+describe('NotationConverter SAN generation', () => {
+    it('writes pawn moves, captures and promotions', () => {
+        const game = new Game();
+        expect(lastSan(game, 'e2e4')).toBe('e4');
+        expect(lastSan(game, 'd7d5')).toBe('d5');
+        expect(lastSan(game, 'e4d5')).toBe('exd5');
+
+        expect(lastSan(gameFrom('8/4P2k/8/8/8/8/8/4K3 w - - 0 1'), 'e7e8n')).toBe('e8=N');
+    });
+
+    it('writes castling and the check and mate suffixes', () => {
+        expect(lastSan(gameFrom('4k3/8/8/8/8/8/8/4K2R w K - 0 1'), 'e1g1')).toBe('O-O');
+        expect(lastSan(gameFrom('3k4/8/8/8/8/8/8/R3K3 w Q - 0 1'), 'e1c1')).toBe('O-O-O+');
+
+        const game = new Game();
+        for (const uci of ['f2f3', 'e7e5', 'g2g4']) {
+            game.playUci(uci);
+        }
+        expect(lastSan(game, 'd8h4')).toBe('Qh4#');
+    });
+
+    it('disambiguates by file, then rank, then square', () => {
+        expect(lastSan(gameFrom('k7/8/8/8/8/8/8/KN3N2 w - - 0 1'), 'b1d2')).toBe('Nbd2');
+        expect(lastSan(gameFrom('7k/8/8/R7/8/8/8/R6K w - - 0 1'), 'a1a3')).toBe('R1a3');
+        expect(lastSan(gameFrom('6k1/8/8/8/8/Q7/8/Q1Q4K w - - 0 1'), 'a1b2')).toBe('Qa1b2');
+    });
+
+    it('leaves out disambiguation for a rival that is pinned', () => {
+        // The knight on c3 also reaches e4 but is pinned by the bishop on a5
+        expect(lastSan(gameFrom('k7/8/8/b7/8/2N3N1/8/4K3 w - - 0 1'), 'g3e4')).toBe('Ne4');
+    });
+
+    it('picks the shortest disambiguation from the rival squares', () => {
+        const from = { row: 7, col: 1 };
+
+        expect(NotationConverter.getDisambiguation(from, [{ row: 7, col: 5 }])).toBe('b');
+        expect(NotationConverter.getDisambiguation(from, [{ row: 3, col: 1 }])).toBe('1');
+        expect(
+            NotationConverter.getDisambiguation(from, [
+                { row: 7, col: 5 },
+                { row: 3, col: 1 }
+            ])
+        ).toBe('b1');
+    });
+});
+
+describe('NotationConverter SAN parsing', () => {
+    it('resolves moves against the legal moves of the position', () => {
+        const game = new Game();
+
+        expect(NotationConverter.parseSan(game, 'Nf3')).toEqual({
+            from: { row: 7, col: 6 },
+            to: { row: 5, col: 5 },
+            type: MoveType.NORMAL
+        });
+        expect(NotationConverter.parseSan(game, 'e4!?').to).toEqual({ row: 4, col: 4 });
+    });
+
+    it('reads disambiguated moves and castling written with zeros', () => {
+        const knights = gameFrom('k7/8/8/8/8/8/8/KN3N2 w - - 0 1');
+        expect(NotationConverter.parseSan(knights, 'Nfd2').from).toEqual({ row: 7, col: 5 });
+
+        const castling = gameFrom('4k3/8/8/8/8/8/8/4K2R w K - 0 1');
+        expect(NotationConverter.parseSan(castling, '0-0').type).toBe(MoveType.CASTLE_KINGSIDE);
+    });
+
+    it('reads captures, en passant and promotions', () => {
+        const enPassant = gameFrom('4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1');
+        expect(NotationConverter.parseSan(enPassant, 'exd6').type).toBe(MoveType.EN_PASSANT);
+
+        const promotion = NotationConverter.parseSan(
+            gameFrom('3r2k1/4P3/8/8/8/8/8/4K3 w - - 0 1'),
+            'exd8=Q+'
+        );
+        expect(promotion.promotionPiece).toBe(PieceType.QUEEN);
+        expect(promotion.capturedPiece).toBe(PieceType.ROOK);
+    });
+
+    it('rejects unreadable, illegal, ambiguous and unfinished moves', () => {
+        const knights = gameFrom('k7/8/8/8/8/8/8/KN3N2 w - - 0 1');
+        const promotion = gameFrom('8/4P1k1/8/8/8/8/8/4K3 w - - 0 1');
+
+        expect(() => NotationConverter.parseSan(knights, 'Nd2')).toThrow(/^Ambiguous/);
+        expect(() => NotationConverter.parseSan(knights, 'Nd4')).toThrow(/^Illegal/);
+        expect(() => NotationConverter.parseSan(knights, 'hello')).toThrow(/^Unreadable/);
+        expect(() => NotationConverter.parseSan(knights, 'Zd2')).toThrow(SanError);
+        expect(() => NotationConverter.parseSan(promotion, 'e8')).toThrow(/^Missing promotion/);
+    });
+});
@@ -3,8 +3,11 @@
  * Manages move history, snapshots, and rollback functionality
  */
 
-import type { IGameState, IMove } from '../types/index.js';
-import { MoveType, PieceType } from '../types/index.js';
+import type { Game } from './Game.js';
+import { Zobrist } from './Zobrist.js';
+import { PieceRegistry } from './PieceRegistry.js';
+import type { IGameState, IMove, IPosition } from '../types/index.js';
+import { MoveType, PieceType, FILE_LETTERS, RANK_NUMBERS } from '../types/index.js';
 
 export interface IHistorySnapshot {
     readonly moveNumber: number;
@@ -12,8 +15,13 @@ export interface IHistorySnapshot {
     readonly gameState: IGameState;
     readonly notation: string;
     readonly timestamp: number;
+    readonly hash: bigint; // Zobrist key of the position
+    readonly comment?: string;
+    readonly clock?: number; // remaining seconds for the player who moved
 }
 
+export type ISnapshotAnnotation = Pick<IHistorySnapshot, 'comment' | 'clock'>;
+
 export class GameHistory {
     private _snapshots: IHistorySnapshot[] = [];
     private _currentSnapshotIndex: number = 0;
@@ -37,13 +45,41 @@ export class GameHistory {
             move,
             gameState: this.cloneGameState(gameState),
             notation,
-            timestamp: Date.now()
+            timestamp: Date.now(),
+            hash: Zobrist.hash(gameState.board)
         };
 
         this._snapshots.push(snapshot);
         this._currentSnapshotIndex = this._snapshots.length - 1;
     }
 
+    /**
+     * Attach a comment and/or clock reading to a snapshot
+     */
+    public annotate(index: number, annotation: ISnapshotAnnotation): boolean {
+        const snapshot = this._snapshots[index];
+        if (!snapshot) {
+            return false;
+        }
+
+        this._snapshots[index] = { ...snapshot, ...annotation };
+        return true;
+    }
+
+    /**
+     * Replace the game state stored in the current snapshot
+     * Used when the game ends without a move (e.g. a claimed draw)
+     */
+    public replaceCurrentState(gameState: IGameState): void {
+        const snapshot = this._snapshots[this._currentSnapshotIndex];
+        if (snapshot) {
+            this._snapshots[this._currentSnapshotIndex] = {
+                ...snapshot,
+                gameState: this.cloneGameState(gameState)
+            };
+        }
+    }
+
     /**
      * Go back to a specific snapshot
      */
@@ -162,56 +198,238 @@ export class GameHistory {
 }
 
 /**
- * Convert move to algebraic notation
+ * Error thrown when a SAN move cannot be resolved in the current position
+ */
+export class SanError extends Error {
+    public readonly san: string;
+
+    constructor(message: string, san: string) {
+        super(`${message} move '${san}'`);
+        this.name = 'SanError';
+        this.san = san;
+    }
+}
+
+export interface ISanContext {
+    readonly disambiguation: string; // file, rank or square of the moving piece
+    readonly isCheck: boolean;
+    readonly isCheckmate: boolean;
+}
+
+/**
+ * Convert moves to and from Standard Algebraic Notation (SAN)
  */
 export class NotationConverter {
-    private static readonly FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
-    private static readonly RANKS = ['8', '7', '6', '5', '4', '3', '2', '1'];
+    private static readonly FILES = FILE_LETTERS;
+    private static readonly RANKS = RANK_NUMBERS;
 
     public static positionToAlgebraic(row: number, col: number): string {
         return `${this.FILES[col]}${this.RANKS[row]}`;
     }
 
-    public static moveToNotation(move: IMove, piece: PieceType, isCapture: boolean, isCheck: boolean, isCheckmate: boolean): string {
-        let notation = '';
+    public static algebraicToPosition(square: string): IPosition | null {
+        const col = this.FILES.indexOf(square[0] as (typeof FILE_LETTERS)[number]);
+        const row = this.RANKS.indexOf(square[1] as (typeof RANK_NUMBERS)[number]);
+        return square.length === 2 && col >= 0 && row >= 0 ? { row, col } : null;
+    }
+
+    /**
+     * SAN of a move; a Duck chess move ends with the duck's square (e.g. e4,d5)
+     */
+    public static moveToNotation(move: IMove, piece: PieceType, context: ISanContext): string {
+        const check = context.isCheckmate ? '#' : context.isCheck ? '+' : '';
+        const duck = move.duck ? `,${this.positionToAlgebraic(move.duck.row, move.duck.col)}` : '';
+        const suffix = check + duck;
 
         // Handle castling
         if (move.type === MoveType.CASTLE_KINGSIDE) {
-            return isCheckmate ? 'O-O#' : isCheck ? 'O-O+' : 'O-O';
+            return `O-O${suffix}`;
         }
         if (move.type === MoveType.CASTLE_QUEENSIDE) {
-            return isCheckmate ? 'O-O-O#' : isCheck ? 'O-O-O+' : 'O-O-O';
+            return `O-O-O${suffix}`;
         }
 
-        // Piece symbol (empty for pawn)
-        const pieceSymbol = piece === PieceType.PAWN ? '' : piece.charAt(0).toUpperCase();
-        notation += pieceSymbol;
+        // Drops name the piece and its square, pawns included (e.g. N@f3, P@e6)
+        if (move.dropPiece) {
+            return `${PieceRegistry.getLetter(move.dropPiece)}@${this.positionToAlgebraic(move.to.row, move.to.col)}${suffix}`;
+        }
+
+        const isCapture = !!move.capturedPiece;
+        let notation = '';
 
-        // From square (for pawns only on capture)
-        if (isCapture && piece === PieceType.PAWN) {
-            notation += this.FILES[move.from.col];
+        if (piece === PieceType.PAWN) {
+            // Pawn captures are identified by their file
+            if (isCapture) {
+                notation += this.FILES[move.from.col];
+            }
+        } else {
+            notation += PieceRegistry.getLetter(piece) + context.disambiguation;
         }
 
-        // Capture indicator
         if (isCapture) {
             notation += 'x';
         }
 
-        // To square
         notation += this.positionToAlgebraic(move.to.row, move.to.col);
 
-        // Promotion
         if (move.promotionPiece) {
-            notation += '=' + move.promotionPiece.charAt(0).toUpperCase();
+            notation += '=' + PieceRegistry.getLetter(move.promotionPiece);
         }
 
-        // Check/Checkmate
-        if (isCheckmate) {
-            notation += '#';
-        } else if (isCheck) {
-            notation += '+';
+        return notation + suffix;
+    }
+
+    /**
+     * Get the minimal SAN disambiguation for a piece moving from `from`,
+     * given the squares of same-type pieces that can reach the same target
+     */
+    public static getDisambiguation(from: IPosition, rivals: IPosition[]): string {
+        if (rivals.length === 0) {
+            return '';
+        }
+        if (!rivals.some((rival) => rival.col === from.col)) {
+            return this.FILES[from.col];
         }
+        if (!rivals.some((rival) => rival.row === from.row)) {
+            return this.RANKS[from.row];
+        }
+        return this.positionToAlgebraic(from.row, from.col);
+    }
+
+    /**
+     * Resolve a SAN move against the legal moves of the game's current position
+     * Throws SanError for unreadable, illegal or ambiguous moves; a Duck chess
+     * move's duck square is kept on the move for the caller to place
+     */
+    public static parseSan(game: Game, text: string): IMove {
+        const notation = text.trim().replace(/[!?]*$/, '');
+        const duck = /,([a-h][1-8])$/.exec(notation);
+        const san = notation.slice(0, duck?.index).replace(/[+#]$/, '');
+        const move = this.parseMove(game, san, text);
+        const duckSquare = duck ? this.algebraicToPosition(duck[1]) : null;
+        return duckSquare ? { ...move, duck: duckSquare } : move;
+    }
+
+    private static parseMove(game: Game, san: string, text: string): IMove {
+        const allMoves = game.getAllValidMoves();
+
+        const castle = /^([O0])-\1(-\1)?$/.exec(san);
+        if (castle) {
+            const isQueenside = !!castle[2];
+            const side = isQueenside ? MoveType.CASTLE_QUEENSIDE : MoveType.CASTLE_KINGSIDE;
+            const king = allMoves.find(({ piece }) => piece.type === PieceType.KING);
+            const to = king?.moves.find(
+                (m) => game.getCastlingSide(king.piece.position, m) === side
+            );
+            if (!king || !to) {
+                throw new SanError('Illegal', text);
+            }
+            return {
+                from: king.piece.position,
+                to,
+                type: isQueenside ? MoveType.CASTLE_QUEENSIDE : MoveType.CASTLE_KINGSIDE
+            };
+        }
+
+        const drop = /^([A-Z])?@([a-h][1-8])$/.exec(san);
+        if (drop) {
+            const dropPiece = this.readPieceLetter(drop[1], text);
+            const to = this.algebraicToPosition(drop[2]);
+            if (
+                !to ||
+                !game.getDropSquares(dropPiece).some((m) => m.row === to.row && m.col === to.col)
+            ) {
+                throw new SanError('Illegal', text);
+            }
+            return { from: to, to, type: MoveType.DROP, dropPiece };
+        }
+
+        const match = /^([A-Z])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([A-Z]))?$/.exec(san);
+        const to = match ? this.algebraicToPosition(match[4]) : null;
+        if (!match || !to) {
+            throw new SanError('Unreadable', text);
+        }
+
+        const [, letter, fromFile, fromRank, , promotionLetter] = match;
+        const type = this.readPieceLetter(letter, text);
+        if (promotionLetter) {
+            this.readPieceLetter(promotionLetter, text);
+        }
+
+        const candidates = allMoves.filter(
+            ({ piece, moves }) =>
+                piece.type === type &&
+                (!fromFile || this.FILES[piece.col] === fromFile) &&
+                (!fromRank || this.RANKS[piece.row] === fromRank) &&
+                moves.some((m) => m.row === to.row && m.col === to.col)
+        );
+
+        if (candidates.length === 0) {
+            throw new SanError('Illegal', text);
+        }
+        if (candidates.length > 1) {
+            throw new SanError('Ambiguous', text);
+        }
+
+        const from = candidates[0].piece.position;
+        const isPromotion = type === PieceType.PAWN && (to.row === 0 || to.row === 7);
+        if (isPromotion !== !!promotionLetter) {
+            throw new SanError(
+                isPromotion ? 'Missing promotion in' : 'Unexpected promotion in',
+                text
+            );
+        }
+
+        return this.buildMove(game, from, to, type, promotionLetter);
+    }
+
+    private static buildMove(
+        game: Game,
+        from: IPosition,
+        to: IPosition,
+        type: PieceType,
+        promotionLetter: string | undefined
+    ): IMove {
+        const target = game.board.getPiece(to);
+        const enPassant = game.board.enPassantTarget;
+        const isEnPassant =
+            type === PieceType.PAWN &&
+            !target &&
+            from.col !== to.col &&
+            enPassant?.row === to.row &&
+            enPassant.col === to.col;
+
+        if (promotionLetter) {
+            return {
+                from,
+                to,
+                type: MoveType.PROMOTION,
+                capturedPiece: target?.type,
+                promotionPiece: this.pieceTypeFromLetter(promotionLetter)
+            };
+        }
+        if (isEnPassant) {
+            return { from, to, type: MoveType.EN_PASSANT, capturedPiece: PieceType.PAWN };
+        }
+        if (target) {
+            return { from, to, type: MoveType.CAPTURE, capturedPiece: target.type };
+        }
+        return { from, to, type: MoveType.NORMAL };
+    }
+
+    /**
+     * Piece type of a SAN piece letter, a pawn when there is none; throws
+     * SanError for a letter no piece has
+     */
+    private static readPieceLetter(letter: string | undefined, text: string): PieceType {
+        const type = letter ? PieceRegistry.getTypeByLetter(letter) : PieceType.PAWN;
+        if (!type) {
+            throw new SanError('Unreadable', text);
+        }
+        return type;
+    }
 
-        return notation;
+    public static pieceTypeFromLetter(letter: string): PieceType {
+        return PieceRegistry.getTypeByLetter(letter) ?? PieceType.PAWN;
     }
 }
@@ -0,0 +1,1491 @@
+/**
+ * Move Generator
+ * Legal move generation on a 0x88 board using check and pin masks,
+ * with make/unmake so searches never copy the board.
+ * Squares are numbered row * 16 + col (row 0 = rank 8); moves are packed integers.
+ * In atomic mode captures explode, and legality is tested by playing each move.
+ * In drop mode (Crazyhouse) captured pieces go to the capturer's pocket and may be dropped.
+ * In antichess mode the king is an ordinary piece and captures are compulsory.
+ * In horde mode a side without a king moves freely and pawns may double-step from the first rank.
+ * In racing kings mode no move may give check.
+ * In no-check mode (Duck and Dark chess) kings may be captured; the duck blocks its square.
+ * Registered pieces (PieceRegistry) get kinds of their own, and with one on the board
+ * legality is tested by playing each move, as their attacks escape the check and pin masks.
+ */
+
+import type { Board } from './Board.js';
+import { PieceRegistry } from './PieceRegistry.js';
+import {
+    type IBoardState,
+    type IMove,
+    type IPosition,
+    type ICastlingRights,
+    type IPockets,
+    PieceType,
+    PieceColor,
+    MoveType,
+    BOARD_SIZE,
+    CASTLING_FILES
+} from '../types/index.js';
+
+// Piece codes: the piece kind in the low six bits, plus BLACK for black pieces
+const EMPTY = 0;
+const PAWN = 1;
+const KNIGHT = 2;
+const BISHOP = 3;
+const ROOK = 4;
+const QUEEN = 5;
+const KING = 6;
+const WHITE = 0;
+const BLACK = 64;
+const KIND_MASK = 63;
+const COLOR_SHIFT = 6; // code >> COLOR_SHIFT is the color index
+
+// The duck (Duck chess) has a kind of its own and belongs to neither side
+const DUCK = 7;
+
+// Registered pieces are numbered from here on, in the order they first appear
+const FIRST_FAIRY_KIND = 8;
+
+// Castling right bits
+const WHITE_KINGSIDE = 1;
+const WHITE_QUEENSIDE = 2;
+const BLACK_KINGSIDE = 4;
+const BLACK_QUEENSIDE = 8;
+
+// Move layout: from (bits 0-6), to (bits 7-13), promotion kind (bits 14-19), flags
+// Drops put the target square in both from and to, and the dropped kind in the promotion bits
+const FLAG_CAPTURE = 1 << 20;
+const FLAG_EN_PASSANT = 1 << 21;
+const FLAG_DOUBLE_PUSH = 1 << 22;
+const FLAG_CASTLE = 1 << 23;
+const FLAG_DROP = 1 << 24;
+
+const KNIGHT_OFFSETS = [-33, -31, -18, -14, 14, 18, 31, 33];
+const KING_OFFSETS = [-17, -16, -15, -1, 1, 15, 16, 17];
+const DIAGONALS = [-17, -15, 15, 17];
+const ORTHOGONALS = [-16, -1, 1, 16];
+const PROMOTION_KINDS = [QUEEN, ROOK, BISHOP, KNIGHT];
+const ANTICHESS_PROMOTION_KINDS = [QUEEN, ROOK, BISHOP, KNIGHT, KING];
+const DROP_KINDS = [PAWN, KNIGHT, BISHOP, ROOK, QUEEN];
+
+const KIND_TO_TYPE: PieceType[] = [
+    PieceType.PAWN, // unused slot for EMPTY
+    PieceType.PAWN,
+    PieceType.KNIGHT,
+    PieceType.BISHOP,
+    PieceType.ROOK,
+    PieceType.QUEEN,
+    PieceType.KING
+];
+
+const TYPE_TO_KIND: Partial<Record<PieceType, number>> = {
+    [PieceType.PAWN]: PAWN,
+    [PieceType.KNIGHT]: KNIGHT,
+    [PieceType.BISHOP]: BISHOP,
+    [PieceType.ROOK]: ROOK,
+    [PieceType.QUEEN]: QUEEN,
+    [PieceType.KING]: KING
+};
+
+/**
+ * Moves of a registered piece as 0x88 offsets
+ */
+interface IFairyMoves {
+    readonly leaps: number[];
+    readonly slides: number[];
+    readonly hops: number[];
+}
+
+const FAIRY_KINDS: number[] = [];
+const FAIRY_MOVES: IFairyMoves[] = []; // by kind
+
+interface IUndoEntry {
+    readonly move: number;
+    readonly captured: number;
+    readonly castling: number;
+    readonly enPassant: number;
+    readonly exploded?: { square: number; code: number }[]; // atomic captures
+    readonly capturedPromoted?: number; // drop mode: the captured piece was a promoted pawn
+}
+
+export class MoveGenerator {
+    private readonly _squares = new Int8Array(128);
+    private readonly _kings = [-1, -1]; // by color index (0 white, 1 black)
+    private _side = WHITE;
+    private _castling = 0;
+    private _enPassant = -1;
+    private readonly _undoStack: IUndoEntry[] = [];
+
+    // Castling setup: rook files (kingside, queenside) and the rights lost when a move
+    // starts or ends on a square, i.e. the king's and castling rooks' starting squares
+    private _chess960 = false;
+    private readonly _rookFiles: number[] = [
+        CASTLING_FILES.kingside.rook,
+        CASTLING_FILES.queenside.rook
+    ];
+    private readonly _castlingMask = new Uint8Array(128).fill(15);
+
+    // Atomic chess: a capture blows up the capturing piece and every piece but
+    // pawns around the target square
+    private _atomic = false;
+
+    // Crazyhouse: pieces in hand by piece code, and which pieces are promoted pawns
+    private _drops = false;
+    private readonly _pockets = new Uint8Array(128);
+    private readonly _promoted = new Uint8Array(128);
+
+    // Antichess: no check or castling, pawns may promote to king, and captures are compulsory
+    private _antichess = false;
+
+    // Horde: White has no king to keep safe, and its pawns may double-step from the first rank
+    private _horde = false;
+
+    // Racing Kings: giving check is illegal
+    private _racingKings = false;
+
+    // Duck and Dark chess: no check, so kings may be captured and castle through attacked squares
+    private _noCheck = false;
+
+    // Whether a registered piece is on the board or in hand, so legality is tested by playing
+    private _hasFairy = false;
+
+    // Scratch masks filled by analyzeKing for the side to move
+    private readonly _checkMask = new Uint8Array(128);
+    private readonly _pinRays = new Int8Array(128);
+    private readonly _pinnedBy = new Int8Array(128);
+
+    // ============================================================================
+    // CONSTRUCTION
+    // ============================================================================
+
+    /**
+     * Load a Board; the side to move defaults to the board's own
+     * Chess960 castling moves are encoded as the king moving onto its rook
+     */
+    public static fromBoard(
+        board: Board,
+        sideToMove: PieceColor = board.sideToMove,
+        chess960 = false
+    ): MoveGenerator {
+        const generator = new MoveGenerator();
+
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                const piece = board.getPiece({ row, col });
+                if (piece) {
+                    generator.putPiece(row * 16 + col, piece.type, piece.color, piece.promoted);
+                }
+            }
+        }
+
+        generator.setState(sideToMove, board.castlingRights, board.enPassantTarget, chess960);
+        generator.setPockets(board.pockets);
+        generator.setDuck(board.duck);
+        return generator;
+    }
+
+    /**
+     * Load a serialized board state (e.g. parsed from FEN)
+     */
+    public static fromBoardState(state: IBoardState, chess960 = false): MoveGenerator {
+        const generator = new MoveGenerator();
+
+        state.squares.forEach((rank, row) =>
+            rank.forEach((piece, col) => {
+                if (piece) {
+                    generator.putPiece(row * 16 + col, piece.type, piece.color, piece.promoted);
+                }
+            })
+        );
+
+        generator.setState(
+            state.currentPlayer,
+            state.castlingRights,
+            state.enPassantTarget,
+            chess960
+        );
+        generator.setPockets(state.pockets ?? null);
+        generator.setDuck(state.duck ?? null);
+        return generator;
+    }
+
+    private putPiece(square: number, type: PieceType, color: PieceColor, promoted = false): void {
+        const side = color === PieceColor.WHITE ? WHITE : BLACK;
+        const kind = MoveGenerator.kindOf(type);
+        this._squares[square] = kind | side;
+        this._hasFairy ||= kind >= FIRST_FAIRY_KIND;
+        this._promoted[square] = promoted ? 1 : 0;
+        if (type === PieceType.KING) {
+            this._kings[side >> COLOR_SHIFT] = square;
+        }
+    }
+
+    private setPockets(pockets: IPockets | null): void {
+        this._pockets.fill(0);
+        for (const [types, side] of [
+            [pockets?.white ?? [], WHITE],
+            [pockets?.black ?? [], BLACK]
+        ] as const) {
+            for (const type of types) {
+                const kind = MoveGenerator.kindOf(type);
+                this._pockets[kind | side]++;
+                this._hasFairy ||= kind >= FIRST_FAIRY_KIND;
+            }
+        }
+    }
+
+    /**
+     * Kind of a piece type, numbering a registered piece the first time it appears
+     */
+    private static kindOf(type: PieceType): number {
+        let kind = TYPE_TO_KIND[type];
+        if (kind === undefined) {
+            const definition = PieceRegistry.get(type);
+            kind = FIRST_FAIRY_KIND + FAIRY_KINDS.length;
+            if (!definition || kind > KIND_MASK) {
+                throw new RangeError(`Cannot generate moves for a ${type}`);
+            }
+
+            const { leaps = [], slides = [], hops = [] } = definition.movement;
+            const toOffsets = (directions: readonly { row: number; col: number }[]): number[] =>
+                directions.map(({ row, col }) => row * 16 + col);
+
+            TYPE_TO_KIND[type] = kind;
+            KIND_TO_TYPE[kind] = type;
+            FAIRY_KINDS.push(kind);
+            FAIRY_MOVES[kind] = {
+                leaps: toOffsets(leaps),
+                slides: toOffsets(slides),
+                hops: toOffsets(hops)
+            };
+        }
+
+        return kind;
+    }
+
+    private setDuck(duck: IPosition | null): void {
+        if (duck) {
+            this._squares[MoveGenerator.toSquare(duck)] = DUCK;
+        }
+    }
+
+    private setState(
+        sideToMove: PieceColor,
+        rights: ICastlingRights,
+        enPassantTarget: IPosition | null,
+        chess960: boolean
+    ): void {
+        this._side = sideToMove === PieceColor.WHITE ? WHITE : BLACK;
+        this._castling =
+            (rights.whiteKingside ? WHITE_KINGSIDE : 0) |
+            (rights.whiteQueenside ? WHITE_QUEENSIDE : 0) |
+            (rights.blackKingside ? BLACK_KINGSIDE : 0) |
+            (rights.blackQueenside ? BLACK_QUEENSIDE : 0);
+        this._enPassant = enPassantTarget ? MoveGenerator.toSquare(enPassantTarget) : -1;
+        this._chess960 = chess960;
+        this._rookFiles[0] = rights.kingsideRookFile ?? CASTLING_FILES.kingside.rook;
+        this._rookFiles[1] = rights.queensideRookFile ?? CASTLING_FILES.queenside.rook;
+
+        for (const [side, kingside, queenside] of [
+            [WHITE, WHITE_KINGSIDE, WHITE_QUEENSIDE],
+            [BLACK, BLACK_KINGSIDE, BLACK_QUEENSIDE]
+        ]) {
+            const row = side === WHITE ? 0x70 : 0x00;
+            const king = this._kings[side >> COLOR_SHIFT];
+            if (king >= 0 && (king & 0x70) === row) {
+                this._castlingMask[king] &= ~(kingside | queenside);
+            }
+            this._castlingMask[row + this._rookFiles[0]] &= ~kingside;
+            this._castlingMask[row + this._rookFiles[1]] &= ~queenside;
+        }
+    }
+
+    // ============================================================================
+    // SQUARES & MOVES
+    // ============================================================================
+
+    public static toSquare(position: IPosition): number {
+        return position.row * 16 + position.col;
+    }
+
+    public static toPosition(square: number): IPosition {
+        return { row: square >> 4, col: square & 7 };
+    }
+
+    public static moveFrom(move: number): number {
+        return move & 0x7f;
+    }
+
+    public static moveTo(move: number): number {
+        return (move >> 7) & 0x7f;
+    }
+
+    /**
+     * Promotion piece of a move, or null
+     */
+    public static movePromotion(move: number): PieceType | null {
+        const kind = (move >> 14) & KIND_MASK;
+        return kind && !(move & FLAG_DROP) ? KIND_TO_TYPE[kind] : null;
+    }
+
+    /**
+     * Piece a drop puts on the board, or null for other moves
+     */
+    public static moveDrop(move: number): PieceType | null {
+        return move & FLAG_DROP ? KIND_TO_TYPE[(move >> 14) & KIND_MASK] : null;
+    }
+
+    public static isCapture(move: number): boolean {
+        return (move & FLAG_CAPTURE) !== 0;
+    }
+
+    /**
+     * Describe a move of the current position (call before making it)
+     */
+    public toMove(move: number): IMove {
+        const from = MoveGenerator.moveFrom(move);
+        const to = MoveGenerator.moveTo(move);
+        const dropPiece = MoveGenerator.moveDrop(move);
+
+        if (dropPiece) {
+            const position = MoveGenerator.toPosition(to);
+            return { from: position, to: position, type: MoveType.DROP, dropPiece };
+        }
+
+        const promotionPiece = MoveGenerator.movePromotion(move) ?? undefined;
+
+        let type = MoveType.NORMAL;
+        let capturedPiece: PieceType | undefined;
+
+        if (move & FLAG_EN_PASSANT) {
+            type = MoveType.EN_PASSANT;
+            capturedPiece = PieceType.PAWN;
+        } else if (move & FLAG_CASTLE) {
+            type = to > from ? MoveType.CASTLE_KINGSIDE : MoveType.CASTLE_QUEENSIDE;
+        } else if (move & FLAG_CAPTURE) {
+            type = MoveType.CAPTURE;
+            capturedPiece = KIND_TO_TYPE[this._squares[to] & KIND_MASK];
+        }
+        if (promotionPiece) {
+            type = MoveType.PROMOTION;
+        }
+
+        return {
+            from: MoveGenerator.toPosition(from),
+            to: MoveGenerator.toPosition(to),
+            type,
+            capturedPiece,
+            promotionPiece
+        };
+    }
+
+    // ============================================================================
+    // POSITION QUERIES
+    // ============================================================================
+
+    public get sideToMove(): PieceColor {
+        return this._side === WHITE ? PieceColor.WHITE : PieceColor.BLACK;
+    }
+
+    /**
+     * Whether captures explode (atomic chess)
+     */
+    public get atomic(): boolean {
+        return this._atomic;
+    }
+
+    public set atomic(atomic: boolean) {
+        this._atomic = atomic;
+    }
+
+    /**
+     * Whether captured pieces go to the capturer's pocket and may be dropped (Crazyhouse)
+     */
+    public get drops(): boolean {
+        return this._drops;
+    }
+
+    public set drops(drops: boolean) {
+        this._drops = drops;
+    }
+
+    /**
+     * Whether kings are ordinary pieces and captures are compulsory (Antichess)
+     */
+    public get antichess(): boolean {
+        return this._antichess;
+    }
+
+    public set antichess(antichess: boolean) {
+        this._antichess = antichess;
+    }
+
+    /**
+     * Whether a side without a king may move and pawns double-step from the first rank (Horde)
+     */
+    public get horde(): boolean {
+        return this._horde;
+    }
+
+    public set horde(horde: boolean) {
+        this._horde = horde;
+    }
+
+    /**
+     * Whether moves that give check are illegal (Racing Kings)
+     */
+    public get racingKings(): boolean {
+        return this._racingKings;
+    }
+
+    public set racingKings(racingKings: boolean) {
+        this._racingKings = racingKings;
+    }
+
+    /**
+     * Whether there is no check and kings may be captured (Duck and Dark chess)
+     */
+    public get noCheck(): boolean {
+        return this._noCheck;
+    }
+
+    public set noCheck(noCheck: boolean) {
+        this._noCheck = noCheck;
+    }
+
+    /**
+     * Number of pieces of a type in a player's hand
+     */
+    public getPocketCount(color: PieceColor, type: PieceType): number {
+        const kind = TYPE_TO_KIND[type];
+        return kind === undefined
+            ? 0
+            : this._pockets[kind | (color === PieceColor.WHITE ? WHITE : BLACK)];
+    }
+
+    /**
+     * Piece on a square, or null
+     */
+    public getPiece(row: number, col: number): { type: PieceType; color: PieceColor } | null {
+        const code = this._squares[row * 16 + col];
+        if (code === EMPTY || code === DUCK) {
+            return null;
+        }
+        return {
+            type: KIND_TO_TYPE[code & KIND_MASK],
+            color: code & BLACK ? PieceColor.BLACK : PieceColor.WHITE
+        };
+    }
+
+    /**
+     * Whether a color has any piece left on the board
+     */
+    public hasPieces(color: PieceColor): boolean {
+        const side = color === PieceColor.WHITE ? WHITE : BLACK;
+        return this._squares.some(
+            (code) => code !== EMPTY && code !== DUCK && (code & BLACK) === side
+        );
+    }
+
+    /**
+     * Square of a color's king, or null when it has none
+     */
+    public getKingPosition(color: PieceColor): IPosition | null {
+        const king = this._kings[color === PieceColor.WHITE ? 0 : 1];
+        return king >= 0 ? MoveGenerator.toPosition(king) : null;
+    }
+
+    /**
+     * Check if two generators hold the same position
+     */
+    public equals(other: MoveGenerator): boolean {
+        return (
+            this._side === other._side &&
+            this._castling === other._castling &&
+            this._enPassant === other._enPassant &&
+            this._squares.every((code, square) => other._squares[square] === code) &&
+            this._pockets.every((count, code) => other._pockets[code] === count)
+        );
+    }
+
+    /**
+     * Check if the side to move is in check
+     */
+    public isInCheck(): boolean {
+        const king = this._kings[this._side >> COLOR_SHIFT];
+        return king >= 0 && this.isKingAttacked(king, this._side ^ BLACK);
+    }
+
+    /**
+     * Check if a square is attacked by the given color
+     */
+    public isSquareAttacked(position: IPosition, byColor: PieceColor): boolean {
+        return this.isAttacked(
+            MoveGenerator.toSquare(position),
+            byColor === PieceColor.WHITE ? WHITE : BLACK
+        );
+    }
+
+    /**
+     * Check if a king on the square would be attacked. In atomic chess a king
+     * touching the enemy king is safe: capturing it would blow up both kings.
+     */
+    private isKingAttacked(square: number, by: number): boolean {
+        if (this._atomic) {
+            const enemyKing = this._kings[by >> COLOR_SHIFT];
+            if (enemyKing >= 0 && KING_OFFSETS.includes(enemyKing - square)) {
+                return false;
+            }
+        }
+        return this.isAttacked(square, by);
+    }
+
+    private isAttacked(square: number, by: number): boolean {
+        const squares = this._squares;
+
+        // Pawns attack diagonally forward, so look diagonally backward from the square
+        const pawn = PAWN | by;
+        const pawnRow = by === WHITE ? 16 : -16;
+        for (const side of [-1, 1]) {
+            const from = square + pawnRow + side;
+            if (!(from & 0x88) && squares[from] === pawn) {
+                return true;
+            }
+        }
+
+        const knight = KNIGHT | by;
+        for (const offset of KNIGHT_OFFSETS) {
+            const from = square + offset;
+            if (!(from & 0x88) && squares[from] === knight) {
+                return true;
+            }
+        }
+
+        const king = KING | by;
+        for (const offset of KING_OFFSETS) {
+            const from = square + offset;
+            if (!(from & 0x88) && squares[from] === king) {
+                return true;
+            }
+        }
+
+        return (
+            this.isAttackedAlong(square, DIAGONALS, BISHOP | by, QUEEN | by) ||
+            this.isAttackedAlong(square, ORTHOGONALS, ROOK | by, QUEEN | by) ||
+            (this._hasFairy && this.isAttackedByFairy(square, by))
+        );
+    }
+
+    /**
+     * Check if a registered piece of the given color attacks a square, looking
+     * back from the square along each of its moves
+     */
+    private isAttackedByFairy(square: number, by: number): boolean {
+        const squares = this._squares;
+
+        for (const kind of FAIRY_KINDS) {
+            const { leaps, slides, hops } = FAIRY_MOVES[kind];
+            const piece = kind | by;
+
+            for (const offset of leaps) {
+                const from = square - offset;
+                if (!(from & 0x88) && squares[from] === piece) {
+                    return true;
+                }
+            }
+
+            if (
+                this.isAttackedAlong(
+                    square,
+                    slides.map((offset) => -offset),
+                    piece,
+                    piece
+                )
+            ) {
+                return true;
+            }
+
+            // A hopper lands just beyond its hurdle, so the square behind must hold a piece
+            for (const offset of hops) {
+                const hurdle = square - offset;
+                if (!(hurdle & 0x88) && squares[hurdle] !== EMPTY) {
+                    let from = hurdle - offset;
+                    while (!(from & 0x88) && squares[from] === EMPTY) {
+                        from -= offset;
+                    }
+                    if (!(from & 0x88) && squares[from] === piece) {
+                        return true;
+                    }
+                }
+            }
+        }
+
+        return false;
+    }
+
+    private isAttackedAlong(
+        square: number,
+        directions: number[],
+        slider: number,
+        queen: number
+    ): boolean {
+        for (const direction of directions) {
+            let from = square + direction;
+            while (!(from & 0x88)) {
+                const code = this._squares[from];
+                if (code !== EMPTY) {
+                    if (code === slider || code === queen) {
+                        return true;
+                    }
+                    break;
+                }
+                from += direction;
+            }
+        }
+        return false;
+    }
+
+    // ============================================================================
+    // LEGAL MOVE GENERATION
+    // ============================================================================
+
+    /**
+     * Generate all legal moves for the side to move
+     */
+    public generateLegalMoves(): number[] {
+        if (this._antichess) {
+            return this.generateAntichessMoves();
+        }
+        if (this._noCheck) {
+            return this.generateNoCheckMoves();
+        }
+
+        const moves: number[] = [];
+        const us = this._side;
+        const kingSquare = this._kings[us >> COLOR_SHIFT];
+
+        // Without a king no move is considered legal, unless the side has none to lose (Horde)
+        if (kingSquare < 0) {
+            return this._horde ? this.generateUnrestrictedMoves() : moves;
+        }
+
+        if (this._atomic) {
+            return this.generateAtomicMoves(kingSquare);
+        }
+
+        if (this._hasFairy) {
+            const tested = this.generateTestedMoves(kingSquare);
+            return this._racingKings ? tested.filter((move) => !this.givesCheck(move)) : tested;
+        }
+
+        const checkers = this.analyzeKing(kingSquare);
+        this.generateKingMoves(kingSquare, checkers, moves);
+
+        // In double check only the king may move
+        if (checkers > 1) {
+            return moves;
+        }
+
+        for (let square = 0; square < 128; square++) {
+            if (square & 0x88) {
+                square += 7;
+                continue;
+            }
+
+            const code = this._squares[square];
+            if (code !== EMPTY && (code & BLACK) === us) {
+                this.generatePieceMoves(square, code & KIND_MASK, checkers, moves);
+            }
+        }
+
+        if (this._drops) {
+            this.generateDrops(checkers, moves);
+        }
+
+        return this._racingKings ? moves.filter((move) => !this.givesCheck(move)) : moves;
+    }
+
+    private givesCheck(move: number): boolean {
+        this.makeMove(move);
+        const isCheck = this.isInCheck();
+        this.unmakeMove();
+        return isCheck;
+    }
+
+    /**
+     * Atomic moves: explosions can remove checking pieces, pinned pieces and even
+     * the enemy king, so every move is generated without check or pin masks and
+     * kept if it leaves our king alive and, unless it blows up the enemy king, safe
+     */
+    private generateAtomicMoves(kingSquare: number): number[] {
+        const us = this._side;
+        const moves: number[] = [];
+
+        this._pinnedBy.fill(0);
+
+        // Kings cannot capture, since the explosion would take them too
+        for (const offset of KING_OFFSETS) {
+            const to = kingSquare + offset;
+            if (!(to & 0x88) && this._squares[to] === EMPTY) {
+                moves.push(kingSquare | (to << 7));
+            }
+        }
+        if (!this.isInCheck()) {
+            this.generateCastlingMoves(kingSquare, moves);
+        }
+
+        for (let square = 0; square < 128; square++) {
+            if (square & 0x88) {
+                square += 7;
+                continue;
+            }
+
+            const code = this._squares[square];
+            if (code !== EMPTY && (code & BLACK) === us) {
+                this.generatePieceMoves(square, code & KIND_MASK, 0, moves);
+            }
+        }
+
+        return moves.filter((move) => this.isLegalAtomic(move));
+    }
+
+    /**
+     * Moves with registered pieces about: their attacks are not covered by the
+     * check and pin masks (a hopper's check may even be opened by a piece moving
+     * in front of it), so every move is generated freely and kept if it leaves
+     * our king safe
+     */
+    private generateTestedMoves(kingSquare: number): number[] {
+        const us = this._side;
+        const moves = this.generateUnrestrictedMoves();
+
+        if (!this.isInCheck()) {
+            this.generateCastlingMoves(kingSquare, moves);
+        }
+        if (this._drops) {
+            this.generateDrops(0, moves);
+        }
+
+        return moves.filter((move) => {
+            this.makeMove(move);
+            const king = this._kings[us >> COLOR_SHIFT];
+            const isLegal = king < 0 || !this.isAttacked(king, us ^ BLACK);
+            this.unmakeMove();
+            return isLegal;
+        });
+    }
+
+    /**
+     * Antichess moves: with no check the king moves like any piece; when a capture
+     * is possible only captures may be played
+     */
+    private generateAntichessMoves(): number[] {
+        const moves = this.generateUnrestrictedMoves();
+        const captures = moves.filter((move) => MoveGenerator.isCapture(move));
+        return captures.length > 0 ? captures : moves;
+    }
+
+    /**
+     * Moves without check: nothing is filtered for king safety, and the
+     * king may castle out of, through or into attack
+     */
+    private generateNoCheckMoves(): number[] {
+        const moves = this.generateUnrestrictedMoves();
+        const kingSquare = this._kings[this._side >> COLOR_SHIFT];
+        if (kingSquare >= 0) {
+            this.generateCastlingMoves(kingSquare, moves);
+        }
+        return moves;
+    }
+
+    /**
+     * Every move of the side to move with nothing filtered for king safety and no
+     * castling, for a side whose king is an ordinary piece or that has none
+     */
+    private generateUnrestrictedMoves(): number[] {
+        const us = this._side;
+        const moves: number[] = [];
+
+        this._pinnedBy.fill(0);
+
+        for (let square = 0; square < 128; square++) {
+            if (square & 0x88) {
+                square += 7;
+                continue;
+            }
+
+            const code = this._squares[square];
+            if (code === EMPTY || (code & BLACK) !== us) {
+                continue;
+            }
+
+            if ((code & KIND_MASK) === KING) {
+                this.generateStepMoves(square, KING_OFFSETS, 0, moves);
+            } else {
+                this.generatePieceMoves(square, code & KIND_MASK, 0, moves);
+            }
+        }
+
+        return moves;
+    }
+
+    /**
+     * Moves of a piece other than the king, by its kind
+     */
+    private generatePieceMoves(
+        square: number,
+        kind: number,
+        checkers: number,
+        moves: number[]
+    ): void {
+        switch (kind) {
+            case PAWN:
+                this.generatePawnMoves(square, checkers, moves);
+                break;
+            case KNIGHT:
+                this.generateStepMoves(square, KNIGHT_OFFSETS, checkers, moves);
+                break;
+            case BISHOP:
+                this.generateSlidingMoves(square, DIAGONALS, checkers, moves);
+                break;
+            case ROOK:
+                this.generateSlidingMoves(square, ORTHOGONALS, checkers, moves);
+                break;
+            case QUEEN:
+                this.generateSlidingMoves(square, DIAGONALS, checkers, moves);
+                this.generateSlidingMoves(square, ORTHOGONALS, checkers, moves);
+                break;
+            default: {
+                // A registered piece; the duck has no moves of its own
+                const fairy = FAIRY_MOVES[kind] as IFairyMoves | undefined;
+                if (fairy) {
+                    this.generateStepMoves(square, fairy.leaps, checkers, moves);
+                    this.generateSlidingMoves(square, fairy.slides, checkers, moves);
+                    this.generateHopMoves(square, fairy.hops, checkers, moves);
+                }
+            }
+        }
+    }
+
+    private isLegalAtomic(move: number): boolean {
+        const us = this._side;
+        this.makeMove(move);
+        const king = this._kings[us >> COLOR_SHIFT];
+        const isLegal =
+            king >= 0 &&
+            (this._kings[(us ^ BLACK) >> COLOR_SHIFT] < 0 ||
+                !this.isKingAttacked(king, us ^ BLACK));
+        this.unmakeMove();
+        return isLegal;
+    }
+
+    /**
+     * Find the pieces giving check and the pieces pinned to the king.
+     * Fills the check mask (checking piece plus blocking squares) and marks each
+     * pin ray so a pinned piece may only move along its own ray.
+     * Returns the number of checking pieces.
+     */
+    private analyzeKing(kingSquare: number): number {
+        const squares = this._squares;
+        const us = this._side;
+        const them = us ^ BLACK;
+        let checkers = 0;
+
+        this._checkMask.fill(0);
+        this._pinRays.fill(0);
+        this._pinnedBy.fill(0);
+
+        for (const offset of KNIGHT_OFFSETS) {
+            const square = kingSquare + offset;
+            if (!(square & 0x88) && squares[square] === (KNIGHT | them)) {
+                checkers++;
+                this._checkMask[square] = 1;
+            }
+        }
+
+        const forward = us === WHITE ? -16 : 16;
+        for (const side of [-1, 1]) {
+            const square = kingSquare + forward + side;
+            if (!(square & 0x88) && squares[square] === (PAWN | them)) {
+                checkers++;
+                this._checkMask[square] = 1;
+            }
+        }
+
+        KING_OFFSETS.forEach((direction, index) => {
+            const isDiagonal = DIAGONALS.includes(direction);
+            let blocker = -1;
+
+            for (let square = kingSquare + direction; !(square & 0x88); square += direction) {
+                const code = squares[square];
+                if (code === EMPTY) {
+                    continue;
+                }
+
+                if ((code & BLACK) === us) {
+                    if (blocker >= 0) {
+                        return;
+                    }
+                    blocker = square;
+                    continue;
+                }
+
+                const kind = code & KIND_MASK;
+                if (kind !== QUEEN && kind !== (isDiagonal ? BISHOP : ROOK)) {
+                    return;
+                }
+
+                if (blocker < 0) {
+                    checkers++;
+                    this.markRay(this._checkMask, kingSquare, square, direction, 1);
+                } else {
+                    this.markRay(this._pinRays, kingSquare, square, direction, index + 1);
+                    this._pinnedBy[blocker] = index + 1;
+                }
+                return;
+            }
+        });
+
+        return checkers;
+    }
+
+    private markRay(
+        mask: Uint8Array | Int8Array,
+        kingSquare: number,
+        end: number,
+        direction: number,
+        value: number
+    ): void {
+        for (let square = kingSquare + direction; ; square += direction) {
+            mask[square] = value;
+            if (square === end) {
+                return;
+            }
+        }
+    }
+
+    /**
+     * Check that a non-king move resolves any check and respects pins
+     */
+    private isAllowed(from: number, to: number, checkers: number): boolean {
+        if (checkers > 0 && !this._checkMask[to]) {
+            return false;
+        }
+        const pin = this._pinnedBy[from];
+        return pin === 0 || this._pinRays[to] === pin;
+    }
+
+    /**
+     * Whether a square holds one of the side to move's own pieces or the duck
+     */
+    private isBlocked(target: number): boolean {
+        return target === DUCK || (target !== EMPTY && (target & BLACK) === this._side);
+    }
+
+    private generateKingMoves(kingSquare: number, checkers: number, moves: number[]): void {
+        const squares = this._squares;
+        const us = this._side;
+        const them = us ^ BLACK;
+
+        // Lift the king so squares behind it along a checking ray count as attacked
+        squares[kingSquare] = EMPTY;
+        for (const offset of KING_OFFSETS) {
+            const to = kingSquare + offset;
+            if (to & 0x88) {
+                continue;
+            }
+            const target = squares[to];
+            if (this.isBlocked(target)) {
+                continue;
+            }
+            if (!this.isAttacked(to, them)) {
+                moves.push(kingSquare | (to << 7) | (target !== EMPTY ? FLAG_CAPTURE : 0));
+            }
+        }
+        squares[kingSquare] = KING | us;
+
+        if (checkers === 0) {
+            this.generateCastlingMoves(kingSquare, moves);
+        }
+    }
+
+    private generateCastlingMoves(kingSquare: number, moves: number[]): void {
+        const us = this._side;
+        const row = us === WHITE ? 0x70 : 0x00;
+        const rights =
+            us === WHITE ? [WHITE_KINGSIDE, WHITE_QUEENSIDE] : [BLACK_KINGSIDE, BLACK_QUEENSIDE];
+
+        // Standard chess castles from the e-file only; Chess960 from anywhere on the back rank
+        if ((kingSquare & 0x70) !== row || (!this._chess960 && kingSquare !== row + 4)) {
+            return;
+        }
+
+        [CASTLING_FILES.kingside, CASTLING_FILES.queenside].forEach((files, index) => {
+            const rookSquare = row + this._rookFiles[index];
+            const kingTo = row + files.kingTo;
+
+            if (
+                this._castling & rights[index] &&
+                this.canCastle(kingSquare, kingTo, rookSquare, row + files.rookTo)
+            ) {
+                const to = this._chess960 ? rookSquare : kingTo;
+                moves.push(kingSquare | (to << 7) | FLAG_CASTLE);
+            }
+        });
+    }
+
+    /**
+     * Every square king or rook crosses must be empty apart from the two of them, and
+     * no square the king crosses or lands on attacked. Both are lifted for the attack
+     * test, as a Chess960 rook may shield the king's destination until it moves.
+     */
+    private canCastle(
+        kingSquare: number,
+        kingTo: number,
+        rookSquare: number,
+        rookTo: number
+    ): boolean {
+        const squares = this._squares;
+        const us = this._side;
+        const them = us ^ BLACK;
+
+        if (squares[rookSquare] !== (ROOK | us)) {
+            return false;
+        }
+
+        const low = Math.min(kingSquare, kingTo, rookSquare, rookTo);
+        const high = Math.max(kingSquare, kingTo, rookSquare, rookTo);
+        for (let square = low; square <= high; square++) {
+            if (square !== kingSquare && square !== rookSquare && squares[square] !== EMPTY) {
+                return false;
+            }
+        }
+
+        // Without check the king may castle whatever attacks its path
+        if (this._noCheck) {
+            return true;
+        }
+
+        squares[kingSquare] = EMPTY;
+        squares[rookSquare] = EMPTY;
+
+        // The king may already stand on its destination in Chess960
+        let isSafe = !this.isKingAttacked(kingTo, them);
+        if (kingTo !== kingSquare) {
+            const step = kingTo > kingSquare ? 1 : -1;
+            for (let square = kingSquare + step; isSafe && square !== kingTo; square += step) {
+                isSafe = !this.isKingAttacked(square, them);
+            }
+        }
+
+        squares[kingSquare] = KING | us;
+        squares[rookSquare] = ROOK | us;
+        return isSafe;
+    }
+
+    /**
+     * King destination, rook origin and rook destination of a castling move
+     */
+    private getCastlingSquares(from: number, to: number): [number, number, number] {
+        const row = from & 0x70;
+        return to > from
+            ? [
+                  row + CASTLING_FILES.kingside.kingTo,
+                  row + this._rookFiles[0],
+                  row + CASTLING_FILES.kingside.rookTo
+              ]
+            : [
+                  row + CASTLING_FILES.queenside.kingTo,
+                  row + this._rookFiles[1],
+                  row + CASTLING_FILES.queenside.rookTo
+              ];
+    }
+
+    private generatePawnMoves(from: number, checkers: number, moves: number[]): void {
+        const squares = this._squares;
+        const us = this._side;
+        const forward = us === WHITE ? -16 : 16;
+        const startRow = us === WHITE ? 6 : 1;
+        const firstRow = us === WHITE ? 7 : 0;
+
+        const one = from + forward;
+        if (!(one & 0x88) && squares[one] === EMPTY) {
+            if (this.isAllowed(from, one, checkers)) {
+                this.addPawnMove(from, one, 0, moves);
+            }
+
+            // A double step from the first rank (Horde) cannot be taken en passant
+            const two = one + forward;
+            const row = from >> 4;
+            if (
+                (row === startRow || (this._horde && row === firstRow)) &&
+                squares[two] === EMPTY &&
+                this.isAllowed(from, two, checkers)
+            ) {
+                moves.push(from | (two << 7) | (row === startRow ? FLAG_DOUBLE_PUSH : 0));
+            }
+        }
+
+        for (const side of [-1, 1]) {
+            const to = from + forward + side;
+            if (to & 0x88) {
+                continue;
+            }
+
+            const target = squares[to];
+            if (target !== EMPTY && target !== DUCK && (target & BLACK) !== us) {
+                if (this.isAllowed(from, to, checkers)) {
+                    this.addPawnMove(from, to, FLAG_CAPTURE, moves);
+                }
+            } else if (
+                target === EMPTY &&
+                to === this._enPassant &&
+                this.isLegalEnPassant(from, to)
+            ) {
+                moves.push(from | (to << 7) | FLAG_CAPTURE | FLAG_EN_PASSANT);
+            }
+        }
+    }
+
+    private addPawnMove(from: number, to: number, flags: number, moves: number[]): void {
+        const promotionRow = this._side === WHITE ? 0 : 7;
+        if (to >> 4 !== promotionRow) {
+            moves.push(from | (to << 7) | flags);
+            return;
+        }
+
+        for (const kind of this._antichess ? ANTICHESS_PROMOTION_KINDS : PROMOTION_KINDS) {
+            moves.push(from | (to << 7) | (kind << 14) | flags);
+        }
+    }
+
+    /**
+     * En passant removes two pieces from one rank, which pin masks cannot describe,
+     * so try the capture and look at the king
+     */
+    private isLegalEnPassant(from: number, to: number): boolean {
+        // Atomic moves are all tested once generated, and antichess has no king safety
+        if (this._atomic || this._antichess) {
+            return true;
+        }
+
+        const move = from | (to << 7) | FLAG_CAPTURE | FLAG_EN_PASSANT;
+        this.makeMove(move);
+        const king = this._kings[(this._side ^ BLACK) >> COLOR_SHIFT];
+        const isLegal = king < 0 || !this.isAttacked(king, this._side);
+        this.unmakeMove();
+        return isLegal;
+    }
+
+    private generateStepMoves(
+        from: number,
+        offsets: number[],
+        checkers: number,
+        moves: number[]
+    ): void {
+        for (const offset of offsets) {
+            const to = from + offset;
+            if (to & 0x88) {
+                continue;
+            }
+            const target = this._squares[to];
+            if (this.isBlocked(target)) {
+                continue;
+            }
+            if (this.isAllowed(from, to, checkers)) {
+                moves.push(from | (to << 7) | (target !== EMPTY ? FLAG_CAPTURE : 0));
+            }
+        }
+    }
+
+    private generateSlidingMoves(
+        from: number,
+        directions: number[],
+        checkers: number,
+        moves: number[]
+    ): void {
+        for (const direction of directions) {
+            for (let to = from + direction; !(to & 0x88); to += direction) {
+                const target = this._squares[to];
+                if (this.isBlocked(target)) {
+                    break;
+                }
+                if (this.isAllowed(from, to, checkers)) {
+                    moves.push(from | (to << 7) | (target !== EMPTY ? FLAG_CAPTURE : 0));
+                }
+                if (target !== EMPTY) {
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Hops over the first piece in each direction, of either color or the duck,
+     * onto the square just beyond it
+     */
+    private generateHopMoves(
+        from: number,
+        directions: number[],
+        checkers: number,
+        moves: number[]
+    ): void {
+        for (const direction of directions) {
+            let hurdle = from + direction;
+            while (!(hurdle & 0x88) && this._squares[hurdle] === EMPTY) {
+                hurdle += direction;
+            }
+
+            const to = hurdle + direction;
+            if (hurdle & 0x88 || to & 0x88) {
+                continue;
+            }
+            const target = this._squares[to];
+            if (!this.isBlocked(target) && this.isAllowed(from, to, checkers)) {
+                moves.push(from | (to << 7) | (target !== EMPTY ? FLAG_CAPTURE : 0));
+            }
+        }
+    }
+
+    /**
+     * Drops onto empty squares; in check only onto the checking ray, and pawns
+     * never onto the first or last rank
+     */
+    private generateDrops(checkers: number, moves: number[]): void {
+        const us = this._side;
+
+        for (const kind of [...DROP_KINDS, ...FAIRY_KINDS]) {
+            if (this._pockets[kind | us] === 0) {
+                continue;
+            }
+
+            for (let square = 0; square < 128; square++) {
+                if (square & 0x88) {
+                    square += 7;
+                    continue;
+                }
+
+                const row = square >> 4;
+                if (
+                    this._squares[square] !== EMPTY ||
+                    (checkers > 0 && !this._checkMask[square]) ||
+                    (kind === PAWN && (row === 0 || row === 7))
+                ) {
+                    continue;
+                }
+                moves.push(square | (square << 7) | (kind << 14) | FLAG_DROP);
+            }
+        }
+    }
+
+    // ============================================================================
+    // MAKE / UNMAKE
+    // ============================================================================
+
+    /**
+     * Play a move generated for the current position
+     */
+    public makeMove(move: number): void {
+        const squares = this._squares;
+        const us = this._side;
+        const from = move & 0x7f;
+        const to = (move >> 7) & 0x7f;
+        const piece = squares[from];
+
+        if (move & FLAG_DROP) {
+            const dropped = ((move >> 14) & KIND_MASK) | us;
+            this._undoStack.push({
+                move,
+                captured: EMPTY,
+                castling: this._castling,
+                enPassant: this._enPassant
+            });
+
+            squares[to] = dropped;
+            this._pockets[dropped]--;
+            this._enPassant = -1;
+            this._side = us ^ BLACK;
+            return;
+        }
+
+        if (move & FLAG_CASTLE) {
+            const [kingTo, rookFrom, rookTo] = this.getCastlingSquares(from, to);
+            this._undoStack.push({
+                move,
+                captured: EMPTY,
+                castling: this._castling,
+                enPassant: this._enPassant
+            });
+
+            // Lift both first: in Chess960 either may land on the other's square
+            squares[from] = EMPTY;
+            squares[rookFrom] = EMPTY;
+            squares[kingTo] = KING | us;
+            squares[rookTo] = ROOK | us;
+
+            this._kings[us >> COLOR_SHIFT] = kingTo;
+            this._castling &= this._castlingMask[from];
+            this._enPassant = -1;
+            this._side = us ^ BLACK;
+            return;
+        }
+
+        const captureSquare = move & FLAG_EN_PASSANT ? to - (us === WHITE ? -16 : 16) : to;
+        const captured = squares[captureSquare];
+        const exploded = this._atomic && move & FLAG_CAPTURE ? [] : undefined;
+        const capturedPromoted = this._promoted[captureSquare];
+        this._undoStack.push({
+            move,
+            captured,
+            castling: this._castling,
+            enPassant: this._enPassant,
+            exploded,
+            capturedPromoted
+        });
+
+        const promotion = (move >> 14) & KIND_MASK;
+        if (this._drops) {
+            // A promoted piece goes back to the pocket as a pawn
+            if (captured !== EMPTY) {
+                this._pockets[(capturedPromoted ? PAWN : captured & KIND_MASK) | us]++;
+            }
+            this._promoted[to] = promotion ? 1 : this._promoted[from];
+            this._promoted[from] = 0;
+        }
+
+        squares[captureSquare] = EMPTY;
+        squares[to] = promotion ? promotion | us : piece;
+        squares[from] = EMPTY;
+
+        if ((piece & KIND_MASK) === KING) {
+            this._kings[us >> COLOR_SHIFT] = to;
+        }
+        if ((captured & KIND_MASK) === KING) {
+            this._kings[(captured & BLACK) >> COLOR_SHIFT] = -1;
+        }
+
+        this._castling &= this._castlingMask[from] & this._castlingMask[to];
+        this._enPassant = move & FLAG_DOUBLE_PUSH ? (from + to) >> 1 : -1;
+        this._side = us ^ BLACK;
+
+        if (exploded) {
+            this.explode(to, exploded);
+        }
+    }
+
+    /**
+     * Remove the capturing piece and the pieces but pawns around it, noting each
+     * for unmakeMove
+     */
+    private explode(center: number, exploded: { square: number; code: number }[]): void {
+        const squares = this._squares;
+
+        for (const square of [center, ...KING_OFFSETS.map((offset) => center + offset)]) {
+            const code = square & 0x88 ? EMPTY : squares[square];
+            if (code === EMPTY || (square !== center && (code & KIND_MASK) === PAWN)) {
+                continue;
+            }
+
+            exploded.push({ square, code });
+            squares[square] = EMPTY;
+            this._castling &= this._castlingMask[square];
+            if ((code & KIND_MASK) === KING) {
+                this._kings[(code & BLACK) >> COLOR_SHIFT] = -1;
+            }
+        }
+    }
+
+    /**
+     * Take back the last move made
+     */
+    public unmakeMove(): void {
+        const entry = this._undoStack.pop();
+        if (!entry) {
+            return;
+        }
+
+        const squares = this._squares;
+        const { move } = entry;
+        const us = this._side ^ BLACK;
+        const from = move & 0x7f;
+        const to = (move >> 7) & 0x7f;
+
+        this._castling = entry.castling;
+        this._enPassant = entry.enPassant;
+        this._side = us;
+
+        if (move & FLAG_DROP) {
+            squares[to] = EMPTY;
+            this._pockets[((move >> 14) & KIND_MASK) | us]++;
+            return;
+        }
+
+        // Put exploded pieces back first, the capturing piece among them
+        for (const { square, code } of entry.exploded ?? []) {
+            squares[square] = code;
+            if ((code & KIND_MASK) === KING) {
+                this._kings[(code & BLACK) >> COLOR_SHIFT] = square;
+            }
+        }
+
+        if (move & FLAG_CASTLE) {
+            const [kingTo, rookFrom, rookTo] = this.getCastlingSquares(from, to);
+            squares[kingTo] = EMPTY;
+            squares[rookTo] = EMPTY;
+            squares[from] = KING | us;
+            squares[rookFrom] = ROOK | us;
+            this._kings[us >> COLOR_SHIFT] = from;
+            return;
+        }
+
+        const piece = (move >> 14) & KIND_MASK ? PAWN | us : squares[to];
+
+        squares[from] = piece;
+        squares[to] = EMPTY;
+        const captureSquare = move & FLAG_EN_PASSANT ? to - (us === WHITE ? -16 : 16) : to;
+        squares[captureSquare] = entry.captured;
+
+        if ((piece & KIND_MASK) === KING) {
+            this._kings[us >> COLOR_SHIFT] = from;
+        }
+        if ((entry.captured & KIND_MASK) === KING) {
+            this._kings[(entry.captured & BLACK) >> COLOR_SHIFT] = captureSquare;
+        }
+
+        if (this._drops) {
+            const { captured, capturedPromoted = 0 } = entry;
+            if (captured !== EMPTY) {
+                this._pockets[(capturedPromoted ? PAWN : captured & KIND_MASK) | us]--;
+            }
+            this._promoted[from] = (move >> 14) & KIND_MASK ? 0 : this._promoted[to];
+            this._promoted[to] = capturedPromoted;
+        }
+    }
+
+    // ============================================================================
+    // PERFT
+    // ============================================================================
+
+    /**
+     * Count the leaf nodes of the legal move tree to the given depth
+     */
+    public perft(depth: number): number {
+        if (depth <= 0) {
+            return 1;
+        }
+
+        const moves = this.generateLegalMoves();
+        if (depth === 1) {
+            return moves.length;
+        }
+
+        let nodes = 0;
+        for (const move of moves) {
+            this.makeMove(move);
+            nodes += this.perft(depth - 1);
+            this.unmakeMove();
+        }
+        return nodes;
+    }
+}
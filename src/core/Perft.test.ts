@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { PerftSuite } from './Perft.js';
+
+describe('PerftSuite', () => {
+    it.each(PerftSuite.CASES)('$name', (perftCase) => {
+        const result = PerftSuite.runCase(perftCase);
+
+        expect(result.executionErrors).toEqual([]);
+        expect(result.nodes).toBe(perftCase.nodes);
+        expect(result.passed).toBe(true);
+    });
+
+    it('formats a divide as sorted move lines and a total', () => {
+        expect(PerftSuite.formatDivide({ e2e4: 20, a2a3: 20 })).toBe(
+            'a2a3: 20\ne2e4: 20\n\nNodes searched: 40'
+        );
+    });
+});
@@ -0,0 +1,255 @@
+/**
+ * Perft Suite
+ * Well-known perft positions with published node counts, run through Game
+ * to catch regressions in move generation and move execution
+ */
+
+import { Game } from './Game.js';
+import { MoveGenerator } from './MoveGenerator.js';
+
+export interface IPerftCase {
+    readonly name: string;
+    readonly fen: string;
+    readonly depth: number;
+    readonly nodes: number;
+    readonly chess960?: boolean;
+}
+
+export interface IPerftResult {
+    readonly perftCase: IPerftCase;
+    readonly nodes: number;
+    readonly executionErrors: string[]; // root moves Game plays differently from the generator
+    readonly passed: boolean;
+}
+
+export class PerftSuite {
+    // Counts from the Chess Programming Wiki and Martin Sedlak's edge-case collection
+    public static readonly CASES: readonly IPerftCase[] = [
+        {
+            name: 'Start position',
+            fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+            depth: 4,
+            nodes: 197281
+        },
+        {
+            name: 'Kiwipete',
+            fen: 'r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1',
+            depth: 3,
+            nodes: 97862
+        },
+        {
+            name: 'Rook endgame with en passant pins',
+            fen: '8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1',
+            depth: 5,
+            nodes: 674624
+        },
+        {
+            name: 'Promotions and castling',
+            fen: 'r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1',
+            depth: 4,
+            nodes: 422333
+        },
+        {
+            name: 'Promotions and castling (mirrored)',
+            fen: 'r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1',
+            depth: 4,
+            nodes: 422333
+        },
+        {
+            name: 'Promotion with discovered attacks',
+            fen: 'rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8',
+            depth: 3,
+            nodes: 62379
+        },
+        {
+            name: 'Symmetrical middlegame',
+            fen: 'r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10',
+            depth: 3,
+            nodes: 89890
+        },
+        {
+            name: 'Illegal en passant (pinned on the rank)',
+            fen: '3k4/3p4/8/K1P4r/8/8/8/8 b - - 0 1',
+            depth: 6,
+            nodes: 1134888
+        },
+        {
+            name: 'Illegal en passant (pinned on the diagonal)',
+            fen: '8/8/4k3/8/2p5/8/B2P2K1/8 w - - 0 1',
+            depth: 6,
+            nodes: 1015133
+        },
+        {
+            name: 'En passant capture gives check',
+            fen: '8/8/1k6/2b5/2pP4/8/5K2/8 b - d3 0 1',
+            depth: 6,
+            nodes: 1440467
+        },
+        {
+            name: 'Short castling gives check',
+            fen: '5k2/8/8/8/8/8/8/4K2R w K - 0 1',
+            depth: 6,
+            nodes: 661072
+        },
+        {
+            name: 'Long castling gives check',
+            fen: '3k4/8/8/8/8/8/8/R3K3 w Q - 0 1',
+            depth: 6,
+            nodes: 803711
+        },
+        {
+            name: 'Castling rights lost by captures',
+            fen: 'r3k2r/1b4bq/8/8/8/8/7B/R3K2R w KQkq - 0 1',
+            depth: 4,
+            nodes: 1274206
+        },
+        {
+            name: 'Castling prevented by attacks',
+            fen: 'r3k2r/8/3Q4/8/8/5q2/8/R3K2R b KQkq - 0 1',
+            depth: 4,
+            nodes: 1720476
+        },
+        {
+            name: 'Promote out of check',
+            fen: '2K2r2/4P3/8/8/8/8/8/3k4 w - - 0 1',
+            depth: 6,
+            nodes: 3821001
+        },
+        {
+            name: 'Discovered check',
+            fen: '8/8/1P2K3/8/2n5/1q6/8/5k2 b - - 0 1',
+            depth: 5,
+            nodes: 1004658
+        },
+        {
+            name: 'Promote to give check',
+            fen: '4k3/1P6/8/8/8/8/K7/8 w - - 0 1',
+            depth: 6,
+            nodes: 217342
+        },
+        {
+            name: 'Underpromote to give check',
+            fen: '8/P1k5/K7/8/8/8/8/8 w - - 0 1',
+            depth: 6,
+            nodes: 92683
+        },
+        {
+            name: 'Self stalemate',
+            fen: 'K1k5/8/P7/8/8/8/8/8 w - - 0 1',
+            depth: 6,
+            nodes: 2217
+        },
+        {
+            name: 'Stalemate and checkmate by promotion',
+            fen: '8/k1P5/8/1K6/8/8/8/8 w - - 0 1',
+            depth: 7,
+            nodes: 567584
+        },
+        {
+            name: 'Stalemate and checkmate by pieces',
+            fen: '8/8/2k5/5q2/5n2/8/5K2/8 b - - 0 1',
+            depth: 4,
+            nodes: 23527
+        },
+        {
+            name: 'Chess960: castling on both wings',
+            fen: 'bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9',
+            depth: 4,
+            nodes: 326672,
+            chess960: true
+        },
+        {
+            name: 'Chess960: rooks beside the king',
+            fen: '2nnrbkr/p1qppppp/8/1ppb4/6PP/3PP3/PPP2P2/BQNNRBKR w HEhe - 1 9',
+            depth: 4,
+            nodes: 667366,
+            chess960: true
+        },
+        {
+            name: 'Chess960: queenside rights only',
+            fen: 'b1q1rrkb/pppppppp/3nn3/8/P7/1PPP4/4PPPP/BQNNRKRB w GE - 1 9',
+            depth: 4,
+            nodes: 273318,
+            chess960: true
+        },
+        {
+            name: 'Chess960: king off its start square',
+            fen: 'qbbnnrkr/2pp2pp/p7/1p2pp2/8/P3PP2/1PPP1KPP/QBBNNR1R w hf - 0 9',
+            depth: 4,
+            nodes: 382958,
+            chess960: true
+        },
+        {
+            name: 'Chess960: open king position',
+            fen: '1nbbnrkr/p1p1ppp1/3p4/1p3P1p/3Pq2P/8/PPP1P1P1/QNBBNRKR w HFhf - 0 9',
+            depth: 4,
+            nodes: 1171749,
+            chess960: true
+        }
+    ];
+
+    /**
+     * Run the given cases (all by default)
+     */
+    public static run(cases: readonly IPerftCase[] = PerftSuite.CASES): IPerftResult[] {
+        return cases.map((perftCase) => PerftSuite.runCase(perftCase));
+    }
+
+    /**
+     * Compare the perft count of one case and check how Game executes its root moves
+     */
+    public static runCase(perftCase: IPerftCase): IPerftResult {
+        const { fen, depth, chess960 } = perftCase;
+        const nodes = Game.fromFen(fen, chess960).perft(depth);
+        const executionErrors = PerftSuite.checkMoveExecution(fen, chess960);
+
+        return {
+            perftCase,
+            nodes,
+            executionErrors,
+            passed: nodes === perftCase.nodes && executionErrors.length === 0
+        };
+    }
+
+    /**
+     * Play every legal move of a position through Game and compare the resulting
+     * position with the move generator's, covering castling, en passant and promotion.
+     * Returns the UCI moves whose results differ.
+     */
+    public static checkMoveExecution(fen: string, chess960 = false): string[] {
+        const game = Game.fromFen(fen, chess960);
+        const generator = MoveGenerator.fromBoard(game.board, game.currentPlayer, game.isChess960);
+        const errors: string[] = [];
+
+        for (const move of generator.generateLegalMoves()) {
+            const uci = game.toUci(generator.toMove(move));
+            const played = Game.fromFen(fen, game.isChess960);
+            const result = played.playUci(uci);
+
+            generator.makeMove(move);
+            const position = MoveGenerator.fromBoard(
+                played.board,
+                played.currentPlayer,
+                played.isChess960
+            );
+            if (!result.success || !position.equals(generator)) {
+                errors.push(uci);
+            }
+            generator.unmakeMove();
+        }
+
+        return errors;
+    }
+
+    /**
+     * Format a perft divide as "move: nodes" lines followed by the total,
+     * the layout most engines print for comparison
+     */
+    public static formatDivide(divide: Record<string, number>): string {
+        const moves = Object.keys(divide).sort();
+        const total = moves.reduce((sum, move) => sum + divide[move], 0);
+        const lines = moves.map((move) => `${move}: ${divide[move]}`);
+
+        return [...lines, '', `Nodes searched: ${total}`].join('\n');
+    }
+}
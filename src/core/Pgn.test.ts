@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from './Game.js';
+import { PgnError, PgnParser, PgnWriter } from './Pgn.js';
+import { Variant } from '../types/index.js';
+
+const DRAWN_GAME = `[Event "Club Championship"]
+[Site "Berlin"]
+[Date "2024.03.01"]
+[Round "3"]
+[White "Anna"]
+[Black "Ben"]
+[Result "1/2-1/2"]
+[ECO "C50"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 1/2-1/2
+`;
+
+const SECOND_GAME = `[Event "Club Championship"]
+[White "Carl"]
+[Black "Dora"]
+[Result "0-1"]
+
+1. f3 e5 2. g4 Qh4# 0-1
+`;
+
+describe('PgnParser and PgnWriter', () => {
+    it('keeps the tags and result of a loaded game when writing it again', () => {
+        const game = new Game();
+        PgnParser.load(game, DRAWN_GAME);
+        const tags = PgnParser.parse(PgnWriter.write(game))[0].tags;
+
+        expect(tags).toMatchObject({
+            Event: 'Club Championship',
+            Site: 'Berlin',
+            Date: '2024.03.01',
+            Round: '3',
+            White: 'Anna',
+            Black: 'Ben',
+            Result: '1/2-1/2',
+            ECO: 'C50'
+        });
+    });
+
+    it('drops the recorded result once the game goes on', () => {
+        const game = new Game();
+        PgnParser.load(game, DRAWN_GAME);
+        game.playUci('d2d3');
+
+        expect(PgnWriter.getResult(game)).toBe('*');
+    });
+
+    it('loads any game of a multi-game file', () => {
+        const game = new Game();
+        const pgn = PgnParser.load(game, `${DRAWN_GAME}\n${SECOND_GAME}`, 1);
+
+        expect(pgn.tags.White).toBe('Carl');
+        expect(game.moveHistory).toHaveLength(4);
+        expect(PgnWriter.getResult(game)).toBe('0-1');
+    });
+
+    it.each([
+        [Variant.CRAZYHOUSE, ['e2e4', 'd7d5', 'e4d5', 'd8d5', 'P@e4', 'd5e4']],
+        [Variant.ATOMIC, ['e2e4', 'd7d5', 'e4d5', 'g8f6', 'd1e2']],
+        [Variant.THREE_CHECK, ['e2e4', 'e7e5', 'f1c4', 'd7d6', 'c4f7']]
+    ])('loads a %s game back with its variant', (variant, moves) => {
+        const game = new Game();
+        game.setVariant(variant);
+        game.reset();
+        for (const uci of moves) {
+            expect(game.playUci(uci).success).toBe(true);
+        }
+
+        const loaded = new Game();
+        PgnParser.load(loaded, PgnWriter.write(game));
+
+        expect(loaded.variant).toBe(variant);
+        expect(loaded.toFen()).toBe(game.toFen());
+    });
+
+    it('rejects a game of an unknown variant', () => {
+        const pgn = '[Variant "Shogi"]\n\n1. e4 *\n';
+
+        expect(() => PgnParser.load(new Game(), pgn)).toThrow(PgnError);
+    });
+});
@@ -0,0 +1,658 @@
+/**
+ * PGN (Portable Game Notation) Support
+ * Writes games as PGN with the Seven Tag Roster, comments and clock annotations,
+ * and parses PGN files back into games replayed through Game
+ */
+
+import type { Game } from './Game.js';
+import { type IHistorySnapshot, NotationConverter, SanError } from './GameHistory.js';
+import { ChessClock } from './ChessClock.js';
+import { VARIANT_RULES } from '../variants/index.js';
+import { type IMove, type ITimeControl, PieceColor, Variant } from '../types/index.js';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface IPgnMove {
+    readonly san: string;
+    readonly nags: number[];
+    readonly comment?: string;
+    readonly clock?: number;
+    readonly variations: IPgnMove[][];
+}
+
+export interface IPgnGame {
+    readonly tags: Record<string, string>;
+    readonly moves: IPgnMove[];
+    readonly result: PgnResult;
+    readonly comment?: string; // comment before the first move
+}
+
+/**
+ * Tags and result of a loaded PGN game, kept on the Game so an export repeats them
+ */
+export interface IPgnHeader {
+    readonly tags: Readonly<Record<string, string>>;
+    readonly result: PgnResult;
+    readonly plies: number; // moves the game held; its result stands until another is played
+}
+
+export interface IPgnParseOptions {
+    readonly preserveVariations?: boolean;
+}
+
+/**
+ * Error thrown for malformed PGN or moves that cannot be replayed
+ */
+export class PgnError extends Error {
+    public readonly ply: number | null;
+
+    constructor(message: string, ply: number | null = null) {
+        super(message);
+        this.name = 'PgnError';
+        this.ply = ply;
+    }
+}
+
+export interface IPgnExportOptions {
+    readonly event?: string;
+    readonly site?: string;
+    readonly round?: string;
+    readonly date?: Date;
+    readonly extraTags?: Readonly<Record<string, string>>;
+    readonly maxLineLength?: number;
+}
+
+export class PgnWriter {
+    private static readonly DEFAULT_LINE_LENGTH = 80;
+
+    /**
+     * Serialize the full game (all history snapshots) to PGN
+     */
+    public static write(game: Game, options: IPgnExportOptions = {}): string {
+        const snapshots = game.history.getSnapshots();
+        const result = this.getResult(game);
+
+        const tags = this.buildTags(game, snapshots, result, options);
+        const tagSection = Object.entries(tags)
+            .map(([name, value]) => `[${name} "${this.escapeTagValue(value)}"]`)
+            .join('\n');
+
+        const tokens = [...this.buildMoveTokens(snapshots), result];
+        const moveSection = this.wrapTokens(
+            tokens,
+            options.maxLineLength ?? this.DEFAULT_LINE_LENGTH
+        );
+
+        return `${tagSection}\n\n${moveSection}\n`;
+    }
+
+    /**
+     * Get the PGN result token for the game's current status; a loaded game that
+     * did not end on the board (a resignation or agreed draw) keeps its recorded result
+     */
+    public static getResult(game: Game): PgnResult {
+        if (!game.isGameOver()) {
+            const header = game.pgnHeader;
+            return header && header.plies === game.moveHistory.length ? header.result : '*';
+        }
+
+        const winner = game.getWinner();
+        if (winner === PieceColor.WHITE) {
+            return '1-0';
+        }
+        if (winner === PieceColor.BLACK) {
+            return '0-1';
+        }
+        return '1/2-1/2';
+    }
+
+    // ============================================================================
+    // TAGS
+    // ============================================================================
+
+    private static buildTags(
+        game: Game,
+        snapshots: IHistorySnapshot[],
+        result: PgnResult,
+        options: IPgnExportOptions
+    ): Record<string, string> {
+        const players = game.settings?.players;
+        const loaded = game.pgnHeader?.tags ?? {};
+        const startTime = snapshots[0]?.timestamp;
+        const date = options.date ?? (startTime !== undefined ? new Date(startTime) : null);
+
+        // Seven Tag Roster, in the order required by the standard; a loaded game keeps its own
+        const tags: Record<string, string> = {
+            Event: options.event ?? loaded.Event ?? 'Casual Game',
+            Site: options.site ?? loaded.Site ?? '?',
+            Date: options.date || !loaded.Date ? this.formatDate(date) : loaded.Date,
+            Round: options.round ?? loaded.Round ?? '-',
+            White: loaded.White ?? players?.white.name ?? '?',
+            Black: loaded.Black ?? players?.black.name ?? '?',
+            Result: result
+        };
+
+        const white = game.getTimeControl(PieceColor.WHITE);
+        const black = game.getTimeControl(PieceColor.BLACK);
+        if (white && black) {
+            const whiteTag = this.formatTimeControl(white);
+            const blackTag = this.formatTimeControl(black);
+
+            // Time-odds games record each side's control separately
+            if (whiteTag === blackTag) {
+                tags.TimeControl = whiteTag;
+            } else {
+                tags.WhiteTimeControl = whiteTag;
+                tags.BlackTimeControl = blackTag;
+            }
+        }
+
+        if (game.isChess960) {
+            tags.Variant = 'Chess960';
+        } else if (game.variant !== Variant.STANDARD) {
+            tags.Variant = game.rules.name;
+        }
+
+        if (game.startFen) {
+            tags.SetUp = '1';
+            tags.FEN = game.startFen;
+        }
+
+        // Further tags of a loaded game (ratings, ECO code...) follow the ones written here
+        const kept = Object.fromEntries(Object.entries(loaded).filter(([name]) => !(name in tags)));
+
+        return { ...tags, ...kept, ...options.extraTags };
+    }
+
+    /**
+     * Format a time control in TimeControl tag syntax, e.g. "40/5400:1800+30"
+     * Delays have no PGN representation and are left out
+     */
+    private static formatTimeControl(timeControl: ITimeControl): string {
+        return ChessClock.getStages(timeControl)
+            .map(({ time, increment, moves }) => {
+                if (!moves) {
+                    return `${time}+${increment}`;
+                }
+                return increment ? `${moves}/${time}+${increment}` : `${moves}/${time}`;
+            })
+            .join(':');
+    }
+
+    private static formatDate(date: Date | null): string {
+        if (!date) {
+            return '????.??.??';
+        }
+
+        const month = String(date.getMonth() + 1).padStart(2, '0');
+        const day = String(date.getDate()).padStart(2, '0');
+        return `${date.getFullYear()}.${month}.${day}`;
+    }
+
+    private static escapeTagValue(value: string): string {
+        return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    }
+
+    // ============================================================================
+    // MOVE TEXT
+    // ============================================================================
+
+    private static buildMoveTokens(snapshots: IHistorySnapshot[]): string[] {
+        const tokens: string[] = [];
+        const initialBoard = snapshots[0]?.gameState.board;
+        let moveNumber = initialBoard?.fullMoveNumber ?? 1;
+        let color = initialBoard?.currentPlayer ?? PieceColor.WHITE;
+        let needsNumber = true;
+
+        if (snapshots[0]?.comment) {
+            tokens.push(this.formatComment(snapshots[0].comment));
+        }
+
+        for (const snapshot of snapshots.slice(1)) {
+            if (color === PieceColor.WHITE) {
+                tokens.push(`${moveNumber}.`);
+            } else if (needsNumber) {
+                tokens.push(`${moveNumber}...`);
+            }
+
+            tokens.push(snapshot.notation);
+            needsNumber = false;
+
+            const comment = this.buildComment(snapshot);
+            if (comment) {
+                tokens.push(comment);
+                // Black's move number must be repeated after an annotation
+                needsNumber = true;
+            }
+
+            if (color === PieceColor.BLACK) {
+                moveNumber++;
+            }
+            color = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        }
+
+        return tokens;
+    }
+
+    private static buildComment(snapshot: IHistorySnapshot): string | null {
+        const parts: string[] = [];
+
+        if (snapshot.clock !== undefined) {
+            parts.push(`[%clk ${this.formatClock(snapshot.clock)}]`);
+        }
+        if (snapshot.comment) {
+            parts.push(snapshot.comment);
+        }
+
+        return parts.length > 0 ? this.formatComment(parts.join(' ')) : null;
+    }
+
+    private static formatComment(text: string): string {
+        // Braces cannot be escaped inside PGN comments
+        return `{${text.replace(/}/g, ')')}}`;
+    }
+
+    /**
+     * Format remaining seconds as H:MM:SS for %clk annotations
+     */
+    private static formatClock(seconds: number): string {
+        const total = Math.max(0, Math.floor(seconds));
+        const hours = Math.floor(total / 3600);
+        const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, '0');
+        const secs = String(total % 60).padStart(2, '0');
+        return `${hours}:${minutes}:${secs}`;
+    }
+
+    private static wrapTokens(tokens: string[], maxLineLength: number): string {
+        const lines: string[] = [];
+        let line = '';
+
+        for (const token of tokens) {
+            if (line && line.length + 1 + token.length > maxLineLength) {
+                lines.push(line);
+                line = token;
+            } else {
+                line = line ? `${line} ${token}` : token;
+            }
+        }
+
+        if (line) {
+            lines.push(line);
+        }
+
+        return lines.join('\n');
+    }
+}
+
+type PgnToken =
+    | { readonly kind: 'tag'; readonly name: string; readonly value: string }
+    | { readonly kind: 'comment'; readonly value: string }
+    | { readonly kind: 'nag'; readonly value: number }
+    | { readonly kind: 'open' | 'close' }
+    | { readonly kind: 'result'; readonly value: PgnResult }
+    | { readonly kind: 'san'; readonly value: string };
+
+interface IMutablePgnMove {
+    san: string;
+    nags: number[];
+    comment?: string;
+    clock?: number;
+    variations: IMutablePgnMove[][];
+}
+
+export class PgnParser {
+    private static readonly SUFFIX_NAGS: Record<string, number> = {
+        '!': 1,
+        '?': 2,
+        '!!': 3,
+        '??': 4,
+        '!?': 5,
+        '?!': 6
+    };
+
+    private static readonly RESULTS: readonly PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+    // ============================================================================
+    // PARSING
+    // ============================================================================
+
+    /**
+     * Parse a PGN file containing one or more games
+     */
+    public static parse(text: string, options: IPgnParseOptions = {}): IPgnGame[] {
+        const tokens = this.tokenize(text);
+        const games: IPgnGame[] = [];
+        let index = 0;
+
+        while (index < tokens.length) {
+            const { game, next } = this.parseGame(tokens, index, options);
+            games.push(game);
+            index = next;
+        }
+
+        return games;
+    }
+
+    private static parseGame(
+        tokens: PgnToken[],
+        start: number,
+        options: IPgnParseOptions
+    ): { game: IPgnGame; next: number } {
+        const tags: Record<string, string> = {};
+        let index = start;
+
+        while (index < tokens.length) {
+            const token = tokens[index];
+            if (token.kind !== 'tag') {
+                break;
+            }
+            tags[token.name] = token.value;
+            index++;
+        }
+
+        let comment: string | undefined;
+        while (tokens[index]?.kind === 'comment') {
+            comment = this.joinComments(comment, (tokens[index] as { value: string }).value);
+            index++;
+        }
+
+        const line = this.parseLine(tokens, index, 0, options);
+        index = line.next;
+
+        let result: PgnResult = '*';
+        const token = tokens[index];
+        if (token?.kind === 'result') {
+            result = token.value;
+            index++;
+        }
+
+        return {
+            game: { tags, moves: line.moves, result, comment },
+            next: index
+        };
+    }
+
+    /**
+     * Parse a sequence of moves up to a result, a closing parenthesis or the next game
+     */
+    private static parseLine(
+        tokens: PgnToken[],
+        start: number,
+        depth: number,
+        options: IPgnParseOptions
+    ): { moves: IMutablePgnMove[]; next: number } {
+        const moves: IMutablePgnMove[] = [];
+        let index = start;
+
+        while (index < tokens.length) {
+            const token = tokens[index];
+            const last = moves[moves.length - 1];
+
+            if (token.kind === 'tag' || token.kind === 'result') {
+                if (depth > 0) {
+                    throw new PgnError('Unterminated variation');
+                }
+                break;
+            }
+
+            if (token.kind === 'close') {
+                if (depth === 0) {
+                    throw new PgnError("Unexpected ')' outside a variation");
+                }
+                break;
+            }
+
+            index++;
+
+            switch (token.kind) {
+                case 'san':
+                    moves.push({ san: token.value, nags: [], variations: [] });
+                    break;
+                case 'nag':
+                    last?.nags.push(token.value);
+                    break;
+                case 'comment':
+                    if (last) {
+                        this.attachComment(last, token.value);
+                    }
+                    break;
+                case 'open': {
+                    const variation = this.parseLine(tokens, index, depth + 1, options);
+                    if (tokens[variation.next]?.kind !== 'close') {
+                        throw new PgnError('Unterminated variation');
+                    }
+                    index = variation.next + 1;
+                    if (last && options.preserveVariations) {
+                        last.variations.push(variation.moves);
+                    }
+                    break;
+                }
+            }
+        }
+
+        if (depth > 0 && index >= tokens.length) {
+            throw new PgnError('Unterminated variation');
+        }
+
+        return { moves, next: index };
+    }
+
+    /**
+     * Attach a comment to a move, extracting an embedded [%clk] command
+     */
+    private static attachComment(move: IMutablePgnMove, text: string): void {
+        const clockMatch = /\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/.exec(text);
+        if (clockMatch) {
+            const [, hours, minutes, seconds] = clockMatch;
+            move.clock = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+        }
+
+        const remaining = text.replace(/\[%[^\]]*\]/g, '').trim();
+        if (remaining) {
+            move.comment = this.joinComments(move.comment, remaining);
+        }
+    }
+
+    private static joinComments(existing: string | undefined, text: string): string {
+        return existing ? `${existing} ${text}` : text;
+    }
+
+    // ============================================================================
+    // TOKENIZER
+    // ============================================================================
+
+    private static tokenize(text: string): PgnToken[] {
+        const tokens: PgnToken[] = [];
+        let index = 0;
+
+        while (index < text.length) {
+            const char = text[index];
+            const lineStart = index === 0 || text[index - 1] === '\n';
+
+            if (/\s/.test(char)) {
+                index++;
+            } else if (char === '%' && lineStart) {
+                // Escape mechanism: the whole line is ignored
+                index = this.findLineEnd(text, index);
+            } else if (char === ';') {
+                const end = this.findLineEnd(text, index);
+                tokens.push({ kind: 'comment', value: text.slice(index + 1, end).trim() });
+                index = end;
+            } else if (char === '{') {
+                const end = text.indexOf('}', index);
+                if (end === -1) {
+                    throw new PgnError('Unterminated comment');
+                }
+                tokens.push({ kind: 'comment', value: text.slice(index + 1, end).trim() });
+                index = end + 1;
+            } else if (char === '[') {
+                index = this.readTag(text, index, tokens);
+            } else if (char === '(' || char === ')') {
+                tokens.push({ kind: char === '(' ? 'open' : 'close' });
+                index++;
+            } else if (char === '$') {
+                const match = /^\$(\d+)/.exec(text.slice(index));
+                if (!match) {
+                    throw new PgnError(`Malformed NAG at offset ${index}`);
+                }
+                tokens.push({ kind: 'nag', value: Number(match[1]) });
+                index += match[0].length;
+            } else {
+                index = this.readSymbol(text, index, tokens);
+            }
+        }
+
+        return tokens;
+    }
+
+    private static findLineEnd(text: string, index: number): number {
+        const end = text.indexOf('\n', index);
+        return end === -1 ? text.length : end;
+    }
+
+    private static readTag(text: string, start: number, tokens: PgnToken[]): number {
+        const match = /^\[\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(text.slice(start));
+        if (!match) {
+            throw new PgnError(`Malformed tag pair at offset ${start}`);
+        }
+
+        tokens.push({
+            kind: 'tag',
+            name: match[1],
+            value: match[2].replace(/\\(["\\])/g, '$1')
+        });
+        return start + match[0].length;
+    }
+
+    /**
+     * Read a move number, result or SAN move (with optional !/? suffix)
+     */
+    private static readSymbol(text: string, start: number, tokens: PgnToken[]): number {
+        const match = /^[^\s{}()[\];$]+/.exec(text.slice(start));
+        const symbol = match ? match[0] : text[start];
+        const end = start + symbol.length;
+
+        if (this.RESULTS.includes(symbol as PgnResult)) {
+            tokens.push({ kind: 'result', value: symbol as PgnResult });
+            return end;
+        }
+
+        // Move numbers like "12." or "12..." (possibly glued to the move: "12.e4")
+        const numbered = /^\d+\.+(.*)$/.exec(symbol);
+        const rest = numbered ? numbered[1] : symbol;
+        if (!rest || /^\d+$/.test(rest)) {
+            return end;
+        }
+
+        const sanMatch = /^(.*?)([!?]{1,2})?$/.exec(rest);
+        const san = sanMatch?.[1] ?? rest;
+        const suffix = sanMatch?.[2];
+
+        if (!/^[a-hA-Z0x1-8=@+#,-]+$/.test(san)) {
+            throw new PgnError(`Unexpected token '${symbol}'`);
+        }
+
+        tokens.push({ kind: 'san', value: san });
+        if (suffix && this.SUFFIX_NAGS[suffix]) {
+            tokens.push({ kind: 'nag', value: this.SUFFIX_NAGS[suffix] });
+        }
+        return end;
+    }
+
+    // ============================================================================
+    // REPLAY
+    // ============================================================================
+
+    /**
+     * Check a Variant tag for Chess960 under its common names
+     */
+    private static isChess960(variant: string | undefined): boolean {
+        return !!variant && /^(chess\s*960|fischer\s*random|fischerandom)$/i.test(variant.trim());
+    }
+
+    /**
+     * Find the variant named by a Variant tag, by its rules' name ("Three-check")
+     * or its id ("three_check"); games without the tag are standard chess
+     */
+    private static getVariant(tag: string | undefined): Variant {
+        const normalize = (name: string): string => name.toLowerCase().replace(/[\s_-]/g, '');
+        const name = normalize(tag ?? '');
+        if (!name || name === 'chess' || name === 'fromposition' || this.isChess960(tag)) {
+            return Variant.STANDARD;
+        }
+
+        const variant = Object.values(Variant).find(
+            (id) => normalize(id) === name || normalize(new VARIANT_RULES[id]().name) === name
+        );
+        if (!variant) {
+            throw new PgnError(`Unsupported variant '${tag}'`);
+        }
+        return variant;
+    }
+
+    /**
+     * Replay a parsed game's main line into a Game, rebuilding its history
+     * The game switches to the variant named in the Variant tag first
+     * Throws PgnError for an unknown variant, or with the ply of the first
+     * illegal or ambiguous move
+     */
+    public static loadInto(game: Game, pgn: IPgnGame): void {
+        game.setVariant(this.getVariant(pgn.tags.Variant));
+        if (pgn.tags.FEN) {
+            game.loadFen(pgn.tags.FEN, this.isChess960(pgn.tags.Variant));
+        } else {
+            game.reset();
+        }
+
+        if (pgn.comment) {
+            game.history.annotate(0, { comment: pgn.comment });
+        }
+
+        pgn.moves.forEach((pgnMove, index) => {
+            const ply = index + 1;
+            const move = this.resolveSan(game, pgnMove.san, ply);
+            let result = move.dropPiece
+                ? game.dropPiece(move.dropPiece, move.to)
+                : game.executeMove(move.from, move.to, move.promotionPiece);
+
+            if (result.success && result.needsDuck && move.duck) {
+                result = game.placeDuck(move.duck);
+            }
+            if (!result.success) {
+                throw new PgnError(
+                    `Illegal move '${pgnMove.san}' at ply ${ply}: ${result.error}`,
+                    ply
+                );
+            }
+
+            game.history.annotate(ply, { comment: pgnMove.comment, clock: pgnMove.clock });
+        });
+
+        game.setPgnHeader({ tags: pgn.tags, result: pgn.result, plies: pgn.moves.length });
+    }
+
+    /**
+     * Parse a PGN file and load one of its games into a Game
+     */
+    public static load(game: Game, text: string, gameIndex = 0): IPgnGame {
+        const games = this.parse(text);
+        const pgn = games[gameIndex];
+        if (!pgn) {
+            throw new PgnError(`PGN contains ${games.length} game(s), no game #${gameIndex + 1}`);
+        }
+
+        this.loadInto(game, pgn);
+        return pgn;
+    }
+
+    private static resolveSan(game: Game, san: string, ply: number): IMove {
+        try {
+            return NotationConverter.parseSan(game, san);
+        } catch (error) {
+            if (error instanceof SanError) {
+                throw new PgnError(`${error.message} at ply ${ply}`, ply);
+            }
+            throw error;
+        }
+    }
+}
@@ -9,6 +9,7 @@ import {
     type Board,
     type MoveList,
     type Direction,
+    type IPieceMovement,
     PieceType,
     PieceColor,
     BOARD_SIZE
@@ -19,6 +20,7 @@ export abstract class Piece {
     protected readonly _color: PieceColor;
     protected _position: IPosition;
     protected _hasMoved: boolean;
+    protected _promoted = false;
 
     constructor(type: PieceType, color: PieceColor, position: IPosition, hasMoved = false) {
         this._type = type;
@@ -27,6 +29,10 @@ export abstract class Piece {
         this._hasMoved = hasMoved;
     }
 
+    public setPromoted(promoted: boolean): void {
+        this._promoted = promoted;
+    }
+
     // ============================================================================
     // GETTERS
     // ============================================================================
@@ -47,6 +53,13 @@ export abstract class Piece {
         return this._hasMoved;
     }
 
+    /**
+     * Whether the piece was a pawn that promoted
+     */
+    public get promoted(): boolean {
+        return this._promoted;
+    }
+
     public get row(): number {
         return this._position.row;
     }
@@ -74,8 +87,13 @@ export abstract class Piece {
 
     /**
      * Get all possible moves for this piece (without considering check)
+     * A blocker is a neutral piece no one may move to or through (the duck in Duck chess)
      */
-    public abstract getPossibleMoves(board: Board, enPassantTarget: IPosition | null): MoveList;
+    public abstract getPossibleMoves(
+        board: Board,
+        enPassantTarget: IPosition | null,
+        blocker?: IPosition | null
+    ): MoveList;
 
     /**
      * Clone the piece
@@ -126,15 +144,28 @@ export abstract class Piece {
     }
 
     /**
-     * Get all moves in a single direction (for sliding pieces)
+     * Check if square holds the blocker
+     */
+    protected isBlocker(blocker: IPosition | null, row: number, col: number): boolean {
+        return blocker !== null && blocker.row === row && blocker.col === col;
+    }
+
+    /**
+     * Get all moves in a single direction (for sliding pieces), stopping before the blocker
      */
-    protected getSlidingMoves(board: Board, direction: Direction): MoveList {
+    protected getSlidingMoves(
+        board: Board,
+        direction: Direction,
+        blocker: IPosition | null = null
+    ): MoveList {
         const moves: MoveList = [];
         let row = this._position.row + direction.row;
         let col = this._position.col + direction.col;
 
         while (this.isValidPosition(row, col)) {
-            if (this.isSquareEmpty(board, row, col)) {
+            if (this.isBlocker(blocker, row, col)) {
+                break; // The blocker stops every piece
+            } else if (this.isSquareEmpty(board, row, col)) {
                 moves.push({ row, col });
             } else if (this.isOpponentPiece(board, row, col)) {
                 moves.push({ row, col });
@@ -150,16 +181,24 @@ export abstract class Piece {
     }
 
     /**
-     * Get single step moves (for King and Knight)
+     * Get single step moves (for King and Knight), except onto the blocker
      */
-    protected getSingleStepMoves(board: Board, offsets: Direction[]): MoveList {
+    protected getSingleStepMoves(
+        board: Board,
+        offsets: Direction[],
+        blocker: IPosition | null = null
+    ): MoveList {
         const moves: MoveList = [];
 
         for (const offset of offsets) {
             const row = this._position.row + offset.row;
             const col = this._position.col + offset.col;
 
-            if (this.isValidPosition(row, col) && !this.isOwnPiece(board, row, col)) {
+            if (
+                this.isValidPosition(row, col) &&
+                !this.isOwnPiece(board, row, col) &&
+                !this.isBlocker(blocker, row, col)
+            ) {
                 moves.push({ row, col });
             }
         }
@@ -167,6 +206,55 @@ export abstract class Piece {
         return moves;
     }
 
+    /**
+     * Get the hop in a single direction (for hopping pieces): over the first piece
+     * in the line, the blocker included, onto the square just beyond it
+     */
+    protected getHoppingMoves(
+        board: Board,
+        direction: Direction,
+        blocker: IPosition | null = null
+    ): MoveList {
+        let row = this._position.row + direction.row;
+        let col = this._position.col + direction.col;
+
+        while (this.isSquareEmpty(board, row, col) && !this.isBlocker(blocker, row, col)) {
+            row += direction.row;
+            col += direction.col;
+        }
+
+        row += direction.row;
+        col += direction.col;
+        if (
+            !this.isValidPosition(row, col) ||
+            this.isOwnPiece(board, row, col) ||
+            this.isBlocker(blocker, row, col)
+        ) {
+            return [];
+        }
+        return [{ row, col }];
+    }
+
+    /**
+     * Get all moves of a movement description (for registered pieces)
+     */
+    protected getMovementMoves(
+        board: Board,
+        movement: IPieceMovement,
+        blocker: IPosition | null = null
+    ): MoveList {
+        const moves = this.getSingleStepMoves(board, [...(movement.leaps ?? [])], blocker);
+
+        for (const direction of movement.slides ?? []) {
+            moves.push(...this.getSlidingMoves(board, direction, blocker));
+        }
+        for (const direction of movement.hops ?? []) {
+            moves.push(...this.getHoppingMoves(board, direction, blocker));
+        }
+
+        return moves;
+    }
+
     /**
      * Convert piece to serializable data
      */
@@ -175,7 +263,8 @@ export abstract class Piece {
             type: this._type,
             color: this._color,
             position: { ...this._position },
-            hasMoved: this._hasMoved
+            hasMoved: this._hasMoved,
+            ...(this._promoted && { promoted: true })
         };
     }
 
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { FenConverter } from './Fen.js';
+import { PieceRegistry, PieceRegistryError } from './PieceRegistry.js';
+import { Amazon } from '../pieces/Amazon.js';
+import { FairyPieceType, PieceColor, PieceType, PIECE_LETTERS } from '../types/index.js';
+
+const FAIRY_FEN = '4k3/8/8/8/8/8/8/ACZLGK2 w - - 0 1';
+
+describe('PieceRegistry', () => {
+    it('lets FEN read and write registered pieces', () => {
+        const state = FenConverter.parse(FAIRY_FEN);
+
+        expect(state.squares[7].slice(0, 5).map((piece) => piece?.type)).toEqual([
+            FairyPieceType.ARCHBISHOP,
+            FairyPieceType.CHANCELLOR,
+            FairyPieceType.AMAZON,
+            FairyPieceType.CAMEL,
+            FairyPieceType.GRASSHOPPER
+        ]);
+        expect(FenConverter.stringify(state)).toBe(FAIRY_FEN);
+    });
+
+    it('answers for standard and registered pieces without changing the standard tables', () => {
+        expect(PieceRegistry.getLetter(PieceType.KNIGHT)).toBe('N');
+        expect(PieceRegistry.getLetter(FairyPieceType.AMAZON)).toBe('Z');
+        expect(PieceRegistry.getValue(FairyPieceType.CAMEL)).toBe(250);
+        expect(PieceRegistry.getTypeByLetter('G')).toBe(FairyPieceType.GRASSHOPPER);
+        expect(PieceRegistry.getTypeByLetter('X')).toBeNull();
+        expect(PIECE_LETTERS).not.toHaveProperty(FairyPieceType.AMAZON);
+    });
+
+    it('refuses a piece type that is already registered', () => {
+        const definition = {
+            type: FairyPieceType.AMAZON,
+            letter: 'Y',
+            value: 1250,
+            movement: Amazon.MOVEMENT,
+            images: { [PieceColor.WHITE]: '', [PieceColor.BLACK]: '' },
+            piece: Amazon
+        };
+
+        expect(() => PieceRegistry.register(definition)).toThrow(PieceRegistryError);
+        expect(PieceRegistry.getLetter(FairyPieceType.AMAZON)).toBe('Z');
+    });
+});
@@ -0,0 +1,161 @@
+/**
+ * Piece Registry
+ * Piece kinds beyond the six standard ones (fairy pieces). A registered piece
+ * has a movement, a value, an image per color and a notation letter, and can
+ * then stand in start positions, be promoted to and be weighed by the AI.
+ */
+
+import { type Piece } from './Piece.js';
+import { FAIRY_PIECES } from '../pieces/FairyPieces.js';
+import { PIECE_IMAGES } from '../assets/pieces/index.js';
+import {
+    type IPosition,
+    type IPieceData,
+    type IPieceMovement,
+    type StandardPieceType,
+    type FairyPieceType,
+    type PieceType,
+    type PieceColor,
+    PIECE_VALUES,
+    PIECE_LETTERS
+} from '../types/index.js';
+
+/**
+ * Everything needed to play with a piece kind
+ */
+export interface IPieceDefinition {
+    readonly type: FairyPieceType;
+    readonly letter: string; // upper-case letter in FEN, SAN and UCI
+    readonly value: number; // in centipawns, like PIECE_VALUES
+    readonly movement: IPieceMovement;
+    readonly images: Readonly<Record<PieceColor, string>>;
+    readonly piece: new (color: PieceColor, position: IPosition, hasMoved?: boolean) => Piece;
+}
+
+/**
+ * Error thrown when a piece definition cannot be registered
+ */
+export class PieceRegistryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PieceRegistryError';
+    }
+}
+
+export class PieceRegistry {
+    private static readonly DEFINITIONS = new Map<PieceType, IPieceDefinition>();
+
+    // ============================================================================
+    // REGISTRATION
+    // ============================================================================
+
+    /**
+     * Add a piece kind. Its letter must be free, so notation stays unambiguous
+     */
+    public static register(definition: IPieceDefinition): void {
+        const { type, letter } = definition;
+
+        if (this.DEFINITIONS.has(type)) {
+            throw new PieceRegistryError(`Piece type "${type}" is already registered`);
+        }
+        if (!/^[A-Z]$/.test(letter)) {
+            throw new PieceRegistryError(`Piece letter must be one of A-Z, got "${letter}"`);
+        }
+        if (this.getTypeByLetter(letter)) {
+            throw new PieceRegistryError(`Piece letter "${letter}" is already in use`);
+        }
+
+        this.DEFINITIONS.set(type, definition);
+    }
+
+    public static get(type: PieceType): IPieceDefinition | null {
+        return this.DEFINITIONS.get(type) ?? null;
+    }
+
+    /**
+     * Registered piece types, in registration order
+     */
+    public static getTypes(): FairyPieceType[] {
+        return [...this.DEFINITIONS.values()].map(({ type }) => type);
+    }
+
+    /**
+     * Position of a type in registration order; -1 for the standard pieces
+     */
+    public static getIndex(type: PieceType): number {
+        return [...this.DEFINITIONS.keys()].indexOf(type);
+    }
+
+    /**
+     * Create a registered piece; null for an unknown type
+     */
+    public static create(data: IPieceData): Piece | null {
+        const definition = this.get(data.type);
+        return definition ? new definition.piece(data.color, data.position, data.hasMoved) : null;
+    }
+
+    // ============================================================================
+    // LOOKUP
+    // ============================================================================
+
+    public static isStandard(type: PieceType): type is StandardPieceType {
+        return type in PIECE_LETTERS;
+    }
+
+    /**
+     * Whether a string names a standard or registered piece
+     */
+    public static isPieceType(type: string): type is PieceType {
+        return type in PIECE_LETTERS || this.DEFINITIONS.has(type as PieceType);
+    }
+
+    /**
+     * Upper-case notation letter of a standard or registered piece
+     */
+    public static getLetter(type: PieceType): string {
+        return this.isStandard(type) ? PIECE_LETTERS[type] : this.getDefinition(type).letter;
+    }
+
+    /**
+     * Value of a standard or registered piece, in centipawns
+     */
+    public static getValue(type: PieceType): number {
+        return this.isStandard(type) ? PIECE_VALUES[type] : this.getDefinition(type).value;
+    }
+
+    /**
+     * Image of a standard or registered piece
+     */
+    public static getImage(type: PieceType, color: PieceColor): string {
+        return this.isStandard(type)
+            ? PIECE_IMAGES[color][type]
+            : this.getDefinition(type).images[color];
+    }
+
+    /**
+     * Piece written with an upper-case letter; null if no piece uses it
+     */
+    public static getTypeByLetter(letter: string): PieceType | null {
+        const standard = (Object.keys(PIECE_LETTERS) as StandardPieceType[]).find(
+            (type) => PIECE_LETTERS[type] === letter
+        );
+        return (
+            standard ??
+            [...this.DEFINITIONS.values()].find((definition) => definition.letter === letter)
+                ?.type ??
+            null
+        );
+    }
+
+    private static getDefinition(type: FairyPieceType): IPieceDefinition {
+        const definition = this.DEFINITIONS.get(type);
+        if (!definition) {
+            throw new PieceRegistryError(`Piece type "${type}" is not registered`);
+        }
+        return definition;
+    }
+}
+
+for (const definition of FAIRY_PIECES) {
+    PieceRegistry.register(definition);
+}
@@ -0,0 +1,145 @@
+/**
+ * Umpire
+ * What the umpire announces in Kriegspiel, where each player sees only their
+ * own pieces: illegal tries, captures, checks and the direction they come
+ * from, and how many pawn captures the side to move has.
+ */
+
+import { type Game } from './Game.js';
+import { type Piece } from './Piece.js';
+import { NotationConverter } from './GameHistory.js';
+import {
+    type IMove,
+    type IPosition,
+    PieceColor,
+    PieceType,
+    GameStatus,
+    MoveType,
+    BOARD_SIZE
+} from '../types/index.js';
+
+export class Umpire {
+    // Answer to a try that is not a legal move
+    public static readonly ILLEGAL = 'Illegal';
+
+    /**
+     * Announcements after a completed move: the capture it made, then the
+     * checks, pawn captures or game end facing the side now to move
+     */
+    public static announce(game: Game, move: IMove, color: PieceColor): string[] {
+        const announcements = [`${color === PieceColor.WHITE ? 'White' : 'Black'} has moved`];
+
+        if (move.capturedPiece) {
+            // An en passant capture takes the pawn beside the moving pawn, not on the target
+            const square =
+                move.type === MoveType.EN_PASSANT
+                    ? { row: move.from.row, col: move.to.col }
+                    : move.to;
+            announcements.push(`Capture on ${this.squareName(square)}`);
+        }
+
+        return [...announcements, ...this.getTurnAnnouncements(game)];
+    }
+
+    /**
+     * Announcements for the side to move: each check against it, then
+     * checkmate or stalemate, or else the number of pawn captures it may try
+     */
+    public static getTurnAnnouncements(game: Game): string[] {
+        const announcements = this.getCheckers(game).map((checker) =>
+            this.describeCheck(game, checker)
+        );
+
+        switch (game.status) {
+            case GameStatus.CHECKMATE:
+                return [...announcements, 'Checkmate'];
+            case GameStatus.STALEMATE:
+                return [...announcements, 'Stalemate'];
+            case GameStatus.IN_PROGRESS:
+            case GameStatus.CHECK:
+                break;
+            default:
+                return announcements;
+        }
+
+        const pawnCaptures = this.countPawnCaptures(game);
+        if (pawnCaptures > 0) {
+            announcements.push(
+                `${pawnCaptures} pawn capture${pawnCaptures === 1 ? '' : 's'} possible`
+            );
+        }
+
+        return announcements;
+    }
+
+    /**
+     * The opponent's pieces attacking the king of the side to move
+     */
+    private static getCheckers(game: Game): Piece[] {
+        const board = game.board;
+        const color = game.currentPlayer;
+        const king = board.findKing(color);
+        if (!king) {
+            return [];
+        }
+
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return board
+            .getPiecesByColor(opponent)
+            .filter((piece) =>
+                piece
+                    .getPossibleMoves(board.squares, board.enPassantTarget, board.duck)
+                    .some((m) => m.row === king.row && m.col === king.col)
+            );
+    }
+
+    /**
+     * Direction of a check: the file, the rank, the long or short diagonal
+     * through the king's square, or a knight
+     */
+    private static describeCheck(game: Game, checker: Piece): string {
+        if (checker.type === PieceType.KNIGHT) {
+            return 'Check by a knight';
+        }
+
+        const king = game.board.findKing(game.currentPlayer);
+        if (!king) {
+            return 'Check';
+        }
+        if (checker.col === king.col) {
+            return 'Check on the file';
+        }
+        if (checker.row === king.row) {
+            return 'Check on the rank';
+        }
+
+        // The two diagonals through the king's square never have the same length
+        const { row, col } = king.position;
+        const diagonal = BOARD_SIZE - Math.abs(row - col);
+        const antiDiagonal = BOARD_SIZE - Math.abs(row + col - (BOARD_SIZE - 1));
+        const onDiagonal = checker.row - checker.col === row - col;
+        const length = onDiagonal ? diagonal : antiDiagonal;
+        const other = onDiagonal ? antiDiagonal : diagonal;
+
+        return `Check on the ${length > other ? 'long' : 'short'} diagonal`;
+    }
+
+    /**
+     * Legal pawn captures of the side to move, en passant included; the umpire
+     * announces the number, never which pawns
+     */
+    public static countPawnCaptures(game: Game): number {
+        return game
+            .getAllValidMoves()
+            .filter(({ piece }) => piece.type === PieceType.PAWN)
+            .reduce(
+                (count, { piece, moves }) =>
+                    count + moves.filter((m) => m.col !== piece.col).length,
+                0
+            );
+    }
+
+    private static squareName(position: IPosition): string {
+        return NotationConverter.positionToAlgebraic(position.row, position.col);
+    }
+}
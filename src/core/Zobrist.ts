@@ -0,0 +1,169 @@
+/**
+ * Zobrist Hashing
+ * Polyglot-compatible 64-bit position keys built from piece placement,
+ * castling rights, en passant file and side to move
+ */
+
+import { POLYGLOT_RANDOM64 } from './PolyglotKeys.js';
+import { PieceRegistry } from './PieceRegistry.js';
+import {
+    type IBoardState,
+    type IPosition,
+    type ICastlingRights,
+    type IPieceData,
+    type IPockets,
+    type StandardPieceType,
+    PieceType,
+    PieceColor,
+    BOARD_SIZE
+} from '../types/index.js';
+
+// Any grid of pieces: plain piece data or Piece instances
+type PieceGrid = ReadonlyArray<ReadonlyArray<Pick<IPieceData, 'type' | 'color'> | null>>;
+
+export class Zobrist {
+    private static readonly CASTLING_OFFSET = 768;
+    private static readonly EN_PASSANT_OFFSET = 772;
+    private static readonly TURN_OFFSET = 780;
+    private static readonly MASK_64 = (1n << 64n) - 1n;
+
+    // Polyglot orders piece kinds as black pawn, white pawn, black knight, white knight...
+    private static readonly PIECE_KIND: Record<StandardPieceType, number> = {
+        [PieceType.PAWN]: 0,
+        [PieceType.KNIGHT]: 2,
+        [PieceType.BISHOP]: 4,
+        [PieceType.ROOK]: 6,
+        [PieceType.QUEEN]: 8,
+        [PieceType.KING]: 10
+    };
+
+    /**
+     * Key of a piece standing on a square; Polyglot has no registered pieces, so
+     * they take the key of a pawn of their color on that square, rotated by an
+     * odd amount set by their registration order
+     */
+    public static pieceKey(type: PieceType, color: PieceColor, position: IPosition): bigint {
+        if (!PieceRegistry.isStandard(type)) {
+            const squareKey = this.pieceKey(PieceType.PAWN, color, position);
+            const bits = BigInt(2 * PieceRegistry.getIndex(type) + 1);
+            return ((squareKey << bits) | (squareKey >> (64n - bits))) & this.MASK_64;
+        }
+
+        const kind = this.PIECE_KIND[type] + (color === PieceColor.WHITE ? 1 : 0);
+        // Polyglot counts ranks from rank 1, board rows from rank 8
+        const rank = BOARD_SIZE - 1 - position.row;
+        return POLYGLOT_RANDOM64[64 * kind + 8 * rank + position.col];
+    }
+
+    /**
+     * Combined key of all castling rights held
+     */
+    public static castlingKey(rights: ICastlingRights): bigint {
+        const flags = [
+            rights.whiteKingside,
+            rights.whiteQueenside,
+            rights.blackKingside,
+            rights.blackQueenside
+        ];
+
+        return flags.reduce(
+            (key, flag, index) =>
+                flag ? key ^ POLYGLOT_RANDOM64[this.CASTLING_OFFSET + index] : key,
+            0n
+        );
+    }
+
+    /**
+     * Key of the side to move (Polyglot only hashes white to move)
+     */
+    public static sideKey(color: PieceColor): bigint {
+        return color === PieceColor.WHITE ? POLYGLOT_RANDOM64[this.TURN_OFFSET] : 0n;
+    }
+
+    /**
+     * Key of the en passant file; Polyglot only includes it when a pawn of
+     * the side to move stands ready to make the capture
+     */
+    public static enPassantKey(
+        squares: PieceGrid,
+        target: IPosition | null,
+        sideToMove: PieceColor
+    ): bigint {
+        if (!target) {
+            return 0n;
+        }
+
+        // Capturing pawns stand one row behind the target, on an adjacent file
+        const row = sideToMove === PieceColor.WHITE ? target.row + 1 : target.row - 1;
+        const canCapture = [target.col - 1, target.col + 1].some((col) => {
+            const piece = squares[row]?.[col];
+            return piece?.type === PieceType.PAWN && piece.color === sideToMove;
+        });
+
+        return canCapture ? POLYGLOT_RANDOM64[this.EN_PASSANT_OFFSET + target.col] : 0n;
+    }
+
+    /**
+     * Combined key of the pieces in hand (Crazyhouse); Polyglot has no pocket keys,
+     * so the n-th piece of a kind in hand takes the key of that piece on square n, rotated
+     */
+    public static pocketsKey(pockets: IPockets | null | undefined): bigint {
+        if (!pockets) {
+            return 0n;
+        }
+
+        let key = 0n;
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const counts = new Map<PieceType, number>();
+            for (const type of pockets[color]) {
+                const index = counts.get(type) ?? 0;
+                const squareKey = this.pieceKey(type, color, {
+                    row: Math.floor(index / BOARD_SIZE),
+                    col: index % BOARD_SIZE
+                });
+                key ^= ((squareKey << 32n) | (squareKey >> 32n)) & this.MASK_64;
+                counts.set(type, index + 1);
+            }
+        }
+        return key;
+    }
+
+    /**
+     * Key of the duck's square (Duck chess); Polyglot has no duck, so it takes
+     * the key of a white king on that square, rotated
+     */
+    public static duckKey(duck: IPosition | null | undefined): bigint {
+        if (!duck) {
+            return 0n;
+        }
+
+        const squareKey = this.pieceKey(PieceType.KING, PieceColor.WHITE, duck);
+        return ((squareKey << 16n) | (squareKey >> 48n)) & this.MASK_64;
+    }
+
+    /**
+     * Compute the key of a position from scratch
+     */
+    public static hash(state: IBoardState): bigint {
+        let key = this.castlingKey(state.castlingRights) ^ this.sideKey(state.currentPlayer);
+
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                const piece = state.squares[row][col];
+                if (piece) {
+                    key ^= this.pieceKey(piece.type, piece.color, { row, col });
+                }
+            }
+        }
+
+        key ^= this.pocketsKey(state.pockets) ^ this.duckKey(state.duck);
+        return key ^ this.enPassantKey(state.squares, state.enPassantTarget, state.currentPlayer);
+    }
+
+    /**
+     * Format a key as 16 hex digits, as printed by Polyglot tools
+     */
+    public static toHex(key: bigint): string {
+        return key.toString(16).padStart(16, '0');
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Amazon Piece (fairy piece)
+ * Movement rules:
+ * - Combines Queen and Knight movement
+ * - Slides any number of squares in all 8 directions, or jumps in an L-shape
+ * - The strongest piece there is: it can give checkmate on its own
+ */
+
+import { Piece } from '../core/Piece.js';
+import { Queen } from './Queen.js';
+import { Knight } from './Knight.js';
+import {
+    type IPosition,
+    type IPieceMovement,
+    type Board,
+    type MoveList,
+    type PieceColor,
+    FairyPieceType
+} from '../types/index.js';
+
+export class Amazon extends Piece {
+    public static readonly TYPE = FairyPieceType.AMAZON;
+
+    // Amazon moves as a queen or as a knight
+    public static readonly MOVEMENT: IPieceMovement = {
+        slides: Queen.DIRECTIONS,
+        leaps: Knight.MOVE_OFFSETS
+    };
+
+    constructor(color: PieceColor, position: IPosition, hasMoved = false) {
+        super(Amazon.TYPE, color, position, hasMoved);
+    }
+
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
+        return this.getMovementMoves(board, Amazon.MOVEMENT, blocker);
+    }
+
+    public clone(): Amazon {
+        return new Amazon(this._color, this._position, this._hasMoved);
+    }
+}
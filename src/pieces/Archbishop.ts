@@ -0,0 +1,44 @@
+/**
+ * Archbishop Piece (fairy piece, also known as the Princess or Cardinal)
+ * Movement rules:
+ * - Combines Bishop and Knight movement
+ * - Slides diagonally any number of squares, or jumps in an L-shape
+ */
+
+import { Piece } from '../core/Piece.js';
+import { Bishop } from './Bishop.js';
+import { Knight } from './Knight.js';
+import {
+    type IPosition,
+    type IPieceMovement,
+    type Board,
+    type MoveList,
+    type PieceColor,
+    FairyPieceType
+} from '../types/index.js';
+
+export class Archbishop extends Piece {
+    public static readonly TYPE = FairyPieceType.ARCHBISHOP;
+
+    // Archbishop moves as a bishop or as a knight
+    public static readonly MOVEMENT: IPieceMovement = {
+        slides: Bishop.DIRECTIONS,
+        leaps: Knight.MOVE_OFFSETS
+    };
+
+    constructor(color: PieceColor, position: IPosition, hasMoved = false) {
+        super(Archbishop.TYPE, color, position, hasMoved);
+    }
+
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
+        return this.getMovementMoves(board, Archbishop.MOVEMENT, blocker);
+    }
+
+    public clone(): Archbishop {
+        return new Archbishop(this._color, this._position, this._hasMoved);
+    }
+}
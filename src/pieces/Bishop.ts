@@ -19,7 +19,7 @@ import {
 
 export class Bishop extends Piece {
     // Bishop moves in 4 diagonal directions
-    private static readonly DIRECTIONS: readonly Direction[] = [
+    public static readonly DIRECTIONS: readonly Direction[] = [
         { row: -1, col: -1 }, // Up-Left
         { row: -1, col: 1 }, // Up-Right
         { row: 1, col: -1 }, // Down-Left
@@ -30,11 +30,15 @@ export class Bishop extends Piece {
         super(PieceType.BISHOP, color, position, hasMoved);
     }
 
-    public getPossibleMoves(board: Board, _enPassantTarget: IPosition | null): MoveList {
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
         const moves: MoveList = [];
 
         for (const direction of Bishop.DIRECTIONS) {
-            moves.push(...this.getSlidingMoves(board, direction));
+            moves.push(...this.getSlidingMoves(board, direction, blocker));
         }
 
         return moves;
@@ -0,0 +1,51 @@
+/**
+ * Camel Piece (fairy piece)
+ * Movement rules:
+ * - Jumps 3 squares in one direction and 1 square perpendicular, a longer Knight move
+ * - Can jump over other pieces
+ * - Like a bishop, never leaves the color of square it starts on
+ */
+
+import { Piece } from '../core/Piece.js';
+import {
+    type IPosition,
+    type IPieceMovement,
+    type Board,
+    type MoveList,
+    type PieceColor,
+    FairyPieceType
+} from '../types/index.js';
+
+export class Camel extends Piece {
+    public static readonly TYPE = FairyPieceType.CAMEL;
+
+    // Camel jumps (3, 1): all 8 possible positions
+    public static readonly MOVEMENT: IPieceMovement = {
+        leaps: [
+            { row: -3, col: -1 }, // Up 3, Left 1
+            { row: -3, col: 1 }, // Up 3, Right 1
+            { row: -1, col: -3 }, // Up 1, Left 3
+            { row: -1, col: 3 }, // Up 1, Right 3
+            { row: 1, col: -3 }, // Down 1, Left 3
+            { row: 1, col: 3 }, // Down 1, Right 3
+            { row: 3, col: -1 }, // Down 3, Left 1
+            { row: 3, col: 1 } // Down 3, Right 1
+        ]
+    };
+
+    constructor(color: PieceColor, position: IPosition, hasMoved = false) {
+        super(Camel.TYPE, color, position, hasMoved);
+    }
+
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
+        return this.getMovementMoves(board, Camel.MOVEMENT, blocker);
+    }
+
+    public clone(): Camel {
+        return new Camel(this._color, this._position, this._hasMoved);
+    }
+}
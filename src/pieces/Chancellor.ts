@@ -0,0 +1,44 @@
+/**
+ * Chancellor Piece (fairy piece, also known as the Empress or Marshal)
+ * Movement rules:
+ * - Combines Rook and Knight movement
+ * - Slides horizontally or vertically any number of squares, or jumps in an L-shape
+ */
+
+import { Piece } from '../core/Piece.js';
+import { Rook } from './Rook.js';
+import { Knight } from './Knight.js';
+import {
+    type IPosition,
+    type IPieceMovement,
+    type Board,
+    type MoveList,
+    type PieceColor,
+    FairyPieceType
+} from '../types/index.js';
+
+export class Chancellor extends Piece {
+    public static readonly TYPE = FairyPieceType.CHANCELLOR;
+
+    // Chancellor moves as a rook or as a knight
+    public static readonly MOVEMENT: IPieceMovement = {
+        slides: Rook.DIRECTIONS,
+        leaps: Knight.MOVE_OFFSETS
+    };
+
+    constructor(color: PieceColor, position: IPosition, hasMoved = false) {
+        super(Chancellor.TYPE, color, position, hasMoved);
+    }
+
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
+        return this.getMovementMoves(board, Chancellor.MOVEMENT, blocker);
+    }
+
+    public clone(): Chancellor {
+        return new Chancellor(this._color, this._position, this._hasMoved);
+    }
+}
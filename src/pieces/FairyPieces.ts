@@ -0,0 +1,67 @@
+/**
+ * Fairy Pieces
+ * The pieces registered with the PieceRegistry out of the box
+ */
+
+import { type IPieceDefinition } from '../core/PieceRegistry.js';
+import { Amazon } from './Amazon.js';
+import { Archbishop } from './Archbishop.js';
+import { Chancellor } from './Chancellor.js';
+import { Camel } from './Camel.js';
+import { Grasshopper } from './Grasshopper.js';
+import { PieceColor } from '../types/index.js';
+import {
+    whiteAmazon,
+    whiteArchbishop,
+    whiteChancellor,
+    whiteCamel,
+    whiteGrasshopper,
+    blackAmazon,
+    blackArchbishop,
+    blackChancellor,
+    blackCamel,
+    blackGrasshopper
+} from '../assets/pieces/index.js';
+
+export const FAIRY_PIECES: readonly IPieceDefinition[] = [
+    {
+        type: Archbishop.TYPE,
+        letter: 'A',
+        value: 850,
+        movement: Archbishop.MOVEMENT,
+        images: { [PieceColor.WHITE]: whiteArchbishop, [PieceColor.BLACK]: blackArchbishop },
+        piece: Archbishop
+    },
+    {
+        type: Chancellor.TYPE,
+        letter: 'C',
+        value: 900,
+        movement: Chancellor.MOVEMENT,
+        images: { [PieceColor.WHITE]: whiteChancellor, [PieceColor.BLACK]: blackChancellor },
+        piece: Chancellor
+    },
+    {
+        type: Amazon.TYPE,
+        letter: 'Z',
+        value: 1250,
+        movement: Amazon.MOVEMENT,
+        images: { [PieceColor.WHITE]: whiteAmazon, [PieceColor.BLACK]: blackAmazon },
+        piece: Amazon
+    },
+    {
+        type: Camel.TYPE,
+        letter: 'L',
+        value: 250,
+        movement: Camel.MOVEMENT,
+        images: { [PieceColor.WHITE]: whiteCamel, [PieceColor.BLACK]: blackCamel },
+        piece: Camel
+    },
+    {
+        type: Grasshopper.TYPE,
+        letter: 'G',
+        value: 200,
+        movement: Grasshopper.MOVEMENT,
+        images: { [PieceColor.WHITE]: whiteGrasshopper, [PieceColor.BLACK]: blackGrasshopper },
+        piece: Grasshopper
+    }
+];
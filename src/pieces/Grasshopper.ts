@@ -0,0 +1,41 @@
+/**
+ * Grasshopper Piece (fairy piece)
+ * Movement rules:
+ * - Moves along the Queen's lines, but only by hopping over another piece (of either color)
+ * - Lands on the square just beyond that piece, capturing an opponent's piece there
+ * - Cannot move at all along a line with no piece to hop over
+ */
+
+import { Piece } from '../core/Piece.js';
+import { Queen } from './Queen.js';
+import {
+    type IPosition,
+    type IPieceMovement,
+    type Board,
+    type MoveList,
+    type PieceColor,
+    FairyPieceType
+} from '../types/index.js';
+
+export class Grasshopper extends Piece {
+    public static readonly TYPE = FairyPieceType.GRASSHOPPER;
+
+    // Grasshopper hops in all 8 directions
+    public static readonly MOVEMENT: IPieceMovement = { hops: Queen.DIRECTIONS };
+
+    constructor(color: PieceColor, position: IPosition, hasMoved = false) {
+        super(Grasshopper.TYPE, color, position, hasMoved);
+    }
+
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
+        return this.getMovementMoves(board, Grasshopper.MOVEMENT, blocker);
+    }
+
+    public clone(): Grasshopper {
+        return new Grasshopper(this._color, this._position, this._hasMoved);
+    }
+}
@@ -4,11 +4,12 @@
  * - Moves one square in any direction
  * - Cannot move into check
  * - Castling: Special move with Rook
- *   - Kingside (short): King moves 2 squares towards h-file rook
- *   - Queenside (long): King moves 2 squares towards a-file rook
+ *   - Kingside (short): King ends on the g-file, rook on the f-file
+ *   - Queenside (long): King ends on the c-file, rook on the d-file
+ *   - In Chess960 the castling rook's file comes from the castling rights
  *   - Requirements:
  *     - Neither King nor Rook has moved
- *     - No pieces between King and Rook
+ *     - No pieces on the squares either piece crosses or lands on
  *     - King not in check
  *     - King doesn't pass through or land on attacked square
  */
@@ -21,7 +22,8 @@ import {
     type Direction,
     type ICastlingRights,
     PieceType,
-    PieceColor
+    PieceColor,
+    CASTLING_FILES
 } from '../types/index.js';
 
 export interface ICastlingMove {
@@ -48,9 +50,13 @@ export class King extends Piece {
         super(PieceType.KING, color, position, hasMoved);
     }
 
-    public getPossibleMoves(board: Board, _enPassantTarget: IPosition | null): MoveList {
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
         // Regular one-square moves
-        return this.getSingleStepMoves(board, [...King.MOVE_OFFSETS]);
+        return this.getSingleStepMoves(board, [...King.MOVE_OFFSETS], blocker);
     }
 
     /**
@@ -65,8 +71,9 @@ export class King extends Piece {
         isSquareAttacked: (row: number, col: number) => boolean
     ): ICastlingMove[] {
         const moves: ICastlingMove[] = [];
+        const backRow = this._color === PieceColor.WHITE ? 7 : 0;
 
-        if (this._hasMoved) {
+        if (this._hasMoved || this._position.row !== backRow) {
             return moves;
         }
 
@@ -75,8 +82,6 @@ export class King extends Piece {
             return moves;
         }
 
-        const backRow = this._color === PieceColor.WHITE ? 7 : 0;
-
         // Kingside castling
         const canKingside =
             this._color === PieceColor.WHITE
@@ -84,7 +89,8 @@ export class King extends Piece {
                 : castlingRights.blackKingside;
 
         if (canKingside) {
-            const kingsideCastle = this.checkKingsideCastle(board, backRow, isSquareAttacked);
+            const rookCol = castlingRights.kingsideRookFile ?? CASTLING_FILES.kingside.rook;
+            const kingsideCastle = this.checkCastle(board, 'kingside', rookCol, isSquareAttacked);
             if (kingsideCastle) {
                 moves.push(kingsideCastle);
             }
@@ -97,7 +103,8 @@ export class King extends Piece {
                 : castlingRights.blackQueenside;
 
         if (canQueenside) {
-            const queensideCastle = this.checkQueensideCastle(board, backRow, isSquareAttacked);
+            const rookCol = castlingRights.queensideRookFile ?? CASTLING_FILES.queenside.rook;
+            const queensideCastle = this.checkCastle(board, 'queenside', rookCol, isSquareAttacked);
             if (queensideCastle) {
                 moves.push(queensideCastle);
             }
@@ -107,75 +114,47 @@ export class King extends Piece {
     }
 
     /**
-     * Check if kingside castling is possible
+     * Check if castling to one side is possible with the rook on the given file
      */
-    private checkKingsideCastle(
+    private checkCastle(
         board: Board,
-        backRow: number,
+        type: 'kingside' | 'queenside',
+        rookCol: number,
         isSquareAttacked: (row: number, col: number) => boolean
     ): ICastlingMove | null {
-        const rookCol = 7;
+        const backRow = this._position.row;
+        const kingCol = this._position.col;
+        const { kingTo, rookTo } = CASTLING_FILES[type];
         const rook = board[backRow][rookCol];
 
         // Check rook exists and hasn't moved
-        if (!rook || rook.type !== PieceType.ROOK || rook.hasMoved) {
+        if (!rook || rook.type !== PieceType.ROOK || rook.color !== this._color || rook.hasMoved) {
             return null;
         }
 
-        // Check squares between king and rook are empty (cols 5 and 6)
-        if (board[backRow][5] !== null || board[backRow][6] !== null) {
-            return null;
+        // Every square either piece crosses or lands on must be empty, apart from
+        // the king and the rook themselves
+        const minCol = Math.min(kingCol, rookCol, kingTo, rookTo);
+        const maxCol = Math.max(kingCol, rookCol, kingTo, rookTo);
+        for (let col = minCol; col <= maxCol; col++) {
+            if (col !== kingCol && col !== rookCol && board[backRow][col] !== null) {
+                return null;
+            }
         }
 
         // Check king doesn't pass through or land on attacked square
-        if (isSquareAttacked(backRow, 5) || isSquareAttacked(backRow, 6)) {
-            return null;
-        }
-
-        return {
-            kingTo: { row: backRow, col: 6 },
-            rookFrom: { row: backRow, col: 7 },
-            rookTo: { row: backRow, col: 5 },
-            type: 'kingside'
-        };
-    }
-
-    /**
-     * Check if queenside castling is possible
-     */
-    private checkQueensideCastle(
-        board: Board,
-        backRow: number,
-        isSquareAttacked: (row: number, col: number) => boolean
-    ): ICastlingMove | null {
-        const rookCol = 0;
-        const rook = board[backRow][rookCol];
-
-        // Check rook exists and hasn't moved
-        if (!rook || rook.type !== PieceType.ROOK || rook.hasMoved) {
-            return null;
-        }
-
-        // Check squares between king and rook are empty (cols 1, 2, and 3)
-        if (
-            board[backRow][1] !== null ||
-            board[backRow][2] !== null ||
-            board[backRow][3] !== null
-        ) {
-            return null;
-        }
-
-        // Check king doesn't pass through or land on attacked square (cols 2 and 3)
-        // Note: col 1 doesn't need to be checked because king doesn't pass through it
-        if (isSquareAttacked(backRow, 2) || isSquareAttacked(backRow, 3)) {
-            return null;
+        const step = Math.sign(kingTo - kingCol);
+        for (let col = kingCol + step; step !== 0 && col !== kingTo + step; col += step) {
+            if (isSquareAttacked(backRow, col)) {
+                return null;
+            }
         }
 
         return {
-            kingTo: { row: backRow, col: 2 },
-            rookFrom: { row: backRow, col: 0 },
-            rookTo: { row: backRow, col: 3 },
-            type: 'queenside'
+            kingTo: { row: backRow, col: kingTo },
+            rookFrom: { row: backRow, col: rookCol },
+            rookTo: { row: backRow, col: rookTo },
+            type
         };
     }
 
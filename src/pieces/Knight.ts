@@ -18,7 +18,7 @@ import {
 
 export class Knight extends Piece {
     // Knight moves in L-shape: all 8 possible positions
-    private static readonly MOVE_OFFSETS: readonly Direction[] = [
+    public static readonly MOVE_OFFSETS: readonly Direction[] = [
         { row: -2, col: -1 }, // Up 2, Left 1
         { row: -2, col: 1 }, // Up 2, Right 1
         { row: -1, col: -2 }, // Up 1, Left 2
@@ -33,8 +33,12 @@ export class Knight extends Piece {
         super(PieceType.KNIGHT, color, position, hasMoved);
     }
 
-    public getPossibleMoves(board: Board, _enPassantTarget: IPosition | null): MoveList {
-        return this.getSingleStepMoves(board, [...Knight.MOVE_OFFSETS]);
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
+        return this.getSingleStepMoves(board, [...Knight.MOVE_OFFSETS], blocker);
     }
 
     public clone(): Knight {
@@ -1,7 +1,7 @@
 /**
  * Pawn Piece
  * Movement rules:
- * - Forward 1 square (or 2 from starting position)
+ * - Forward 1 square (or 2 from starting position, or from the first rank in Horde)
  * - Diagonal capture only
  * - En passant capture
  * - Promotion when reaching opposite end
@@ -30,12 +30,20 @@ export class Pawn extends Piece {
     }
 
     /**
-     * Get the starting row for this pawn's color
+     * Get the starting row for this pawn's color; only a double step from here
+     * can be taken en passant
      */
-    private get startRow(): number {
+    public get startRow(): number {
         return this._color === PieceColor.WHITE ? 6 : 1;
     }
 
+    /**
+     * Get the first rank's row for this pawn's color, where only Horde has pawns
+     */
+    private get firstRow(): number {
+        return this._color === PieceColor.WHITE ? 7 : 0;
+    }
+
     /**
      * Get the promotion row for this pawn's color
      */
@@ -43,19 +51,30 @@ export class Pawn extends Piece {
         return this._color === PieceColor.WHITE ? 0 : 7;
     }
 
-    public getPossibleMoves(board: Board, enPassantTarget: IPosition | null): MoveList {
+    public getPossibleMoves(
+        board: Board,
+        enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
         const moves: MoveList = [];
         const { row, col } = this._position;
 
         // Forward one square
         const oneForward = row + this.direction;
-        if (this.isValidPosition(oneForward, col) && this.isSquareEmpty(board, oneForward, col)) {
+        if (
+            this.isValidPosition(oneForward, col) &&
+            this.isSquareEmpty(board, oneForward, col) &&
+            !this.isBlocker(blocker, oneForward, col)
+        ) {
             moves.push({ row: oneForward, col });
 
-            // Forward two squares from starting position
-            if (!this._hasMoved && row === this.startRow) {
+            // Forward two squares from starting position or the first rank
+            if (!this._hasMoved && (row === this.startRow || row === this.firstRow)) {
                 const twoForward = row + this.direction * 2;
-                if (this.isSquareEmpty(board, twoForward, col)) {
+                if (
+                    this.isSquareEmpty(board, twoForward, col) &&
+                    !this.isBlocker(blocker, twoForward, col)
+                ) {
                     moves.push({ row: twoForward, col });
                 }
             }
@@ -71,8 +90,12 @@ export class Pawn extends Piece {
                 if (this.isOpponentPiece(board, capture.row, capture.col)) {
                     moves.push(capture);
                 }
-                // En passant capture
-                else if (enPassantTarget && this.positionsEqual(capture, enPassantTarget)) {
+                // En passant capture, unless the blocker stands on the passed square
+                else if (
+                    enPassantTarget &&
+                    this.positionsEqual(capture, enPassantTarget) &&
+                    !this.isBlocker(blocker, capture.row, capture.col)
+                ) {
                     moves.push(capture);
                 }
             }
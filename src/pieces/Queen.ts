@@ -19,7 +19,7 @@ import {
 
 export class Queen extends Piece {
     // Queen moves in all 8 directions (combines Rook and Bishop)
-    private static readonly DIRECTIONS: readonly Direction[] = [
+    public static readonly DIRECTIONS: readonly Direction[] = [
         // Rook directions
         { row: -1, col: 0 }, // Up
         { row: 1, col: 0 }, // Down
@@ -36,11 +36,15 @@ export class Queen extends Piece {
         super(PieceType.QUEEN, color, position, hasMoved);
     }
 
-    public getPossibleMoves(board: Board, _enPassantTarget: IPosition | null): MoveList {
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
         const moves: MoveList = [];
 
         for (const direction of Queen.DIRECTIONS) {
-            moves.push(...this.getSlidingMoves(board, direction));
+            moves.push(...this.getSlidingMoves(board, direction, blocker));
         }
 
         return moves;
@@ -19,7 +19,7 @@ import {
 
 export class Rook extends Piece {
     // Rook moves in 4 directions: up, down, left, right
-    private static readonly DIRECTIONS: readonly Direction[] = [
+    public static readonly DIRECTIONS: readonly Direction[] = [
         { row: -1, col: 0 }, // Up
         { row: 1, col: 0 }, // Down
         { row: 0, col: -1 }, // Left
@@ -30,11 +30,15 @@ export class Rook extends Piece {
         super(PieceType.ROOK, color, position, hasMoved);
     }
 
-    public getPossibleMoves(board: Board, _enPassantTarget: IPosition | null): MoveList {
+    public getPossibleMoves(
+        board: Board,
+        _enPassantTarget: IPosition | null,
+        blocker: IPosition | null = null
+    ): MoveList {
         const moves: MoveList = [];
 
         for (const direction of Rook.DIRECTIONS) {
-            moves.push(...this.getSlidingMoves(board, direction));
+            moves.push(...this.getSlidingMoves(board, direction, blocker));
         }
 
         return moves;
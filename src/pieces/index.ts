@@ -8,3 +8,8 @@ export { Knight } from './Knight.js';
 export { Bishop } from './Bishop.js';
 export { Queen } from './Queen.js';
 export { King, type ICastlingMove } from './King.js';
+export { Amazon } from './Amazon.js';
+export { Archbishop } from './Archbishop.js';
+export { Chancellor } from './Chancellor.js';
+export { Camel } from './Camel.js';
+export { Grasshopper } from './Grasshopper.js';
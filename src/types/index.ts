@@ -12,14 +12,31 @@ export enum PieceColor {
     BLACK = 'black'
 }
 
-export enum PieceType {
-    PAWN = 'pawn',
-    ROOK = 'rook',
-    KNIGHT = 'knight',
-    BISHOP = 'bishop',
-    QUEEN = 'queen',
-    KING = 'king'
-}
+// The standard pieces
+export const PieceType = {
+    PAWN: 'pawn',
+    ROOK: 'rook',
+    KNIGHT: 'knight',
+    BISHOP: 'bishop',
+    QUEEN: 'queen',
+    KING: 'king'
+} as const;
+
+export type StandardPieceType = (typeof PieceType)[keyof typeof PieceType];
+
+// The fairy pieces; each is registered with the PieceRegistry, which holds its
+// letter, value, images and movement
+export const FairyPieceType = {
+    ARCHBISHOP: 'archbishop',
+    CHANCELLOR: 'chancellor',
+    AMAZON: 'amazon',
+    CAMEL: 'camel',
+    GRASSHOPPER: 'grasshopper'
+} as const;
+
+export type FairyPieceType = (typeof FairyPieceType)[keyof typeof FairyPieceType];
+
+export type PieceType = StandardPieceType | FairyPieceType;
 
 export enum GameStatus {
     NOT_STARTED = 'not_started',
@@ -28,7 +45,51 @@ export enum GameStatus {
     CHECKMATE = 'checkmate',
     STALEMATE = 'stalemate',
     DRAW = 'draw',
-    RESIGNED = 'resigned'
+    RESIGNED = 'resigned',
+    TIMEOUT = 'timeout',
+    VARIANT_WIN = 'variant_win' // the variant's own goal was reached
+}
+
+export enum DrawReason {
+    STALEMATE = 'stalemate',
+    AGREEMENT = 'agreement',
+    FIFTY_MOVE = 'fifty_move',
+    SEVENTY_FIVE_MOVE = 'seventy_five_move',
+    THREEFOLD_REPETITION = 'threefold_repetition',
+    FIVEFOLD_REPETITION = 'fivefold_repetition',
+    INSUFFICIENT_MATERIAL = 'insufficient_material',
+    TIMEOUT_VS_INSUFFICIENT_MATERIAL = 'timeout_vs_insufficient_material',
+    BOTH_KINGS_REACHED_GOAL = 'both_kings_reached_goal' // Racing Kings
+}
+
+export enum Variant {
+    STANDARD = 'standard',
+    KING_OF_THE_HILL = 'king_of_the_hill',
+    THREE_CHECK = 'three_check',
+    ATOMIC = 'atomic',
+    CRAZYHOUSE = 'crazyhouse',
+    ANTICHESS = 'antichess',
+    HORDE = 'horde',
+    RACING_KINGS = 'racing_kings',
+    DUCK = 'duck',
+    DARK = 'dark',
+    KRIEGSPIEL = 'kriegspiel'
+}
+
+export enum VariantWinReason {
+    KING_IN_CENTER = 'king_in_center', // King of the Hill
+    THIRD_CHECK = 'third_check', // Three-check
+    KING_EXPLODED = 'king_exploded', // Atomic
+    NO_PIECES_LEFT = 'no_pieces_left', // Antichess
+    STALEMATED = 'stalemated', // Antichess
+    HORDE_CAPTURED = 'horde_captured', // Horde
+    KING_REACHED_GOAL = 'king_reached_goal', // Racing Kings
+    KING_CAPTURED = 'king_captured' // Duck and Dark chess
+}
+
+export enum DelayType {
+    SIMPLE = 'simple', // the clock starts running only after the delay
+    BRONSTEIN = 'bronstein' // time used, up to the delay, is given back after the move
 }
 
 export enum GameMode {
@@ -49,6 +110,7 @@ export enum MoveType {
     CASTLE_QUEENSIDE = 'castle_queenside',
     EN_PASSANT = 'en_passant',
     PROMOTION = 'promotion',
+    DROP = 'drop', // a piece from the pocket put onto an empty square (Crazyhouse)
     CHECK = 'check',
     CHECKMATE = 'checkmate'
 }
@@ -68,6 +130,8 @@ export interface IMove {
     readonly type: MoveType;
     readonly capturedPiece?: PieceType;
     readonly promotionPiece?: PieceType;
+    readonly dropPiece?: PieceType; // drops have from and to both on the target square
+    readonly duck?: IPosition; // where the mover then placed the duck (Duck chess)
 }
 
 export interface IMoveValidation {
@@ -80,6 +144,7 @@ export interface IPieceData {
     readonly color: PieceColor;
     readonly position: IPosition;
     readonly hasMoved: boolean;
+    readonly promoted?: boolean; // a promoted pawn, which goes back to the pocket as a pawn
 }
 
 export interface IBoardState {
@@ -89,6 +154,9 @@ export interface IBoardState {
     readonly castlingRights: ICastlingRights;
     readonly halfMoveClock: number;
     readonly fullMoveNumber: number;
+    readonly pockets?: IPockets; // pieces in hand (Crazyhouse)
+    readonly duck?: IPosition; // the neutral blocker's square (Duck chess)
+    readonly checkCount?: ICheckCount; // checks each player has given (Three-check)
 }
 
 export interface ICastlingRights {
@@ -96,6 +164,9 @@ export interface ICastlingRights {
     readonly whiteQueenside: boolean;
     readonly blackKingside: boolean;
     readonly blackQueenside: boolean;
+    // Files of the castling rooks when not on h and a (Chess960); shared by both colors
+    readonly kingsideRookFile?: number;
+    readonly queensideRookFile?: number;
 }
 
 export interface IGameState {
@@ -104,6 +175,12 @@ export interface IGameState {
     readonly board: IBoardState;
     readonly moveHistory: IMove[];
     readonly capturedPieces: ICapturedPieces;
+    readonly checkCount: ICheckCount;
+    readonly drawReason?: DrawReason;
+    readonly resignedColor?: PieceColor;
+    readonly flaggedColor?: PieceColor; // player whose time ran out
+    readonly variantWinner?: PieceColor;
+    readonly variantWinReason?: VariantWinReason;
 }
 
 export interface ICapturedPieces {
@@ -111,10 +188,27 @@ export interface ICapturedPieces {
     readonly black: PieceType[];
 }
 
+/**
+ * Pieces in hand, by the player who may drop them
+ */
+export interface IPockets {
+    readonly white: PieceType[];
+    readonly black: PieceType[];
+}
+
+/**
+ * Checks given by each player so far
+ */
+export interface ICheckCount {
+    readonly white: number;
+    readonly black: number;
+}
+
 export interface IPlayer {
     readonly name: string;
     readonly color: PieceColor;
     readonly isAI: boolean;
+    readonly timeControl?: ITimeControl; // overrides the game's time control (time odds)
 }
 
 export interface IGameSettings {
@@ -126,17 +220,44 @@ export interface IGameSettings {
     readonly aiDifficulty?: AIDifficulty;
     readonly theme: string;
     readonly timeControl?: ITimeControl;
+    readonly startFen?: string; // custom starting position
+    readonly chess960Position?: number; // Chess960 start position number (0-959)
+    readonly variant?: Variant; // rules to play by (standard chess by default)
+    readonly drawRules?: IDrawRules;
+}
+
+export interface IDrawRules {
+    readonly claimRequired: boolean; // fifty-move and threefold draws must be claimed
+    readonly seventyFiveMove: boolean; // seventy-five-move and fivefold draws end the game
 }
 
 export interface ITimeControl {
     readonly initialTime: number; // in seconds
     readonly increment: number; // in seconds
+    readonly delay?: number; // in seconds
+    readonly delayType?: DelayType; // defaults to simple delay
+    readonly moves?: number; // moves to make within initialTime before the next stage
+    readonly stages?: ITimeControlStage[];
+}
+
+/**
+ * A later period of a multi-stage time control; its time is added to the
+ * clock when the previous stage's moves are completed
+ */
+export interface ITimeControlStage {
+    readonly time: number; // in seconds
+    readonly increment: number; // in seconds
+    readonly delay?: number; // in seconds
+    readonly delayType?: DelayType;
+    readonly moves?: number; // omit for the final (sudden death) stage
 }
 
 export interface IGameResult {
     readonly winner: PieceColor | null; // null for draw
     readonly reason: GameStatus;
     readonly moves: number;
+    readonly drawReason?: DrawReason;
+    readonly variantWinReason?: VariantWinReason;
 }
 
 // ============================================================================
@@ -184,9 +305,9 @@ export interface IEvaluation {
 // EVENT INTERFACES
 // ============================================================================
 
-export interface IGameEvent {
-    readonly type: GameEventType;
-    readonly data: unknown;
+export interface IGameEvent<T extends GameEventType = GameEventType> {
+    readonly type: T;
+    readonly data: IGameEventData[T];
     readonly timestamp: number;
 }
 
@@ -199,9 +320,47 @@ export enum GameEventType {
     STALEMATE = 'stalemate',
     PROMOTION = 'promotion',
     CASTLE = 'castle',
+    DRAW_OFFERED = 'draw_offered',
+    HISTORY_NAVIGATED = 'history_navigated',
     GAME_END = 'game_end'
 }
 
+/**
+ * Payload carried by each event type
+ */
+export interface IGameEventData {
+    [GameEventType.GAME_START]: { readonly fen: string };
+    [GameEventType.MOVE_MADE]: {
+        readonly move: IMove;
+        readonly color: PieceColor;
+        readonly notation: string;
+    };
+    [GameEventType.PIECE_CAPTURED]: {
+        readonly piece: PieceType;
+        readonly color: PieceColor; // color of the captured piece
+        readonly position: IPosition;
+    };
+    [GameEventType.CHECK]: { readonly color: PieceColor }; // side in check
+    [GameEventType.CHECKMATE]: { readonly winner: PieceColor };
+    [GameEventType.STALEMATE]: { readonly color: PieceColor }; // side without moves
+    [GameEventType.PROMOTION]: {
+        readonly piece: PieceType;
+        readonly color: PieceColor;
+        readonly position: IPosition;
+    };
+    [GameEventType.CASTLE]: {
+        readonly color: PieceColor;
+        readonly side: MoveType.CASTLE_KINGSIDE | MoveType.CASTLE_QUEENSIDE;
+    };
+    [GameEventType.DRAW_OFFERED]: { readonly color: PieceColor };
+    [GameEventType.HISTORY_NAVIGATED]: { readonly index: number };
+    [GameEventType.GAME_END]: IGameResult;
+}
+
+export type GameEventListener<T extends GameEventType = GameEventType> = (
+    event: IGameEvent<T>
+) => void;
+
 // ============================================================================
 // TYPE ALIASES
 // ============================================================================
@@ -210,13 +369,29 @@ export type Board = (IPieceData | null)[][];
 export type MoveList = IPosition[];
 export type Direction = { readonly row: number; readonly col: number };
 
+/**
+ * Movement of a piece described by its moves alone (pieces added through the PieceRegistry):
+ * leaps jump straight to a square, slides run until something is in the way, and hops run
+ * to the first piece in the line and land on the square just beyond it
+ */
+export interface IPieceMovement {
+    readonly leaps?: readonly Direction[];
+    readonly slides?: readonly Direction[];
+    readonly hops?: readonly Direction[];
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
 export const BOARD_SIZE = 8;
 
-export const PIECE_VALUES: Record<PieceType, number> = {
+export const DEFAULT_DRAW_RULES: IDrawRules = {
+    claimRequired: false,
+    seventyFiveMove: true
+};
+
+export const PIECE_VALUES: Record<StandardPieceType, number> = {
     [PieceType.PAWN]: 100,
     [PieceType.KNIGHT]: 320,
     [PieceType.BISHOP]: 330,
@@ -225,7 +400,7 @@ export const PIECE_VALUES: Record<PieceType, number> = {
     [PieceType.KING]: 20000
 };
 
-export const PIECE_SYMBOLS: Record<PieceColor, Record<PieceType, string>> = {
+export const PIECE_SYMBOLS: Record<PieceColor, Record<StandardPieceType, string>> = {
     [PieceColor.WHITE]: {
         [PieceType.PAWN]: '♙',
         [PieceType.ROOK]: '♖',
@@ -244,5 +419,21 @@ export const PIECE_SYMBOLS: Record<PieceColor, Record<PieceType, string>> = {
     }
 };
 
+export const PIECE_LETTERS: Record<StandardPieceType, string> = {
+    [PieceType.PAWN]: 'P',
+    [PieceType.ROOK]: 'R',
+    [PieceType.KNIGHT]: 'N',
+    [PieceType.BISHOP]: 'B',
+    [PieceType.QUEEN]: 'Q',
+    [PieceType.KING]: 'K'
+};
+
+// Castling files: rooks start on h and a in standard chess, and king and rook
+// always end on g and f (kingside) or c and d (queenside), in Chess960 too
+export const CASTLING_FILES = {
+    kingside: { rook: 7, kingTo: 6, rookTo: 5 },
+    queenside: { rook: 0, kingTo: 2, rookTo: 3 }
+} as const;
+
 export const FILE_LETTERS = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'] as const;
 export const RANK_NUMBERS = ['8', '7', '6', '5', '4', '3', '2', '1'] as const;
@@ -0,0 +1,525 @@
+/**
+ * Board Editor UI
+ * Set up a position by dragging pieces onto the board (or clicking with a
+ * piece picked from the palette), then play it or export it as FEN
+ */
+
+import { BoardEditor, type CastlingSide } from '../core/BoardEditor.js';
+import { NotationConverter } from '../core/GameHistory.js';
+import { STANDARD_FEN } from '../core/Fen.js';
+import { PieceRegistry } from '../core/PieceRegistry.js';
+import { type IPosition, PieceType, PieceColor, GameMode, BOARD_SIZE } from '../types/index.js';
+
+export interface IBoardEditorCallbacks {
+    readonly onPlay: (fen: string, mode: GameMode) => void;
+    readonly onClose: () => void;
+}
+
+type EditorTool = { type: PieceType; color: PieceColor } | 'erase';
+
+export class BoardEditorUI {
+    private static readonly PALETTE_TYPES: readonly PieceType[] = [
+        PieceType.KING,
+        PieceType.QUEEN,
+        PieceType.ROOK,
+        PieceType.BISHOP,
+        PieceType.KNIGHT,
+        PieceType.PAWN
+    ];
+
+    private static readonly CASTLING_OPTIONS: readonly {
+        color: PieceColor;
+        side: CastlingSide;
+        label: string;
+    }[] = [
+        { color: PieceColor.WHITE, side: 'kingside', label: 'White O-O' },
+        { color: PieceColor.WHITE, side: 'queenside', label: 'White O-O-O' },
+        { color: PieceColor.BLACK, side: 'kingside', label: 'Black O-O' },
+        { color: PieceColor.BLACK, side: 'queenside', label: 'Black O-O-O' }
+    ];
+
+    private readonly _page: HTMLElement | null;
+    private readonly _callbacks: IBoardEditorCallbacks;
+    private readonly _editor: BoardEditor;
+
+    // UI State
+    private _tool: EditorTool | null = null;
+    private _dragFrom: IPosition | null = null;
+
+    constructor(page: HTMLElement | null, callbacks: IBoardEditorCallbacks) {
+        this._page = page;
+        this._callbacks = callbacks;
+        this._editor = new BoardEditor();
+    }
+
+    // ============================================================================
+    // SHOW & HIDE
+    // ============================================================================
+
+    /**
+     * Open the editor, optionally on a given position (the last edited one otherwise)
+     */
+    public show(fen?: string): void {
+        if (!this._page) {
+            return;
+        }
+
+        if (fen) {
+            this._editor.loadFen(fen);
+        }
+
+        this._tool = null;
+        this._page.innerHTML = this.createEditorHTML();
+        this._page.classList.remove('hidden');
+        this.setupListeners();
+        this.update();
+    }
+
+    public hide(): void {
+        this._page?.classList.add('hidden');
+    }
+
+    private createEditorHTML(): string {
+        // Registered pieces (fairy pieces) follow the standard ones
+        const palette = (color: PieceColor): string =>
+            [...BoardEditorUI.PALETTE_TYPES, ...PieceRegistry.getTypes()]
+                .map(
+                    (type) => `
+            <button class="editor-palette-piece" draggable="true" data-type="${type}" data-color="${color}" title="${color} ${type}">
+              <img src="${PieceRegistry.getImage(type, color)}" alt="${color} ${type}" draggable="false">
+            </button>`
+                )
+                .join('');
+
+        const castlingOptions = BoardEditorUI.CASTLING_OPTIONS.map(
+            ({ color, side, label }) => `
+            <label class="flex items-center gap-2 text-sm text-white/80">
+              <input type="checkbox" class="editor-castling accent-purple-500" data-color="${color}" data-side="${side}">
+              ${label}
+            </label>`
+        ).join('');
+
+        return `
+      <div class="board-editor-content">
+        <div class="flex items-center justify-between mb-4">
+          <h1 class="text-2xl font-bold text-white">✏️ Board Editor</h1>
+          <button id="editor-close-btn" class="py-2 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white text-sm font-semibold transition-colors">← Back</button>
+        </div>
+
+        <div class="flex flex-col lg:flex-row gap-6">
+          <div>
+            <div class="editor-palette mb-2">
+              ${palette(PieceColor.WHITE)}
+            </div>
+            <div id="editor-board" class="chess-board editor-board"></div>
+            <div class="editor-palette mt-2">
+              ${palette(PieceColor.BLACK)}
+              <button id="editor-erase-btn" class="editor-palette-piece text-2xl" title="Remove pieces">🗑️</button>
+            </div>
+            <p class="text-xs text-white/50 mt-2">Drag pieces onto the board, or pick one and click squares. Drag a piece off the board to remove it.</p>
+          </div>
+
+          <div class="flex-1 space-y-4">
+            <div class="flex gap-2">
+              <button id="editor-start-btn" class="flex-1 py-2 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white text-sm font-semibold transition-colors">Start position</button>
+              <button id="editor-clear-btn" class="flex-1 py-2 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white text-sm font-semibold transition-colors">Clear board</button>
+            </div>
+
+            <div>
+              <h2 class="text-sm font-semibold mb-2 text-white/90">Side to move</h2>
+              <select id="editor-side-select" class="w-full px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white focus:border-purple-400 focus:outline-none transition-colors">
+                <option value="${PieceColor.WHITE}">White to move</option>
+                <option value="${PieceColor.BLACK}">Black to move</option>
+              </select>
+            </div>
+
+            <div>
+              <h2 class="text-sm font-semibold mb-2 text-white/90">Castling rights</h2>
+              <div class="grid grid-cols-2 gap-2">
+                ${castlingOptions}
+              </div>
+            </div>
+
+            <div>
+              <h2 class="text-sm font-semibold mb-2 text-white/90">En passant square</h2>
+              <select id="editor-en-passant-select" class="w-full px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white focus:border-purple-400 focus:outline-none transition-colors"></select>
+            </div>
+
+            <div>
+              <h2 class="text-sm font-semibold mb-2 text-white/90">FEN</h2>
+              <input id="editor-fen-input" type="text" autocomplete="off" spellcheck="false"
+                class="w-full px-3 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white text-xs font-mono focus:border-purple-400 focus:outline-none transition-colors">
+              <div class="flex gap-2 mt-2">
+                <button id="editor-load-fen-btn" class="flex-1 py-2 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white text-sm font-semibold transition-colors">Load FEN</button>
+                <button id="editor-copy-fen-btn" class="flex-1 py-2 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 hover:text-white text-sm font-semibold transition-colors">Copy FEN</button>
+              </div>
+              <p id="editor-message" class="text-xs text-white/60 mt-2 hidden"></p>
+            </div>
+
+            <ul id="editor-errors" class="text-sm text-red-300 space-y-1"></ul>
+
+            <div class="flex gap-2">
+              <button id="editor-play-pvp-btn" class="flex-1 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-bold rounded-xl disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed transition-all">👥 Play vs Human</button>
+              <button id="editor-play-ai-btn" class="flex-1 py-3 bg-gradient-to-r from-blue-600 to-purple-600 text-white font-bold rounded-xl disabled:from-gray-400 disabled:to-gray-400 disabled:cursor-not-allowed transition-all">🤖 Play vs AI</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    `;
+    }
+
+    // ============================================================================
+    // RENDERING
+    // ============================================================================
+
+    /**
+     * Redraw the board and bring every control in line with the edited position
+     */
+    private update(): void {
+        this.renderBoard();
+
+        const sideSelect = document.getElementById('editor-side-select') as HTMLSelectElement;
+        if (sideSelect) {
+            sideSelect.value = this._editor.sideToMove;
+        }
+
+        document.querySelectorAll<HTMLInputElement>('.editor-castling').forEach((checkbox) => {
+            checkbox.checked = this._editor.hasCastlingRight(
+                checkbox.dataset.color as PieceColor,
+                checkbox.dataset.side as CastlingSide
+            );
+        });
+
+        this.updateEnPassantSelect();
+
+        const fenInput = document.getElementById('editor-fen-input') as HTMLInputElement;
+        if (fenInput) {
+            fenInput.value = this._editor.toFen();
+        }
+
+        const errors = this._editor.validate();
+        const errorList = document.getElementById('editor-errors');
+        if (errorList) {
+            errorList.innerHTML = errors.map((error) => `<li>⚠️ ${error}</li>`).join('');
+        }
+
+        for (const id of ['editor-play-pvp-btn', 'editor-play-ai-btn']) {
+            const button = document.getElementById(id) as HTMLButtonElement | null;
+            if (button) {
+                button.disabled = errors.length > 0;
+            }
+        }
+
+        document.querySelectorAll<HTMLElement>('.editor-palette-piece').forEach((button) => {
+            const isErase = button.id === 'editor-erase-btn';
+            const isSelected =
+                this._tool === 'erase'
+                    ? isErase
+                    : !isErase &&
+                      this._tool?.type === button.dataset.type &&
+                      this._tool?.color === button.dataset.color;
+            button.classList.toggle('selected', isSelected);
+        });
+    }
+
+    private updateEnPassantSelect(): void {
+        const select = document.getElementById('editor-en-passant-select') as HTMLSelectElement;
+        if (!select) {
+            return;
+        }
+
+        // Keep an impossible square listed so the validation message explains it
+        const current = this._editor.enPassantTarget;
+        const candidates = this._editor.getEnPassantCandidates();
+        if (current && !candidates.some((c) => c.row === current.row && c.col === current.col)) {
+            candidates.push(current);
+        }
+
+        select.innerHTML =
+            '<option value="">None</option>' +
+            candidates
+                .map((position) => {
+                    const square = NotationConverter.positionToAlgebraic(
+                        position.row,
+                        position.col
+                    );
+                    return `<option value="${square}">${square}</option>`;
+                })
+                .join('');
+        select.value = current
+            ? NotationConverter.positionToAlgebraic(current.row, current.col)
+            : '';
+    }
+
+    private renderBoard(): void {
+        const boardElement = document.getElementById('editor-board');
+        if (!boardElement) {
+            return;
+        }
+
+        boardElement.innerHTML = '';
+
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                boardElement.appendChild(this.createSquare(row, col));
+            }
+        }
+    }
+
+    private createSquare(row: number, col: number): HTMLElement {
+        const square = document.createElement('div');
+        const isLight = (row + col) % 2 === 0;
+
+        square.className = `square ${isLight ? 'light' : 'dark'}`;
+        square.dataset.row = String(row);
+        square.dataset.col = String(col);
+
+        const piece = this._editor.getPiece({ row, col });
+        if (piece) {
+            const pieceEl = document.createElement('img');
+            pieceEl.className = 'piece';
+            pieceEl.src = PieceRegistry.getImage(piece.type, piece.color);
+            pieceEl.alt = `${piece.color} ${piece.type}`;
+            pieceEl.draggable = false;
+            square.appendChild(pieceEl);
+            square.draggable = true;
+        }
+
+        // Add coordinates
+        if (col === 0) {
+            const rankLabel = document.createElement('span');
+            rankLabel.className = `coordinate-rank ${isLight ? 'text-primary' : 'text-secondary'}`;
+            rankLabel.textContent = String(8 - row);
+            square.appendChild(rankLabel);
+        }
+
+        if (row === 7) {
+            const fileLabel = document.createElement('span');
+            fileLabel.className = `coordinate-file ${isLight ? 'text-primary' : 'text-secondary'}`;
+            fileLabel.textContent = String.fromCharCode(97 + col); // 'a' + col
+            square.appendChild(fileLabel);
+        }
+
+        return square;
+    }
+
+    private showMessage(message: string): void {
+        const el = document.getElementById('editor-message');
+        if (el) {
+            el.textContent = message;
+            el.classList.remove('hidden');
+        }
+    }
+
+    // ============================================================================
+    // EVENT HANDLING
+    // ============================================================================
+
+    private setupListeners(): void {
+        this.setupPaletteListeners();
+        this.setupBoardListeners();
+
+        document.getElementById('editor-close-btn')?.addEventListener('click', () => {
+            this.hide();
+            this._callbacks.onClose();
+        });
+
+        document.getElementById('editor-start-btn')?.addEventListener('click', () => {
+            this._editor.loadFen(STANDARD_FEN);
+            this.update();
+        });
+
+        document.getElementById('editor-clear-btn')?.addEventListener('click', () => {
+            this._editor.clear();
+            this.update();
+        });
+
+        const sideSelect = document.getElementById('editor-side-select') as HTMLSelectElement;
+        sideSelect?.addEventListener('change', () => {
+            this._editor.setSideToMove(sideSelect.value as PieceColor);
+            this.update();
+        });
+
+        document.querySelectorAll<HTMLInputElement>('.editor-castling').forEach((checkbox) => {
+            checkbox.addEventListener('change', () => {
+                this._editor.setCastlingRight(
+                    checkbox.dataset.color as PieceColor,
+                    checkbox.dataset.side as CastlingSide,
+                    checkbox.checked
+                );
+                this.update();
+            });
+        });
+
+        const enPassantSelect = document.getElementById(
+            'editor-en-passant-select'
+        ) as HTMLSelectElement;
+        enPassantSelect?.addEventListener('change', () => {
+            this._editor.setEnPassantTarget(
+                NotationConverter.algebraicToPosition(enPassantSelect.value)
+            );
+            this.update();
+        });
+
+        this.setupFenListeners();
+
+        document.getElementById('editor-play-pvp-btn')?.addEventListener('click', () => {
+            this.play(GameMode.PVP);
+        });
+
+        document.getElementById('editor-play-ai-btn')?.addEventListener('click', () => {
+            this.play(GameMode.AI);
+        });
+    }
+
+    private setupPaletteListeners(): void {
+        document.querySelectorAll<HTMLElement>('.editor-palette-piece').forEach((button) => {
+            const isErase = button.id === 'editor-erase-btn';
+            const type = button.dataset.type as PieceType;
+            const color = button.dataset.color as PieceColor;
+
+            // Clicking picks the piece for click-to-place; clicking it again drops it
+            button.addEventListener('click', () => {
+                const isSelected = button.classList.contains('selected');
+                this._tool = isSelected ? null : isErase ? 'erase' : { type, color };
+                this.update();
+            });
+
+            if (!isErase) {
+                button.addEventListener('dragstart', (e) => {
+                    this._dragFrom = null;
+                    e.dataTransfer?.setData('text/plain', `${color}:${type}`);
+                });
+            }
+        });
+    }
+
+    private setupBoardListeners(): void {
+        const boardElement = document.getElementById('editor-board');
+        if (!boardElement) {
+            return;
+        }
+
+        boardElement.addEventListener('click', (e) => {
+            const position = this.getSquarePosition(e);
+            if (position && this._tool) {
+                this.applyTool(position, this._tool);
+            }
+        });
+
+        // Right-click clears a square
+        boardElement.addEventListener('contextmenu', (e) => {
+            const position = this.getSquarePosition(e);
+            if (position) {
+                e.preventDefault();
+                this._editor.removePiece(position);
+                this.update();
+            }
+        });
+
+        boardElement.addEventListener('dragstart', (e) => {
+            const position = this.getSquarePosition(e);
+            if (position) {
+                this._dragFrom = position;
+                e.dataTransfer?.setData('text/plain', 'board');
+            }
+        });
+
+        boardElement.addEventListener('dragover', (e) => {
+            e.preventDefault();
+        });
+
+        boardElement.addEventListener('drop', (e) => {
+            e.preventDefault();
+            const position = this.getSquarePosition(e);
+            const data = e.dataTransfer?.getData('text/plain') ?? '';
+            if (!position) {
+                return;
+            }
+
+            if (this._dragFrom) {
+                this._editor.movePiece(this._dragFrom, position);
+                this._dragFrom = null;
+            } else {
+                const [color, type] = data.split(':') as [PieceColor, string];
+                if (Object.values(PieceColor).includes(color) && PieceRegistry.isPieceType(type)) {
+                    this._editor.setPiece(position, type, color);
+                }
+            }
+            this.update();
+        });
+
+        // A piece dragged off the board is removed
+        boardElement.addEventListener('dragend', (e) => {
+            if (this._dragFrom && e.dataTransfer?.dropEffect === 'none') {
+                this._editor.removePiece(this._dragFrom);
+                this.update();
+            }
+            this._dragFrom = null;
+        });
+    }
+
+    private setupFenListeners(): void {
+        const fenInput = document.getElementById('editor-fen-input') as HTMLInputElement;
+
+        const loadFen = (): void => {
+            try {
+                this._editor.loadFen(fenInput.value);
+                this.update();
+                this.showMessage('Position loaded');
+            } catch (error) {
+                this.showMessage(error instanceof Error ? error.message : String(error));
+            }
+        };
+
+        document.getElementById('editor-load-fen-btn')?.addEventListener('click', loadFen);
+        fenInput?.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                loadFen();
+            }
+        });
+
+        document.getElementById('editor-copy-fen-btn')?.addEventListener('click', () => {
+            const fen = this._editor.toFen();
+            navigator.clipboard.writeText(fen).then(
+                () => this.showMessage('FEN copied to the clipboard'),
+                () => this.showMessage(fen)
+            );
+        });
+    }
+
+    private getSquarePosition(e: Event): IPosition | null {
+        const square = (e.target as HTMLElement).closest('.square') as HTMLElement | null;
+        if (!square) {
+            return null;
+        }
+
+        return {
+            row: parseInt(square.dataset.row ?? '0', 10),
+            col: parseInt(square.dataset.col ?? '0', 10)
+        };
+    }
+
+    /**
+     * Place the picked piece; clicking a square that already holds it removes it
+     */
+    private applyTool(position: IPosition, tool: EditorTool): void {
+        const piece = this._editor.getPiece(position);
+
+        if (tool === 'erase' || (piece?.type === tool.type && piece.color === tool.color)) {
+            this._editor.removePiece(position);
+        } else {
+            this._editor.setPiece(position, tool.type, tool.color);
+        }
+        this.update();
+    }
+
+    private play(mode: GameMode): void {
+        if (!this._editor.isValid()) {
+            return;
+        }
+
+        this.hide();
+        this._callbacks.onPlay(this._editor.toFen(), mode);
+    }
+}
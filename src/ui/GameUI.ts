@@ -5,21 +5,118 @@
 
 import { Game } from '../core/Game.js';
 import { ChessAI } from '../ai/ChessAI.js';
+import { type IPgnGame, PgnParser, PgnWriter } from '../core/Pgn.js';
+import { NotationConverter } from '../core/GameHistory.js';
+import { ChessClock } from '../core/ChessClock.js';
+import { Chess960 } from '../core/Chess960.js';
+import { FogOfWar } from '../core/FogOfWar.js';
+import { Umpire } from '../core/Umpire.js';
+import { PieceRegistry } from '../core/PieceRegistry.js';
 import { ThemeManager, THEMES } from './ThemeManager.js';
+import { BoardEditorUI } from './BoardEditorUI.js';
+import { ThreeCheckRules } from '../variants/index.js';
 import {
+    type IMove,
     type IPosition,
     type IGameSettings,
+    type ITimeControl,
     type MoveList,
     PieceType,
     PieceColor,
+    MoveType,
     GameMode,
     GameStatus,
     AIDifficulty,
+    DrawReason,
+    Variant,
+    VariantWinReason,
+    DelayType,
+    GameEventType,
     BOARD_SIZE
 } from '../types/index.js';
-import { PIECE_IMAGES } from '../assets/pieces/index.js';
 
 export class GameUI {
+    private static readonly DRAW_REASON_LABELS: Record<DrawReason, string> = {
+        [DrawReason.STALEMATE]: 'Stalemate',
+        [DrawReason.AGREEMENT]: 'Draw by agreement',
+        [DrawReason.FIFTY_MOVE]: 'Fifty-move rule',
+        [DrawReason.SEVENTY_FIVE_MOVE]: 'Seventy-five-move rule',
+        [DrawReason.THREEFOLD_REPETITION]: 'Threefold repetition',
+        [DrawReason.FIVEFOLD_REPETITION]: 'Fivefold repetition',
+        [DrawReason.INSUFFICIENT_MATERIAL]: 'Insufficient material',
+        [DrawReason.TIMEOUT_VS_INSUFFICIENT_MATERIAL]: 'Timeout vs insufficient material',
+        [DrawReason.BOTH_KINGS_REACHED_GOAL]: 'Both kings reached the eighth rank'
+    };
+
+    private static readonly VARIANT_LABELS: Record<Variant, string> = {
+        [Variant.STANDARD]: '♟️ Standard',
+        [Variant.KING_OF_THE_HILL]: '⛰️ King of the Hill - bring your king to the centre',
+        [Variant.THREE_CHECK]: '➕ Three-check - give check three times',
+        [Variant.ATOMIC]: '💥 Atomic - captures explode, blow up the enemy king',
+        [Variant.CRAZYHOUSE]: '🏠 Crazyhouse - drop captured pieces back on the board',
+        [Variant.ANTICHESS]: '🙃 Antichess - captures are forced, lose all your pieces',
+        [Variant.HORDE]: '🐜 Horde - 36 white pawns against a full black army',
+        [Variant.RACING_KINGS]: '🏁 Racing Kings - race your king to the eighth rank, no checks',
+        [Variant.DUCK]: '🦆 Duck - move, then place the duck; capture the king to win',
+        [Variant.DARK]: '🌫️ Dark Chess - see only where your pieces can go, capture the king',
+        [Variant.KRIEGSPIEL]: '🎖️ Kriegspiel - see only your own pieces, listen to the umpire'
+    };
+
+    // Crazyhouse pockets list the strongest pieces first
+    private static readonly POCKET_ORDER = [
+        PieceType.QUEEN,
+        PieceType.ROOK,
+        PieceType.BISHOP,
+        PieceType.KNIGHT,
+        PieceType.PAWN
+    ];
+
+    private static readonly VARIANT_WIN_LABELS: Record<VariantWinReason, string> = {
+        [VariantWinReason.KING_IN_CENTER]: 'King reached the hill',
+        [VariantWinReason.THIRD_CHECK]: 'Third check',
+        [VariantWinReason.KING_EXPLODED]: 'King exploded',
+        [VariantWinReason.NO_PIECES_LEFT]: 'All pieces lost',
+        [VariantWinReason.STALEMATED]: 'Stalemated',
+        [VariantWinReason.HORDE_CAPTURED]: 'Horde captured',
+        [VariantWinReason.KING_REACHED_GOAL]: 'King reached the eighth rank',
+        [VariantWinReason.KING_CAPTURED]: 'King captured'
+    };
+
+    private static readonly TIME_CONTROLS: { label: string; timeControl: ITimeControl | null }[] = [
+        { label: '♾️ Unlimited', timeControl: null },
+        { label: '⚡ 1 + 0 - Bullet', timeControl: { initialTime: 60, increment: 0 } },
+        { label: '🔥 3 + 2 - Blitz', timeControl: { initialTime: 180, increment: 2 } },
+        { label: '🔥 5 + 0 - Blitz', timeControl: { initialTime: 300, increment: 0 } },
+        { label: '🐇 10 + 0 - Rapid', timeControl: { initialTime: 600, increment: 0 } },
+        { label: '🐇 15 + 10 - Rapid', timeControl: { initialTime: 900, increment: 10 } },
+        { label: '🐢 30 + 0 - Classical', timeControl: { initialTime: 1800, increment: 0 } },
+        {
+            label: '🐢 40 moves in 90 min, then 30 min + 30s - Classical',
+            timeControl: {
+                initialTime: 5400,
+                increment: 0,
+                moves: 40,
+                stages: [{ time: 1800, increment: 30 }]
+            }
+        },
+        {
+            label: '⏳ 5 min, 3s Bronstein delay',
+            timeControl: {
+                initialTime: 300,
+                increment: 0,
+                delay: 3,
+                delayType: DelayType.BRONSTEIN
+            }
+        },
+        {
+            label: '⏳ 5 min, 5s simple delay',
+            timeControl: { initialTime: 300, increment: 0, delay: 5, delayType: DelayType.SIMPLE }
+        }
+    ];
+
+    // Clocks are redrawn (and checked for flag fall) at this interval
+    private static readonly CLOCK_TICK_MS = 100;
+
     private readonly _game: Game;
     private readonly _ai: ChessAI;
     private readonly _themeManager: ThemeManager;
@@ -33,13 +130,18 @@ export class GameUI {
     private _historyBackBtn: HTMLButtonElement | null = null;
     private _historyForwardBtn: HTMLButtonElement | null = null;
     private _historyEndBtn: HTMLButtonElement | null = null;
+    private _boardEditor: BoardEditorUI | null = null;
 
     // UI State
     private _selectedSquare: IPosition | null = null;
     private _validMoves: MoveList = [];
+    private _selectedDrop: PieceType | null = null; // pocket piece picked up (Crazyhouse)
     private _playerNames: { white: string; black: string } = { white: 'White', black: 'Black' };
     private _isAIEnabled = false;
     private _suggestedMove: { from: IPosition; to: IPosition } | null = null;
+    private _clockTimer: ReturnType<typeof setInterval> | null = null;
+    private _umpireLog: string[] = []; // announcements so far (Kriegspiel)
+    private _handover: HTMLElement | null = null; // screen between hot-seat turns (Dark chess, Kriegspiel)
 
     constructor() {
         this._game = new Game();
@@ -62,34 +164,276 @@ export class GameUI {
         this._historyBackBtn = document.getElementById('history-back-btn') as HTMLButtonElement;
         this._historyForwardBtn = document.getElementById('history-forward-btn') as HTMLButtonElement;
         this._historyEndBtn = document.getElementById('history-end-btn') as HTMLButtonElement;
+        this._boardEditor = new BoardEditorUI(document.getElementById('board-editor-page'), {
+            onPlay: (fen, mode) => this.startFromPosition(fen, mode),
+            onClose: () => this.showStartupPage()
+        });
+
+        this._game.subscribe(GameEventType.GAME_END, () => this.onGameEnd());
+        this._game.subscribe(GameEventType.GAME_START, () => this.onGameStart());
+        this._game.subscribe(GameEventType.MOVE_MADE, ({ data }) =>
+            this.onMoveMade(data.move, data.color)
+        );
 
         this.setupHistoryListeners();
+        this.setupPocketListeners();
+        this.setupGameRecordListeners();
+        this.setupGameActionListeners();
         this.showStartupPage();
     }
 
+    private setupGameRecordListeners(): void {
+        document.getElementById('export-pgn-btn')?.addEventListener('click', () => {
+            this.downloadFile('game.pgn', PgnWriter.write(this._game), 'application/x-chess-pgn');
+        });
+
+        const importInput = document.getElementById('import-pgn-input') as HTMLInputElement | null;
+        document.getElementById('import-pgn-btn')?.addEventListener('click', () => {
+            importInput?.click();
+        });
+
+        importInput?.addEventListener('change', () => {
+            const file = importInput.files?.[0];
+            if (file) {
+                void file.text().then((text) => this.importPgn(text));
+            }
+            importInput.value = '';
+        });
+
+        const sanInput = document.getElementById('san-input') as HTMLInputElement | null;
+        sanInput?.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && sanInput.value.trim()) {
+                void this.handleTypedMove(sanInput);
+            }
+        });
+    }
+
+    private setupGameActionListeners(): void {
+        document.getElementById('resign-btn')?.addEventListener('click', () => {
+            // Against the AI the human always resigns, otherwise the side to move does
+            const color = this._isAIEnabled ? PieceColor.WHITE : this._game.currentPlayer;
+            if (this._game.resign(color)) {
+                this.updateUI();
+            }
+        });
+
+        document.getElementById('offer-draw-btn')?.addEventListener('click', () => {
+            const color = this._isAIEnabled ? PieceColor.WHITE : this._game.currentPlayer;
+            if (!this._game.offerDraw(color)) {
+                return;
+            }
+
+            this.updateUI();
+            if (this._isAIEnabled) {
+                void this.handleAIDrawResponse();
+            }
+        });
+
+        document.getElementById('claim-draw-btn')?.addEventListener('click', () => {
+            if (this._game.claimDraw()) {
+                this.updateUI();
+            }
+        });
+
+        document.getElementById('accept-draw-btn')?.addEventListener('click', () => {
+            if (this._game.acceptDraw(this.getDrawResponder())) {
+                this.updateUI();
+            }
+        });
+
+        document.getElementById('decline-draw-btn')?.addEventListener('click', () => {
+            if (this._game.declineDraw(this.getDrawResponder())) {
+                this.updateUI();
+            }
+        });
+    }
+
+    private async handleAIDrawResponse(): Promise<void> {
+        await this.delay(500);
+
+        if (this._ai.respondToDrawOffer(this._game)) {
+            this._game.acceptDraw(PieceColor.BLACK);
+            this.updateUI();
+            return;
+        }
+
+        this._game.declineDraw(PieceColor.BLACK);
+        this.updateUI();
+        this.showGameActionsMessage('The computer declined the draw offer');
+    }
+
+    /**
+     * The player who answers a pending draw offer: the opponent of the one who made it
+     */
+    private getDrawResponder(): PieceColor {
+        return this._game.drawOffer === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    }
+
+    private showGameActionsMessage(message: string): void {
+        const el = document.getElementById('game-actions-message');
+        if (el) {
+            el.textContent = message;
+            el.classList.remove('hidden');
+        }
+    }
+
+    private async handleTypedMove(input: HTMLInputElement): Promise<void> {
+        // Kriegspiel moves are tried on the board only: a typed move is read against
+        // the whole position, and its errors would tell where hidden pieces stand
+        if (this._game.isGameOver() || this.isAITurn() || this._game.rules.hasUmpire) {
+            return;
+        }
+
+        try {
+            const move = NotationConverter.parseSan(this._game, input.value);
+            const result = move.dropPiece
+                ? this._game.dropPiece(move.dropPiece, move.to)
+                : this._game.executeMove(move.from, move.to);
+            if (result.needsPromotion && move.promotionPiece) {
+                this._game.promotePawn(move.promotionPiece);
+            }
+            if (this._game.pendingDuck && move.duck) {
+                this._game.placeDuck(move.duck);
+            }
+        } catch (error) {
+            this.showGameRecordMessage(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        input.value = '';
+        this._selectedSquare = null;
+        this._validMoves = this._game.getDuckSquares();
+        this._suggestedMove = null;
+
+        this.renderBoard();
+        this.updateUI();
+
+        if (this.isAITurn() && !this._game.isGameOver()) {
+            await this.makeAIMove();
+        }
+    }
+
+    private isAITurn(): boolean {
+        return this._isAIEnabled && this._game.currentPlayer === PieceColor.BLACK;
+    }
+
+    private importPgn(text: string): void {
+        try {
+            const games = PgnParser.parse(text);
+            if (games.length === 0) {
+                this.showGameRecordMessage('No games found in file');
+                return;
+            }
+
+            if (games.length === 1) {
+                this.loadPgnGame(games, 0);
+            } else {
+                this.showPgnGamePicker(games);
+            }
+        } catch (error) {
+            this.showGameRecordMessage(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    /**
+     * Let the player pick which game of a multi-game file to load
+     */
+    private showPgnGamePicker(games: IPgnGame[]): void {
+        const modal = document.createElement('div');
+        modal.className = 'promotion-modal';
+        modal.innerHTML = `
+      <div class="promotion-content pgn-picker-content">
+        <h2 class="text-2xl font-bold mb-4 text-white">Choose a Game</h2>
+        <div class="pgn-game-list"></div>
+        <button id="pgn-picker-cancel" class="mt-4 py-2 px-4 rounded-lg bg-white/10 hover:bg-white/20 text-white/80 text-sm font-semibold transition-colors">Cancel</button>
+      </div>
+    `;
+
+        // Tag values come from the file, so they are set as text rather than markup
+        const list = modal.querySelector('.pgn-game-list');
+        games.forEach((pgn, index) => {
+            const { White = '?', Black = '?', Event, Date } = pgn.tags;
+            const button = document.createElement('button');
+            button.className = 'pgn-game-option';
+            const details = [Event, Date].filter((tag) => tag && !tag.includes('?'));
+            button.textContent = [
+                `${index + 1}. ${White} - ${Black} ${pgn.result}`,
+                ...details
+            ].join(', ');
+            button.addEventListener('click', () => {
+                modal.remove();
+                this.loadPgnGame(games, index);
+            });
+            list?.appendChild(button);
+        });
+
+        document.body.appendChild(modal);
+        document
+            .getElementById('pgn-picker-cancel')
+            ?.addEventListener('click', () => modal.remove());
+    }
+
+    private loadPgnGame(games: IPgnGame[], index: number): void {
+        try {
+            const pgn = games[index];
+            PgnParser.loadInto(this._game, pgn);
+
+            // A new game then starts in the variant of the loaded one
+            const variantSelect = document.getElementById(
+                'variant-select'
+            ) as HTMLSelectElement | null;
+            if (variantSelect) {
+                variantSelect.value = this._game.variant;
+            }
+
+            this._playerNames = {
+                white: pgn.tags.White ?? this._playerNames.white,
+                black: pgn.tags.Black ?? this._playerNames.black
+            };
+            this._suggestedMove = null;
+            this.onHistoryChange();
+            this.startClockTimer();
+            this.showGameRecordMessage(
+                `Loaded ${pgn.moves.length} plies` +
+                    (games.length > 1 ? ` (game ${index + 1} of ${games.length})` : '')
+            );
+        } catch (error) {
+            this.showGameRecordMessage(error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    private showGameRecordMessage(message: string): void {
+        const el = document.getElementById('game-record-message');
+        if (el) {
+            el.textContent = message;
+            el.classList.remove('hidden');
+        }
+    }
+
+    private downloadFile(filename: string, content: string, mimeType: string): void {
+        const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
     private setupHistoryListeners(): void {
         this._historyStartBtn?.addEventListener('click', () => {
-            if (this._game.goToStart()) {
-                this.onHistoryChange();
-            }
+            this.navigateHistory(() => this._game.goToStart());
         });
 
         this._historyBackBtn?.addEventListener('click', () => {
-            if (this._game.undoMove()) {
-                this.onHistoryChange();
-            }
+            this.navigateHistory(() => this._game.undoMove());
         });
 
         this._historyForwardBtn?.addEventListener('click', () => {
-            if (this._game.redoMove()) {
-                this.onHistoryChange();
-            }
+            this.navigateHistory(() => this._game.redoMove());
         });
 
         this._historyEndBtn?.addEventListener('click', () => {
-            if (this._game.goToLatest()) {
-                this.onHistoryChange();
-            }
+            this.navigateHistory(() => this._game.goToLatest());
         });
 
         // Delegate click for history items
@@ -98,14 +442,28 @@ export class GameUI {
             const item = target.closest('.history-item');
             if (item) {
                 const index = parseInt(item.getAttribute('data-index') || '0', 10);
-                if (this._game.goToHistoryPoint(index)) {
-                    this.onHistoryChange();
-                }
+                this.navigateHistory(() => this._game.goToHistoryPoint(index));
             }
         });
     }
 
+    private navigateHistory(step: () => boolean): void {
+        if (!this.isHistoryLocked() && step()) {
+            this.onHistoryChange();
+        }
+    }
+
+    /**
+     * In Dark chess and Kriegspiel the view follows the side to move, so stepping back
+     * would show the other side's pieces and undo would take back moves already announced
+     */
+    private isHistoryLocked(): boolean {
+        const { hasFogOfWar, hasUmpire } = this._game.rules;
+        return (hasFogOfWar || hasUmpire) && !this._game.isGameOver();
+    }
+
     private onHistoryChange(): void {
+        this._selectedDrop = null;
         this.renderBoard();
         this.updateUI();
         this._selectedSquare = null;
@@ -121,6 +479,7 @@ export class GameUI {
             return;
         }
 
+        this.stopClockTimer();
         this._startupPage.innerHTML = this.createStartupHTML();
         this._startupPage.classList.remove('hidden');
 
@@ -136,6 +495,14 @@ export class GameUI {
             .map(([key, theme]) => `<option value="${key}">${theme.name}</option>`)
             .join('');
 
+        const timeControlOptions = GameUI.TIME_CONTROLS.map(
+            ({ label }, index) => `<option value="${index}">${label}</option>`
+        ).join('');
+
+        const variantOptions = Object.entries(GameUI.VARIANT_LABELS)
+            .map(([variant, label]) => `<option value="${variant}">${label}</option>`)
+            .join('');
+
         return `
       <div class="startup-content">
         <div class="text-center mb-8">
@@ -186,6 +553,34 @@ export class GameUI {
           </select>
         </div>
 
+        <div class="mb-6">
+          <h2 class="text-lg font-semibold mb-3 text-white/90">Time Control</h2>
+          <select id="time-control-select" class="w-full px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white focus:border-purple-400 focus:outline-none transition-colors">
+            ${timeControlOptions}
+          </select>
+          <label class="flex items-center gap-2 mt-3 text-sm text-white/80">
+            <input type="checkbox" id="time-odds-toggle" class="accent-purple-500">
+            Time odds - give Black a different time control
+          </label>
+          <select id="black-time-control-select" class="hidden w-full mt-2 px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white focus:border-purple-400 focus:outline-none transition-colors">
+            ${timeControlOptions}
+          </select>
+        </div>
+
+        <div class="mb-6">
+          <h2 class="text-lg font-semibold mb-3 text-white/90">Variant</h2>
+          <select id="variant-select" class="w-full mb-3 px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white focus:border-purple-400 focus:outline-none transition-colors">
+            ${variantOptions}
+          </select>
+          <label class="flex items-center gap-2 text-sm text-white/80">
+            <input type="checkbox" id="chess960-toggle" class="accent-purple-500">
+            Chess960 - shuffle the back rank
+          </label>
+          <input type="number" id="chess960-position" min="0" max="959"
+            class="hidden w-full mt-2 px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white placeholder:text-white/40 focus:border-purple-400 focus:outline-none transition-colors"
+            placeholder="Start position 0-959 (blank for random)">
+        </div>
+
         <div class="mb-8">
           <h2 class="text-lg font-semibold mb-3 text-white/90">Board Theme</h2>
           <select id="theme-select" class="w-full px-4 py-2 bg-white/10 border-2 border-white/20 rounded-lg text-white focus:border-purple-400 focus:outline-none transition-colors">
@@ -199,6 +594,10 @@ export class GameUI {
                  disabled:cursor-not-allowed transition-all transform hover:scale-[1.02] active:scale-[0.98]">
           🎮 Start Game
         </button>
+        <button id="board-editor-btn"
+          class="w-full mt-3 py-3 bg-white/10 hover:bg-white/20 text-white/80 hover:text-white font-semibold rounded-xl transition-colors">
+          ✏️ Set Up a Position
+        </button>
       </div>
     `;
     }
@@ -233,6 +632,26 @@ export class GameUI {
             });
         });
 
+        document.getElementById('board-editor-btn')?.addEventListener('click', () => {
+            // The startup page only hides, so its settings still apply when the editor starts a game
+            this._startupPage?.classList.add('hidden');
+            this._boardEditor?.show();
+        });
+
+        const timeOddsToggle = document.getElementById('time-odds-toggle') as HTMLInputElement;
+        timeOddsToggle?.addEventListener('change', () => {
+            document
+                .getElementById('black-time-control-select')
+                ?.classList.toggle('hidden', !timeOddsToggle.checked);
+        });
+
+        const chess960Toggle = document.getElementById('chess960-toggle') as HTMLInputElement;
+        chess960Toggle?.addEventListener('change', () => {
+            document
+                .getElementById('chess960-position')
+                ?.classList.toggle('hidden', !chess960Toggle.checked);
+        });
+
         // Preview theme on change
         if (themeSelect) {
             themeSelect.addEventListener('change', () => {
@@ -261,6 +680,16 @@ export class GameUI {
         const themeSelect = document.getElementById('theme-select') as HTMLSelectElement;
         const theme = themeSelect?.value ?? 'classic';
 
+        const timeControl = this.getSelectedTimeControl('time-control-select');
+        const hasTimeOdds = (document.getElementById('time-odds-toggle') as HTMLInputElement)
+            ?.checked;
+        const blackTimeControl = hasTimeOdds
+            ? this.getSelectedTimeControl('black-time-control-select')
+            : undefined;
+        const chess960Position = this.getSelectedChess960Position();
+        const variantSelect = document.getElementById('variant-select') as HTMLSelectElement | null;
+        const variant = (variantSelect?.value ?? Variant.STANDARD) as Variant;
+
         if (mode === GameMode.PVP) {
             const whiteName =
                 (document.getElementById('white-player-name') as HTMLInputElement)?.value.trim() ||
@@ -273,8 +702,16 @@ export class GameUI {
                 mode: GameMode.PVP,
                 players: {
                     white: { name: whiteName, color: PieceColor.WHITE, isAI: false },
-                    black: { name: blackName, color: PieceColor.BLACK, isAI: false }
+                    black: {
+                        name: blackName,
+                        color: PieceColor.BLACK,
+                        isAI: false,
+                        timeControl: blackTimeControl
+                    }
                 },
+                timeControl,
+                chess960Position,
+                variant,
                 theme
             };
         } else {
@@ -285,18 +722,57 @@ export class GameUI {
                 mode: GameMode.AI,
                 players: {
                     white: { name: 'You', color: PieceColor.WHITE, isAI: false },
-                    black: { name: 'AI', color: PieceColor.BLACK, isAI: true }
+                    black: {
+                        name: 'AI',
+                        color: PieceColor.BLACK,
+                        isAI: true,
+                        timeControl: blackTimeControl
+                    }
                 },
                 aiDifficulty: difficulty,
+                timeControl,
+                chess960Position,
+                variant,
                 theme
             };
         }
     }
 
+    private getSelectedTimeControl(selectId: string): ITimeControl | undefined {
+        const select = document.getElementById(selectId) as HTMLSelectElement | null;
+        return GameUI.TIME_CONTROLS[Number(select?.value ?? 0)]?.timeControl ?? undefined;
+    }
+
+    private getSelectedChess960Position(): number | undefined {
+        const toggle = document.getElementById('chess960-toggle') as HTMLInputElement | null;
+        if (!toggle?.checked) {
+            return undefined;
+        }
+
+        const input = document.getElementById('chess960-position') as HTMLInputElement | null;
+        const value = input?.value.trim() ?? '';
+        const position = value === '' ? NaN : Number(value);
+        return Number.isInteger(position) && position >= 0 && position < Chess960.POSITION_COUNT
+            ? position
+            : Chess960.randomPosition();
+    }
+
     // ============================================================================
     // GAME START
     // ============================================================================
 
+    /**
+     * Start a game from a position set up in the board editor, with the
+     * startup page's names, difficulty, time control and theme
+     */
+    private startFromPosition(fen: string, mode: GameMode): void {
+        this.startGame({
+            ...this.getGameSettings(mode),
+            chess960Position: undefined,
+            startFen: fen
+        });
+    }
+
     private startGame(settings: IGameSettings): void {
         this._game.initialize(settings);
 
@@ -325,6 +801,153 @@ export class GameUI {
         this.updateUI();
         this.setupBoardListeners();
         this.setupInlineNewGameButton();
+        this.startClockTimer();
+
+        // Set-up positions may have Black, and so the AI, to move first
+        if (this.isAITurn()) {
+            void this.makeAIMove();
+        }
+    }
+
+    // ============================================================================
+    // CLOCK
+    // ============================================================================
+
+    private startClockTimer(): void {
+        this.stopClockTimer();
+        if (this._game.clock) {
+            this._clockTimer = setInterval(() => this.handleFlagFall(), GameUI.CLOCK_TICK_MS);
+        }
+    }
+
+    private stopClockTimer(): void {
+        if (this._clockTimer !== null) {
+            clearInterval(this._clockTimer);
+            this._clockTimer = null;
+        }
+    }
+
+    /**
+     * End the game if the player to move has run out of time
+     * Returns true when the flag fell
+     */
+    private handleFlagFall(): boolean {
+        if (!this._game.checkFlagFall()) {
+            this.updateClocks();
+            return false;
+        }
+
+        this._selectedSquare = null;
+        this._selectedDrop = null;
+        this._validMoves = [];
+        this.renderBoard();
+        this.updateUI();
+        return true;
+    }
+
+    private updateClocks(): void {
+        const clock = this._game.clock;
+        const card = document.getElementById('clock-card');
+        card?.classList.toggle('hidden', !clock);
+        if (!clock) {
+            return;
+        }
+
+        const whiteControl = this.describeTimeControl(clock.getTimeControl(PieceColor.WHITE));
+        const blackControl = this.describeTimeControl(clock.getTimeControl(PieceColor.BLACK));
+        const hasTimeOdds = whiteControl !== blackControl;
+
+        const label = document.getElementById('clock-time-control');
+        if (label) {
+            label.textContent = hasTimeOdds ? 'Time odds' : whiteControl;
+        }
+
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const remaining = clock.getRemaining(color);
+            const isActive = clock.isRunning && clock.activeColor === color;
+
+            const name = document.getElementById(`clock-${color}-name`);
+            if (name) {
+                name.textContent =
+                    color === PieceColor.WHITE ? this._playerNames.white : this._playerNames.black;
+            }
+
+            const info = document.getElementById(`clock-${color}-info`);
+            if (info) {
+                info.textContent = this.getClockInfo(clock, color, hasTimeOdds);
+            }
+
+            const time = document.getElementById(`clock-${color}-time`);
+            if (time) {
+                time.textContent = this.formatClockTime(remaining);
+                time.classList.toggle('text-red-400', remaining < 10_000);
+            }
+
+            document.getElementById(`clock-${color}`)?.classList.toggle('ring-2', isActive);
+        }
+    }
+
+    /**
+     * Secondary clock line: the player's own control in time-odds games,
+     * moves left in the current stage and any delay still running
+     */
+    private getClockInfo(clock: ChessClock, color: PieceColor, hasTimeOdds: boolean): string {
+        const parts: string[] = [];
+
+        if (hasTimeOdds) {
+            parts.push(this.describeTimeControl(clock.getTimeControl(color)));
+        }
+
+        const movesToGo = clock.getMovesToNextStage(color);
+        if (movesToGo !== null) {
+            parts.push(`${movesToGo} moves to time control`);
+        }
+
+        const delay = clock.getDelayRemaining(color);
+        if (delay > 0 && clock.isRunning) {
+            parts.push(`delay ${(delay / 1000).toFixed(1)}s`);
+        }
+
+        return parts.join(' · ');
+    }
+
+    /**
+     * Describe a time control, e.g. "40 moves in 90 min → 30 min + 30s"
+     */
+    private describeTimeControl(timeControl: ITimeControl): string {
+        return ChessClock.getStages(timeControl)
+            .map(({ time, increment, delay, delayType, moves }) => {
+                let text = `${time / 60} min`;
+                if (moves) {
+                    text = `${moves} moves in ${text}`;
+                }
+                if (increment) {
+                    text += ` + ${increment}s`;
+                }
+                if (delay) {
+                    text += `, ${delay}s ${delayType ?? DelayType.SIMPLE} delay`;
+                }
+                return text;
+            })
+            .join(' → ');
+    }
+
+    /**
+     * Format milliseconds as M:SS (H:MM:SS past an hour), with tenths under ten seconds
+     */
+    private formatClockTime(ms: number): string {
+        if (ms < 10_000) {
+            return `0:0${(Math.floor(ms / 100) / 10).toFixed(1)}`;
+        }
+
+        const total = Math.floor(ms / 1000);
+        const hours = Math.floor(total / 3600);
+        const minutes = Math.floor((total % 3600) / 60);
+        const seconds = String(total % 60).padStart(2, '0');
+
+        return hours > 0
+            ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+            : `${minutes}:${seconds}`;
     }
 
     private setupInlineNewGameButton(): void {
@@ -346,24 +969,71 @@ export class GameUI {
         }
 
         this._boardElement.innerHTML = '';
-        const kingInCheck = this._game.getKingInCheckPosition();
+        const hiddenColor = this.getHiddenColor();
+        const kingInCheck =
+            hiddenColor === this._game.currentPlayer ? null : this._game.getKingInCheckPosition();
+        const visible = this.getVisibleSquares();
 
         for (let row = 0; row < BOARD_SIZE; row++) {
             for (let col = 0; col < BOARD_SIZE; col++) {
-                const square = this.createSquare(row, col, kingInCheck);
+                const square = this.createSquare(row, col, kingInCheck, visible, hiddenColor);
                 this._boardElement.appendChild(square);
             }
         }
     }
 
-    private createSquare(row: number, col: number, kingInCheck: IPosition | null): HTMLElement {
+    /**
+     * Squares the player at the board can see under fog of war (Dark chess), or
+     * null when everything is shown: in other variants and once the game is over
+     * Against the AI that is always White; in hot-seat play, the player to move
+     */
+    private getVisibleSquares(): boolean[][] | null {
+        if (!this._game.rules.hasFogOfWar || this._game.isGameOver()) {
+            return null;
+        }
+
+        return FogOfWar.getVisibleSquares(this._game.board, this.getViewer());
+    }
+
+    /**
+     * Color whose pieces are kept from the player at the board (Kriegspiel), or
+     * null when both sides are shown
+     */
+    private getHiddenColor(): PieceColor | null {
+        if (!this._game.rules.hasUmpire || this._game.isGameOver()) {
+            return null;
+        }
+
+        return this.getViewer() === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+    }
+
+    /**
+     * The player at the board: against the AI always White, in hot-seat play the player to move
+     */
+    private getViewer(): PieceColor {
+        return this._isAIEnabled ? PieceColor.WHITE : this._game.currentPlayer;
+    }
+
+    private createSquare(
+        row: number,
+        col: number,
+        kingInCheck: IPosition | null,
+        visible: boolean[][] | null,
+        hiddenColor: PieceColor | null
+    ): HTMLElement {
         const square = document.createElement('div');
         const isLight = (row + col) % 2 === 0;
+        const isHidden = visible !== null && !visible[row][col];
 
         square.className = `square ${isLight ? 'light' : 'dark'}`;
         square.dataset.row = String(row);
         square.dataset.col = String(col);
 
+        // Fog over squares the player cannot see, hiding whatever stands there
+        if (isHidden) {
+            square.classList.add('fog');
+        }
+
         // Check highlight
         if (kingInCheck && kingInCheck.row === row && kingInCheck.col === col) {
             square.classList.add('king-check');
@@ -381,17 +1051,27 @@ export class GameUI {
             square.classList.add(hasPiece ? 'valid-capture' : 'valid-move');
         }
 
-        // Add piece
-        const pieceData = this._game.board.getPieceData({ row, col });
-        if (pieceData) {
+        // Add piece, unless the player may not see it
+        const pieceData = isHidden ? null : this._game.board.getPieceData({ row, col });
+        if (pieceData && pieceData.color !== hiddenColor) {
             const pieceEl = document.createElement('img');
             pieceEl.className = 'piece';
-            pieceEl.src = PIECE_IMAGES[pieceData.color][pieceData.type];
+            pieceEl.src = PieceRegistry.getImage(pieceData.type, pieceData.color);
             pieceEl.alt = `${pieceData.color} ${pieceData.type}`;
             pieceEl.draggable = false;
             square.appendChild(pieceEl);
         }
 
+        // Add the duck (Duck chess)
+        const duck = this._game.board.duck;
+        if (!isHidden && duck?.row === row && duck.col === col) {
+            const duckEl = document.createElement('span');
+            duckEl.className = 'duck';
+            duckEl.textContent = '🦆';
+            duckEl.title = 'Duck';
+            square.appendChild(duckEl);
+        }
+
         // Add coordinates
         if (col === 0) {
             const rankLabel = document.createElement('span');
@@ -437,6 +1117,12 @@ export class GameUI {
     }
 
     private handleHint(): void {
+        // Hints suggest moves, not where to place the duck, and would give away
+        // the pieces a Kriegspiel player cannot see
+        if (this._game.pendingDuck || this._game.rules.hasUmpire) {
+            return;
+        }
+
         // Create a temporary AI to find the best move for the current player
         const hintAI = new ChessAI(AIDifficulty.HARD, this._game.currentPlayer);
         const bestMove = hintAI.getBestMove(this._game);
@@ -463,8 +1149,40 @@ export class GameUI {
             return;
         }
 
+        if (this.handleFlagFall()) {
+            return;
+        }
+
         const position: IPosition = { row, col };
 
+        // After a Duck chess move, the only thing to do is place the duck
+        if (this._game.pendingDuck) {
+            if (this._validMoves.some((m) => m.row === row && m.col === col)) {
+                await this.handleDuckPlacement(position);
+            }
+            return;
+        }
+
+        // A piece picked up from the pocket drops onto any highlighted square
+        if (this._selectedDrop) {
+            if (this._validMoves.some((m) => m.row === row && m.col === col)) {
+                await this.handleDrop(position);
+                return;
+            }
+            this._selectedDrop = null;
+            this.updatePockets();
+        }
+
+        // In Kriegspiel any square but one of the player's own is a try for the umpire
+        if (
+            this._selectedSquare &&
+            this._game.rules.hasUmpire &&
+            this._game.board.getPiece(position)?.color !== this._game.currentPlayer
+        ) {
+            await this.handleMove(position);
+            return;
+        }
+
         // If we have a valid move selected, try to make it
         if (this._selectedSquare && this._validMoves.some((m) => m.row === row && m.col === col)) {
             await this.handleMove(position);
@@ -481,22 +1199,17 @@ export class GameUI {
                 targetPiece?.type === PieceType.ROOK &&
                 selectedPiece.color === targetPiece.color
             ) {
-                // Determine target castling square based on rook position
-                let castlingTarget: IPosition | null = null;
-
-                // White King (7, 4)
-                if (selectedPiece.color === PieceColor.WHITE && this._selectedSquare.row === 7 && this._selectedSquare.col === 4) {
-                    if (position.row === 7 && position.col === 7) castlingTarget = { row: 7, col: 6 }; // Kingside (g1)
-                    if (position.row === 7 && position.col === 0) castlingTarget = { row: 7, col: 2 }; // Queenside (c1)
-                }
-
-                // Black King (0, 4)
-                if (selectedPiece.color === PieceColor.BLACK && this._selectedSquare.row === 0 && this._selectedSquare.col === 4) {
-                    if (position.row === 0 && position.col === 7) castlingTarget = { row: 0, col: 6 }; // Kingside (g8)
-                    if (position.row === 0 && position.col === 0) castlingTarget = { row: 0, col: 2 }; // Queenside (c8)
-                }
-
-                if (castlingTarget && this._validMoves.some(m => m.row === castlingTarget!.row && m.col === castlingTarget!.col)) {
+                // Castle towards the clicked rook (Chess960 castling already targets the rook)
+                const selected = this._selectedSquare;
+                const side =
+                    position.col > selected.col
+                        ? MoveType.CASTLE_KINGSIDE
+                        : MoveType.CASTLE_QUEENSIDE;
+                const castlingTarget = this._validMoves.find(
+                    (m) => this._game.getCastlingSide(selected, m) === side
+                );
+
+                if (castlingTarget) {
                     await this.handleMove(castlingTarget);
                     return;
                 }
@@ -510,10 +1223,11 @@ export class GameUI {
     private handleSelection(position: IPosition): void {
         const piece = this._game.board.getPiece(position);
 
-        // Can only select own pieces
+        // Can only select own pieces; a Kriegspiel player is not shown where they may go
         if (piece && piece.color === this._game.currentPlayer) {
+            const moves = this._game.selectPiece(position);
             this._selectedSquare = position;
-            this._validMoves = this._game.selectPiece(position);
+            this._validMoves = this._game.rules.hasUmpire ? [] : moves;
         } else {
             this._selectedSquare = null;
             this._validMoves = [];
@@ -527,6 +1241,9 @@ export class GameUI {
         const result = this._game.makeMove(to);
 
         if (!result.success) {
+            if (this._game.rules.hasUmpire) {
+                this.announce([Umpire.ILLEGAL]);
+            }
             return;
         }
 
@@ -539,12 +1256,138 @@ export class GameUI {
             return;
         }
 
+        this._validMoves = this._game.getDuckSquares();
+        this.renderBoard();
+        this.updateUI();
+
+        // AI move
+        if (
+            this._isAIEnabled &&
+            this._game.currentPlayer === PieceColor.BLACK &&
+            !this._game.isGameOver()
+        ) {
+            await this.makeAIMove();
+        }
+    }
+
+    /**
+     * Place the duck on a highlighted square, which ends the turn (Duck chess)
+     */
+    private async handleDuckPlacement(position: IPosition): Promise<void> {
+        const result = this._game.placeDuck(position);
+        if (!result.success) {
+            return;
+        }
+
+        this._validMoves = [];
+        this.renderBoard();
+        this.updateUI();
+
+        // AI move
+        if (
+            this._isAIEnabled &&
+            this._game.currentPlayer === PieceColor.BLACK &&
+            !this._game.isGameOver()
+        ) {
+            await this.makeAIMove();
+        }
+    }
+
+    // ============================================================================
+    // POCKETS (CRAZYHOUSE)
+    // ============================================================================
+
+    private setupPocketListeners(): void {
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const pocket = document.getElementById(`pocket-${color}`);
+
+            pocket?.addEventListener('click', (e) => {
+                const type = this.getPocketPieceType(e, color);
+                if (type) {
+                    this.selectDrop(type === this._selectedDrop ? null : type);
+                    this.updatePockets();
+                }
+            });
+
+            pocket?.addEventListener('dragstart', (e) => {
+                const type = this.getPocketPieceType(e, color);
+                if (!type) {
+                    e.preventDefault();
+                    return;
+                }
+                e.dataTransfer?.setData('text/plain', type);
+                this.selectDrop(type);
+            });
+        }
+
+        // Squares accept a dragged pocket piece; only highlighted ones take the drop
+        this._boardElement?.addEventListener('dragover', (e) => {
+            if (this._selectedDrop) {
+                e.preventDefault();
+            }
+        });
+
+        this._boardElement?.addEventListener('drop', (e) => {
+            e.preventDefault();
+            const square = (e.target as HTMLElement).closest('.square') as HTMLElement | null;
+            const row = parseInt(square?.dataset.row ?? '-1', 10);
+            const col = parseInt(square?.dataset.col ?? '-1', 10);
+
+            if (this._validMoves.some((m) => m.row === row && m.col === col)) {
+                void this.handleDrop({ row, col });
+            } else {
+                this.selectDrop(null);
+                this.updatePockets();
+            }
+        });
+    }
+
+    /**
+     * Piece type of the pocket piece an event targets, if its owner may drop it now
+     */
+    private getPocketPieceType(e: Event, color: PieceColor): PieceType | null {
+        const piece = (e.target as HTMLElement).closest('.pocket-piece') as HTMLElement | null;
+        if (
+            !piece ||
+            color !== this._game.currentPlayer ||
+            this._game.isGameOver() ||
+            this.isAITurn()
+        ) {
+            return null;
+        }
+        return piece.dataset.type as PieceType;
+    }
+
+    /**
+     * Pick up a pocket piece (or put it back) and highlight where it may be dropped
+     */
+    private selectDrop(type: PieceType | null): void {
+        this._selectedSquare = null;
+        this._game.clearSelection();
+        this._selectedDrop = type;
+        this._validMoves = type ? this._game.getDropSquares(type) : [];
+        this.renderBoard();
+    }
+
+    private async handleDrop(to: IPosition): Promise<void> {
+        if (!this._selectedDrop || this.handleFlagFall()) {
+            return;
+        }
+
+        const result = this._game.dropPiece(this._selectedDrop, to);
+        this._selectedDrop = null;
+        this._validMoves = [];
+
+        if (result.success) {
+            this._suggestedMove = null;
+        }
+
         this.renderBoard();
         this.updateUI();
-        this.checkGameOver();
 
         // AI move
         if (
+            result.success &&
             this._isAIEnabled &&
             this._game.currentPlayer === PieceColor.BLACK &&
             !this._game.isGameOver()
@@ -586,18 +1429,16 @@ export class GameUI {
     }
 
     private createPromotionOptions(color: PieceColor): string {
-        const pieces = [
-            { type: PieceType.QUEEN, name: 'Queen' },
-            { type: PieceType.ROOK, name: 'Rook' },
-            { type: PieceType.BISHOP, name: 'Bishop' },
-            { type: PieceType.KNIGHT, name: 'Knight' }
-        ];
+        const pieces = this._game.promotionPieces.map((type) => ({
+            type,
+            name: type.charAt(0).toUpperCase() + type.slice(1)
+        }));
 
         return pieces
             .map(
                 (p) => `
       <button class="promotion-piece" data-type="${p.type}" title="${p.name}">
-        <img src="${PIECE_IMAGES[color][p.type]}" alt="${p.name}" class="w-full h-full" draggable="false">
+        <img src="${PieceRegistry.getImage(p.type, color)}" alt="${p.name}" class="w-full h-full" draggable="false">
       </button>
     `
             )
@@ -608,9 +1449,9 @@ export class GameUI {
         this._game.promotePawn(pieceType);
         modal.remove();
 
+        this._validMoves = this._game.getDuckSquares();
         this.renderBoard();
         this.updateUI();
-        this.checkGameOver();
 
         // AI move
         if (
@@ -634,25 +1475,59 @@ export class GameUI {
         // Thinking delay
         await this.delay(500);
 
-        const aiMove = this._ai.getBestMove(this._game);
+        if (this.handleFlagFall()) {
+            if (this._boardElement) {
+                this._boardElement.style.pointerEvents = 'auto';
+            }
+            return;
+        }
+
+        // With hidden pieces the AI may try a move that turns out to be illegal; like a
+        // player it is told so (by the umpire in Kriegspiel) and tries another
+        const refused: Array<{ from: IPosition; to: IPosition }> = [];
+        let aiMove = this._ai.getBestMove(this._game);
+        while (aiMove && !this.playAIMove(aiMove)) {
+            if (this._game.rules.hasUmpire) {
+                this.announce([Umpire.ILLEGAL]);
+            }
+            refused.push(aiMove);
+            aiMove = this._ai.getBestMove(this._game, refused);
+        }
+
+        if (this._boardElement) {
+            this._boardElement.style.pointerEvents = 'auto';
+        }
+    }
 
-        if (aiMove) {
+    /**
+     * Play the AI's move, with its promotion and duck; false if the game refuses it
+     */
+    private playAIMove(aiMove: { from: IPosition; to: IPosition; drop?: PieceType }): boolean {
+        if (aiMove.drop) {
+            if (!this._game.dropPiece(aiMove.drop, aiMove.to).success) {
+                return false;
+            }
+        } else {
             this._game.selectPiece(aiMove.from);
             const result = this._game.makeMove(aiMove.to);
+            if (!result.success) {
+                return false;
+            }
 
             if (result.needsPromotion) {
                 // AI always promotes to Queen
                 this._game.promotePawn(PieceType.QUEEN);
             }
 
-            this.renderBoard();
-            this.updateUI();
-            this.checkGameOver();
+            const duck = this._game.pendingDuck ? this._ai.getDuckSquare(this._game) : null;
+            if (duck) {
+                this._game.placeDuck(duck);
+            }
         }
 
-        if (this._boardElement) {
-            this._boardElement.style.pointerEvents = 'auto';
-        }
+        this.renderBoard();
+        this.updateUI();
+        return true;
     }
 
     private delay(ms: number): Promise<void> {
@@ -667,7 +1542,43 @@ export class GameUI {
         this.updateCurrentPlayer();
         this.updateGameStatus();
         this.updateCapturedPieces();
+        this.updatePockets();
         this.updateHistoryUI();
+        this.updateGameActions();
+        this.updateClocks();
+        this.updateUmpirePanel();
+    }
+
+    private updateGameActions(): void {
+        const isOver = this._game.isGameOver();
+        const isAtLatest = this._game.history.isAtLatest();
+        const offer = this._game.drawOffer;
+
+        const resignBtn = document.getElementById('resign-btn') as HTMLButtonElement | null;
+        const offerBtn = document.getElementById('offer-draw-btn') as HTMLButtonElement | null;
+        const claimBtn = document.getElementById('claim-draw-btn') as HTMLButtonElement | null;
+
+        if (resignBtn) {
+            resignBtn.disabled = isOver || !isAtLatest;
+        }
+        if (offerBtn) {
+            offerBtn.disabled = isOver || !isAtLatest || offer !== null;
+        }
+        if (claimBtn) {
+            claimBtn.disabled = isOver || !isAtLatest || this._game.getClaimableDraw() === null;
+        }
+
+        // Only a human opponent answers through the banner; the AI responds on its own
+        const banner = document.getElementById('draw-offer-banner');
+        const showBanner = offer !== null && !isOver && isAtLatest && !this._isAIEnabled;
+        banner?.classList.toggle('hidden', !showBanner);
+
+        const text = document.getElementById('draw-offer-text');
+        if (text && offer) {
+            const offeredBy =
+                offer === PieceColor.WHITE ? this._playerNames.white : this._playerNames.black;
+            text.textContent = `${offeredBy} offers a draw`;
+        }
     }
 
     private updateHistoryUI(): void {
@@ -675,6 +1586,9 @@ export class GameUI {
 
         const snapshots = this._game.history.getSnapshots();
         const currentIndex = this._game.history.getCurrentIndex();
+        // Under fog of war and in Kriegspiel the moves stay secret until the game is over
+        const { hasFogOfWar, hasUmpire } = this._game.rules;
+        const isSecret = (hasFogOfWar || hasUmpire) && !this._game.isGameOver();
 
         // Update list
         this._moveHistoryList.innerHTML = snapshots
@@ -687,7 +1601,7 @@ export class GameUI {
                 return `
                     <div class="history-item ${isActive ? 'active' : ''} ${isCurrent ? 'current' : ''}" data-index="${index}">
                         <span class="history-move-number">${snapshot.moveNumber}.</span>
-                        <span class="history-move-notation">${snapshot.notation}</span>
+                        <span class="history-move-notation">${isSecret ? '???' : snapshot.notation}</span>
                     </div>
                 `;
             })
@@ -700,10 +1614,12 @@ export class GameUI {
         }
 
         // Update buttons
-        if (this._historyStartBtn) this._historyStartBtn.disabled = !this._game.history.canGoBack();
-        if (this._historyBackBtn) this._historyBackBtn.disabled = !this._game.history.canGoBack();
-        if (this._historyForwardBtn) this._historyForwardBtn.disabled = !this._game.history.canGoForward();
-        if (this._historyEndBtn) this._historyEndBtn.disabled = !this._game.history.canGoForward();
+        const canGoBack = !this.isHistoryLocked() && this._game.history.canGoBack();
+        const canGoForward = !this.isHistoryLocked() && this._game.history.canGoForward();
+        if (this._historyStartBtn) this._historyStartBtn.disabled = !canGoBack;
+        if (this._historyBackBtn) this._historyBackBtn.disabled = !canGoBack;
+        if (this._historyForwardBtn) this._historyForwardBtn.disabled = !canGoForward;
+        if (this._historyEndBtn) this._historyEndBtn.disabled = !canGoForward;
     }
 
     private updateCurrentPlayer(): void {
@@ -730,7 +1646,10 @@ export class GameUI {
 
         const statusConfig: Record<GameStatus, { text: string; class: string }> = {
             [GameStatus.NOT_STARTED]: { text: 'Not Started', class: 'text-white/70' },
-            [GameStatus.IN_PROGRESS]: { text: 'In Progress', class: 'text-white' },
+            [GameStatus.IN_PROGRESS]: {
+                text: this._game.pendingDuck ? 'Place the duck' : 'In Progress',
+                class: 'text-white'
+            },
             [GameStatus.CHECK]: {
                 text: `Check - ${this.getCurrentPlayerName()}`,
                 class: 'text-yellow-400 font-semibold'
@@ -743,8 +1662,22 @@ export class GameUI {
                 text: 'Stalemate - Draw!',
                 class: 'text-blue-400 font-semibold'
             },
-            [GameStatus.DRAW]: { text: 'Draw', class: 'text-blue-400' },
-            [GameStatus.RESIGNED]: { text: 'Resigned', class: 'text-white/70' }
+            [GameStatus.DRAW]: {
+                text: `Draw - ${this.getDrawReasonLabel()}`,
+                class: 'text-blue-400 font-semibold'
+            },
+            [GameStatus.TIMEOUT]: {
+                text: `${this.getFlaggedName()} ran out of time - ${this.getWinnerName()} wins!`,
+                class: 'text-red-400 font-bold'
+            },
+            [GameStatus.RESIGNED]: {
+                text: `${this.getResignedName()} resigned - ${this.getWinnerName()} wins!`,
+                class: 'text-red-400 font-bold'
+            },
+            [GameStatus.VARIANT_WIN]: {
+                text: `${this.getVariantWinLabel()} - ${this.getWinnerName()} wins!`,
+                class: 'text-red-400 font-bold'
+            }
         };
 
         const config = statusConfig[this._game.status];
@@ -762,7 +1695,7 @@ export class GameUI {
             whiteEl.innerHTML = captured.white
                 .map(
                     (t) =>
-                        `<img src="${PIECE_IMAGES[PieceColor.WHITE][t]}" alt="${t}" class="w-6 h-6 sm:w-7 sm:h-7">`
+                        `<img src="${PieceRegistry.getImage(t, PieceColor.WHITE)}" alt="${t}" class="w-6 h-6 sm:w-7 sm:h-7">`
                 )
                 .join('');
         }
@@ -771,10 +1704,85 @@ export class GameUI {
             blackEl.innerHTML = captured.black
                 .map(
                     (t) =>
-                        `<img src="${PIECE_IMAGES[PieceColor.BLACK][t]}" alt="${t}" class="w-6 h-6 sm:w-7 sm:h-7">`
+                        `<img src="${PieceRegistry.getImage(t, PieceColor.BLACK)}" alt="${t}" class="w-6 h-6 sm:w-7 sm:h-7">`
                 )
                 .join('');
         }
+
+        this.updateCheckCounters();
+    }
+
+    /**
+     * Show the checks each player has given, in Three-check only
+     */
+    private updateCheckCounters(): void {
+        const isThreeCheck = this._game.variant === Variant.THREE_CHECK;
+        const checkCount = this._game.checkCount;
+
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const el = document.getElementById(`checks-${color}`);
+            if (el) {
+                el.textContent = `+${checkCount[color]}/${ThreeCheckRules.CHECKS_TO_WIN}`;
+                el.classList.toggle('hidden', !isThreeCheck);
+            }
+        }
+    }
+
+    /**
+     * Show the pieces each player holds in hand, in Crazyhouse only; the side
+     * to move can drag or click them onto the board
+     */
+    private updatePockets(): void {
+        const isCrazyhouse = this._game.variant === Variant.CRAZYHOUSE;
+        const pockets = this._game.pockets;
+
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const el = document.getElementById(`pocket-${color}`);
+            if (!el) {
+                continue;
+            }
+
+            const canDrop =
+                color === this._game.currentPlayer && !this._game.isGameOver() && !this.isAITurn();
+            el.classList.toggle('hidden', !isCrazyhouse);
+            el.classList.toggle('active', canDrop);
+            el.innerHTML = GameUI.POCKET_ORDER.map((type) => {
+                const count = pockets[color].filter((t) => t === type).length;
+                if (count === 0) {
+                    return '';
+                }
+                const selected = canDrop && type === this._selectedDrop ? ' selected' : '';
+                return `
+      <div class="pocket-piece${selected}" data-type="${type}" draggable="${canDrop}" title="${type}">
+        <img src="${PieceRegistry.getImage(type, color)}" alt="${color} ${type}" draggable="false">
+        ${count > 1 ? `<span class="pocket-count">${count}</span>` : ''}
+      </div>
+    `;
+            }).join('');
+        }
+    }
+
+    /**
+     * Show the umpire's announcements, in Kriegspiel only, latest last
+     */
+    private updateUmpirePanel(): void {
+        const card = document.getElementById('umpire-card');
+        const list = document.getElementById('umpire-announcements');
+        if (!card || !list) {
+            return;
+        }
+
+        card.classList.toggle('hidden', !this._game.rules.hasUmpire);
+        const sanInput = document.getElementById('san-input') as HTMLInputElement | null;
+        if (sanInput) {
+            sanInput.disabled = this._game.rules.hasUmpire;
+            sanInput.classList.toggle('hidden', this._game.rules.hasUmpire);
+        }
+
+        list.innerHTML = this._umpireLog
+            .map((text) => `<div class="umpire-announcement">${text}</div>`)
+            .join('');
+        list.scrollTop = list.scrollHeight;
     }
 
     private getCurrentPlayerName(): string {
@@ -783,6 +1791,28 @@ export class GameUI {
             : this._playerNames.black;
     }
 
+    private getDrawReasonLabel(): string {
+        const reason = this._game.drawReason;
+        return reason ? GameUI.DRAW_REASON_LABELS[reason] : 'Draw';
+    }
+
+    private getVariantWinLabel(): string {
+        const reason = this._game.variantWinReason;
+        return reason ? GameUI.VARIANT_WIN_LABELS[reason] : 'Variant win';
+    }
+
+    private getResignedName(): string {
+        return this._game.resignedColor === PieceColor.WHITE
+            ? this._playerNames.white
+            : this._playerNames.black;
+    }
+
+    private getFlaggedName(): string {
+        return this._game.flaggedColor === PieceColor.WHITE
+            ? this._playerNames.white
+            : this._playerNames.black;
+    }
+
     private getWinnerName(): string {
         const winner = this._game.getWinner();
         if (!winner) {
@@ -792,19 +1822,80 @@ export class GameUI {
     }
 
     // ============================================================================
-    // GAME OVER
+    // UMPIRE AND HANDOVER (DARK CHESS, KRIEGSPIEL)
     // ============================================================================
 
-    private checkGameOver(): void {
-        if (!this._game.isGameOver()) {
+    private onGameStart(): void {
+        this._handover?.remove();
+        this._handover = null;
+        this._umpireLog = this._game.rules.hasUmpire ? Umpire.getTurnAnnouncements(this._game) : [];
+        this.updateUmpirePanel();
+    }
+
+    /**
+     * After each Kriegspiel move the umpire reports on it, and with hidden pieces
+     * in hot-seat play the board is covered until the next player takes over
+     */
+    private onMoveMade(move: IMove, color: PieceColor): void {
+        const { hasFogOfWar, hasUmpire } = this._game.rules;
+        if (!hasFogOfWar && !hasUmpire) {
+            return;
+        }
+
+        const announcements = hasUmpire ? Umpire.announce(this._game, move, color) : [];
+        this.announce(announcements);
+        if (!this._isAIEnabled && !this._game.isGameOver()) {
+            this.showHandover(announcements);
+        }
+    }
+
+    private announce(announcements: string[]): void {
+        this._umpireLog.push(...announcements);
+        this.updateUmpirePanel();
+    }
+
+    private showHandover(announcements: string[]): void {
+        if (this._handover) {
             return;
         }
 
+        const modal = document.createElement('div');
+        modal.className = 'handover-modal';
+        modal.innerHTML = `
+      <div class="promotion-content">
+        <h2 class="handover-title text-2xl font-bold mb-4 text-white"></h2>
+        <p class="text-white/80 mb-6">${announcements.join('. ')}</p>
+        <button id="handover-btn" class="px-6 py-3 bg-linear-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-500 hover:to-blue-500 transition-all font-semibold shadow-lg">
+          Show my pieces
+        </button>
+      </div>
+    `;
+
+        // Player names may come from an imported PGN, so they are never parsed as markup
+        const title = modal.querySelector('.handover-title');
+        if (title) {
+            title.textContent = `Pass the board to ${this.getCurrentPlayerName()}`;
+        }
+
+        document.body.appendChild(modal);
+        this._handover = modal;
+
+        document.getElementById('handover-btn')?.addEventListener('click', () => {
+            modal.remove();
+            this._handover = null;
+        });
+    }
+
+    // ============================================================================
+    // GAME OVER
+    // ============================================================================
+
+    private onGameEnd(): void {
+        this.stopClockTimer();
         setTimeout(() => this.showGameOverModal(), 500);
     }
 
     private showGameOverModal(): void {
-        const isCheckmate = this._game.status === GameStatus.CHECKMATE;
         const winnerName = this.getWinnerName();
         const winnerColor = this._game.getWinner();
 
@@ -814,14 +1905,10 @@ export class GameUI {
         modal.innerHTML = `
       <div class="game-over-content">
         <div class="text-6xl mb-4">
-          ${isCheckmate ? (winnerColor === PieceColor.WHITE ? '♔' : '♚') : '⚖️'}
+          ${winnerColor ? (winnerColor === PieceColor.WHITE ? '♔' : '♚') : '⚖️'}
         </div>
-        <h2 class="text-3xl font-bold mb-2 victory-text">
-          ${isCheckmate ? '🎉 Checkmate!' : '🤝 Stalemate'}
-        </h2>
-        <p class="text-xl text-white/90 mb-6">
-          ${isCheckmate ? `${winnerName} wins!` : "It's a draw!"}
-        </p>
+        <h2 class="game-over-title text-3xl font-bold mb-2 victory-text"></h2>
+        <p class="game-over-result text-xl text-white/90 mb-6"></p>
         <div class="flex gap-4 justify-center">
           <button id="new-game-btn" class="px-6 py-3 bg-linear-to-r from-purple-600 to-blue-600 text-white rounded-lg hover:from-purple-500 hover:to-blue-500 transition-all font-semibold shadow-lg hover:shadow-xl transform hover:-translate-y-0.5">
             New Game
@@ -833,7 +1920,17 @@ export class GameUI {
       </div>
     `;
 
-        if (isCheckmate) {
+        // The title and result name the players, so they are filled in as text
+        const title = modal.querySelector('.game-over-title');
+        if (title) {
+            title.textContent = this.getGameOverTitle();
+        }
+        const result = modal.querySelector('.game-over-result');
+        if (result) {
+            result.textContent = winnerColor ? `${winnerName} wins!` : "It's a draw!";
+        }
+
+        if (winnerColor) {
             this.addConfetti(modal);
         }
 
@@ -849,6 +1946,21 @@ export class GameUI {
         });
     }
 
+    private getGameOverTitle(): string {
+        switch (this._game.status) {
+            case GameStatus.CHECKMATE:
+                return '🎉 Checkmate!';
+            case GameStatus.RESIGNED:
+                return `🏳️ ${this.getResignedName()} resigned`;
+            case GameStatus.TIMEOUT:
+                return `⏰ ${this.getFlaggedName()} ran out of time`;
+            case GameStatus.VARIANT_WIN:
+                return `🏆 ${this.getVariantWinLabel()}`;
+            default:
+                return `🤝 ${this.getDrawReasonLabel()}`;
+        }
+    }
+
     private addConfetti(container: HTMLElement): void {
         const colors = ['#ff0000', '#00ff00', '#0000ff', '#ffff00', '#ff00ff', '#00ffff'];
 
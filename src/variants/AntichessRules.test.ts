@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import {
+    DrawReason,
+    GameStatus,
+    PieceColor,
+    PieceType,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+function antichess(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.ANTICHESS);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('Antichess', () => {
+    it('only allows captures when one is possible', () => {
+        const game = antichess('7k/8/8/8/8/8/8/Rp6 w - - 0 1');
+
+        expect(game.getLegalMovesUci()).toEqual(['a1b1']);
+        expect(game.playUci('a1a5').success).toBe(false);
+    });
+
+    it('has no check and lets pawns promote to a king', () => {
+        expect(antichess('k7/8/8/8/8/8/8/R7 b - - 0 1').status).toBe(GameStatus.IN_PROGRESS);
+
+        const game = antichess('7k/P7/8/8/8/8/8/8 w - - 0 1');
+        expect(game.playUci('a7a8k').success).toBe(true);
+        expect(game.board.getPiece({ row: 0, col: 0 })?.type).toBe(PieceType.KING);
+    });
+
+    it('is won by the player who loses all their pieces', () => {
+        const game = antichess('k7/8/8/8/8/8/8/Rr6 b - - 0 1');
+
+        expect(game.playUci('b1a1').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.NO_PIECES_LEFT);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('is won by the player left without a move', () => {
+        const game = antichess('8/8/p7/8/P7/8/8/8 b - - 0 1');
+
+        expect(game.playUci('a6a5').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.STALEMATED);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('draws when only bishops on opposite square colours are left', () => {
+        const game = antichess('b7/8/7n/8/8/4B3/8/8 w - - 0 1');
+
+        expect(game.playUci('e3h6').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.INSUFFICIENT_MATERIAL);
+    });
+});
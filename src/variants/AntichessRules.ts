@@ -0,0 +1,122 @@
+/**
+ * Antichess
+ * Captures are compulsory and the king is an ordinary piece: there is no check,
+ * no castling, the king can be captured and pawns may also promote to king.
+ * A player who loses all their pieces or has no legal move wins.
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import { PieceRegistry } from '../core/PieceRegistry.js';
+import {
+    type ICheckCount,
+    type Board as BoardType,
+    PieceType,
+    PieceColor,
+    GameStatus,
+    Variant,
+    VariantWinReason,
+    BOARD_SIZE
+} from '../types/index.js';
+
+export class AntichessRules extends VariantRules {
+    public readonly variant = Variant.ANTICHESS;
+    public readonly name = 'Antichess';
+
+    // AI penalty for each piece still on the board, since the goal is to lose them all
+    private static readonly PIECE_PENALTY = 100;
+
+    // ============================================================================
+    // START POSITION
+    // ============================================================================
+
+    public get startFen(): string {
+        return 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
+    }
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.antichess = true;
+        return generator;
+    }
+
+    public get promotionPieces(): PieceType[] {
+        return [...super.promotionPieces, PieceType.KING];
+    }
+
+    public isInCheck(): boolean {
+        return false;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    /**
+     * The side to move wins when it has no legal move, whether it has lost
+     * all its pieces or is stalemated
+     */
+    public getOutcome(generator: MoveGenerator, legalMoves: number[]): IGameOutcome | null {
+        if (legalMoves.length > 0) {
+            return null;
+        }
+
+        const color = generator.sideToMove;
+        return {
+            status: GameStatus.VARIANT_WIN,
+            winner: color,
+            winReason: generator.hasPieces(color)
+                ? VariantWinReason.STALEMATED
+                : VariantWinReason.NO_PIECES_LEFT
+        };
+    }
+
+    /**
+     * A lone bishop against a lone bishop on the other square colour can never be captured
+     */
+    public hasInsufficientMaterial(squares: BoardType): boolean {
+        const pieces = squares.flatMap((rank, row) =>
+            rank.flatMap((piece, col) => (piece ? [{ piece, squareColor: (row + col) % 2 }] : []))
+        );
+
+        return (
+            pieces.length === 2 &&
+            pieces.every(({ piece }) => piece.type === PieceType.BISHOP) &&
+            pieces[0].piece.color !== pieces[1].piece.color &&
+            pieces[0].squareColor !== pieces[1].squareColor
+        );
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+
+    // ============================================================================
+    // AI
+    // ============================================================================
+
+    /**
+     * Undo the AI's material count, which rewards keeping pieces, and instead
+     * penalise each piece a player still has
+     */
+    public evaluate(generator: MoveGenerator, color: PieceColor, _checkCount: ICheckCount): number {
+        let score = 0;
+
+        for (let row = 0; row < BOARD_SIZE; row++) {
+            for (let col = 0; col < BOARD_SIZE; col++) {
+                const piece = generator.getPiece(row, col);
+                if (piece) {
+                    const value = PieceRegistry.getValue(piece.type) + AntichessRules.PIECE_PENALTY;
+                    score += piece.color === color ? -value : value;
+                }
+            }
+        }
+
+        return score;
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import {
+    DrawReason,
+    GameStatus,
+    PieceColor,
+    PieceType,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+function atomic(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.ATOMIC);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('Atomic', () => {
+    it('explodes every piece but pawns around a capture', () => {
+        const game = atomic('k7/8/3n1p2/4p3/3BP3/5N2/8/K7 w - - 0 1');
+
+        expect(game.playUci('f3e5').success).toBe(true);
+
+        expect(game.board.getPiece({ row: 3, col: 4 })).toBeNull();
+        expect(game.board.getPiece({ row: 2, col: 3 })).toBeNull();
+        expect(game.board.getPiece({ row: 4, col: 3 })).toBeNull();
+        expect(game.board.getPiece({ row: 2, col: 5 })?.type).toBe(PieceType.PAWN);
+        expect(game.board.getPiece({ row: 4, col: 4 })?.type).toBe(PieceType.PAWN);
+    });
+
+    it('wins by blowing up the enemy king', () => {
+        const game = atomic('k7/1p6/8/8/8/8/8/KQ6 w - - 0 1');
+
+        expect(game.playUci('b1b7').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.KING_EXPLODED);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('does not let a king capture', () => {
+        const game = atomic('k7/8/8/8/8/8/1p6/K7 w - - 0 1');
+
+        expect(game.playUci('a1b2').success).toBe(false);
+    });
+
+    it('draws when an explosion leaves only the kings', () => {
+        const game = atomic('k7/8/8/8/8/8/5n2/K4R2 w - - 0 1');
+
+        expect(game.playUci('f1f2').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.INSUFFICIENT_MATERIAL);
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * Atomic Chess
+ * Every capture is an explosion: the capturing piece, the captured piece and all
+ * pieces but pawns on the eight surrounding squares leave the board. Kings cannot
+ * capture, touching kings cannot check each other, and blowing up the enemy king wins.
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { type Piece } from '../core/Piece.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import { DrawDetector } from '../core/DrawDetector.js';
+import {
+    type IMove,
+    type ICheckCount,
+    type Board as BoardType,
+    PieceType,
+    PieceColor,
+    GameStatus,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+export class AtomicRules extends VariantRules {
+    public readonly variant = Variant.ATOMIC;
+    public readonly name = 'Atomic';
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.atomic = true;
+        return generator;
+    }
+
+    // ============================================================================
+    // MOVE EFFECTS
+    // ============================================================================
+
+    /**
+     * Explode a capture around its target square; the captured piece itself
+     * is already off the board
+     */
+    public afterMove(board: Board, move: IMove, _color: PieceColor): Piece[] {
+        if (!move.capturedPiece) {
+            return [];
+        }
+
+        const exploded: Piece[] = [];
+        for (let row = move.to.row - 1; row <= move.to.row + 1; row++) {
+            for (let col = move.to.col - 1; col <= move.to.col + 1; col++) {
+                const isCenter = row === move.to.row && col === move.to.col;
+                const piece = board.isValidPosition({ row, col })
+                    ? board.getPiece({ row, col })
+                    : null;
+
+                if (piece && (isCenter || piece.type !== PieceType.PAWN)) {
+                    board.removePiece({ row, col });
+                    exploded.push(piece);
+                }
+            }
+        }
+        return exploded;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        checkCount: ICheckCount
+    ): IGameOutcome | null {
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            if (!generator.getKingPosition(color)) {
+                return {
+                    status: GameStatus.VARIANT_WIN,
+                    winner: color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE,
+                    winReason: VariantWinReason.KING_EXPLODED
+                };
+            }
+        }
+
+        return super.getOutcome(generator, legalMoves, checkCount);
+    }
+
+    /**
+     * Any piece may yet blow up the enemy king, so only bare kings are a draw
+     */
+    public hasInsufficientMaterial(squares: BoardType): boolean {
+        return DrawDetector.hasBareKings(squares);
+    }
+
+    public hasMatingMaterial(squares: BoardType, color: PieceColor): boolean {
+        return DrawDetector.hasPiecesBesidesKing(squares, color);
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import { GameStatus, PieceType, Variant } from '../types/index.js';
+
+function crazyhouse(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.CRAZYHOUSE);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('Crazyhouse', () => {
+    it("puts a captured piece in the capturer's pocket", () => {
+        const game = crazyhouse('k7/8/8/3n4/8/8/8/K2R4[] w - - 0 1');
+
+        expect(game.playUci('d1d5').success).toBe(true);
+
+        expect(game.pockets.white).toEqual([PieceType.KNIGHT]);
+        expect(game.toFen()).toBe('k7/8/8/3R4/8/8/8/K7[N] b - - 0 1');
+    });
+
+    it('gives back a captured promoted piece as a pawn', () => {
+        const game = crazyhouse('k7/8/8/3Q~4/8/8/8/K2r4[] b - - 0 1');
+
+        expect(game.playUci('d1d5').success).toBe(true);
+
+        expect(game.pockets.black).toEqual([PieceType.PAWN]);
+    });
+
+    it('keeps dropped pawns off the first and last ranks', () => {
+        const game = crazyhouse('k7/8/8/8/8/8/8/K7[P] w - - 0 1');
+
+        expect(game.playUci('P@e8').success).toBe(false);
+        expect(game.playUci('P@e1').success).toBe(false);
+        expect(game.playUci('P@e4').success).toBe(true);
+    });
+
+    it('is not checkmate while a drop can block the check', () => {
+        const mate = crazyhouse('k7/pp6/8/8/8/8/8/K6R[] w - - 0 1');
+        expect(mate.playUci('h1h8').success).toBe(true);
+        expect(mate.status).toBe(GameStatus.CHECKMATE);
+
+        const blocked = crazyhouse('k7/pp6/8/8/8/8/8/K6R[n] w - - 0 1');
+        expect(blocked.playUci('h1h8').success).toBe(true);
+        expect(blocked.status).toBe(GameStatus.CHECK);
+        expect(blocked.playUci('N@b8').success).toBe(true);
+    });
+
+    it('never runs out of mating material', () => {
+        const game = crazyhouse('k7/8/8/8/8/8/8/KN6[] w - - 0 1');
+
+        expect(game.playUci('b1c3').success).toBe(true);
+
+        expect(game.isGameOver()).toBe(false);
+    });
+});
@@ -0,0 +1,96 @@
+/**
+ * Crazyhouse
+ * Captured pieces change colour and go to the capturer's pocket, from which they
+ * may be dropped onto any empty square instead of moving; pawns not on the first
+ * or last rank. A promoted piece goes back to the pocket as a pawn.
+ */
+
+import { VariantRules } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { type Piece } from '../core/Piece.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import { type IMove, PieceType, PieceColor, Variant, PIECE_VALUES } from '../types/index.js';
+
+export class CrazyhouseRules extends VariantRules {
+    public readonly variant = Variant.CRAZYHOUSE;
+    public readonly name = 'Crazyhouse';
+
+    private static readonly DROP_TYPES = [
+        PieceType.PAWN,
+        PieceType.KNIGHT,
+        PieceType.BISHOP,
+        PieceType.ROOK,
+        PieceType.QUEEN
+    ];
+
+    // ============================================================================
+    // START POSITION
+    // ============================================================================
+
+    public get startFen(): string {
+        return 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR[] w KQkq - 0 1';
+    }
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.drops = true;
+        return generator;
+    }
+
+    // ============================================================================
+    // MOVE EFFECTS
+    // ============================================================================
+
+    /**
+     * Put the captured piece in the capturer's pocket
+     */
+    public afterMove(
+        board: Board,
+        _move: IMove,
+        color: PieceColor,
+        captured: Piece | null
+    ): Piece[] {
+        if (captured) {
+            board.addToPocket(color, captured.promoted ? PieceType.PAWN : captured.type);
+        }
+        return [];
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    /**
+     * Captured pieces come back into play, so material never runs out
+     */
+    public hasInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+
+    // ============================================================================
+    // AI
+    // ============================================================================
+
+    /**
+     * Count pieces in hand at their full value, as they can be dropped where needed
+     */
+    public evaluate(generator: MoveGenerator, color: PieceColor): number {
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return CrazyhouseRules.DROP_TYPES.reduce(
+            (score, type) =>
+                score +
+                PIECE_VALUES[type] *
+                    (generator.getPocketCount(color, type) -
+                        generator.getPocketCount(opponent, type)),
+            0
+        );
+    }
+}
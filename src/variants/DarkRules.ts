@@ -0,0 +1,78 @@
+/**
+ * Dark chess
+ * Each player sees only the squares their own pieces stand on or can move to.
+ * Since a player cannot see every threat there is no check: the king may be
+ * left attacked and capturing it wins.
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import {
+    type ICheckCount,
+    PieceColor,
+    GameStatus,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+export class DarkRules extends VariantRules {
+    public readonly variant = Variant.DARK;
+    public readonly name = 'Dark Chess';
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.noCheck = true;
+        return generator;
+    }
+
+    public get hasFogOfWar(): boolean {
+        return true;
+    }
+
+    public isInCheck(): boolean {
+        return false;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    /**
+     * The side to move has lost once its king is captured; otherwise a player
+     * without moves is stalemated as in standard chess
+     */
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        checkCount: ICheckCount
+    ): IGameOutcome | null {
+        const color = generator.sideToMove;
+
+        if (!generator.getKingPosition(color)) {
+            return {
+                status: GameStatus.VARIANT_WIN,
+                winner: color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE,
+                winReason: VariantWinReason.KING_CAPTURED
+            };
+        }
+
+        return super.getOutcome(generator, legalMoves, checkCount);
+    }
+
+    /**
+     * A king walking blindly next to the enemy king can always be captured,
+     * so the game is never judged dead
+     */
+    public hasInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+}
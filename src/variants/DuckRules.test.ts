@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import { GameStatus, PieceColor, Variant, VariantWinReason } from '../types/index.js';
+
+function duckChess(fen?: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.DUCK);
+    if (fen) {
+        game.loadFen(fen);
+    } else {
+        game.reset();
+    }
+    return game;
+}
+
+describe('Duck chess', () => {
+    it('ends the turn only once the duck is placed', () => {
+        const game = duckChess();
+
+        expect(game.playUci('e2e4').needsDuck).toBe(true);
+        expect(game.currentPlayer).toBe(PieceColor.WHITE);
+
+        expect(game.placeDuck({ row: 3, col: 3 }).success).toBe(true);
+        expect(game.currentPlayer).toBe(PieceColor.BLACK);
+        expect(game.board.duck).toEqual({ row: 3, col: 3 });
+    });
+
+    it('makes the duck move to another empty square each turn', () => {
+        const game = duckChess();
+        expect(game.playUci('e2e4,d5').success).toBe(true);
+        expect(game.playUci('e7e5').needsDuck).toBe(true);
+
+        expect(game.placeDuck({ row: 3, col: 3 }).success).toBe(false);
+        expect(game.placeDuck({ row: 4, col: 4 }).success).toBe(false);
+        expect(game.placeDuck({ row: 5, col: 3 }).success).toBe(true);
+    });
+
+    it('blocks every piece with the duck', () => {
+        const game = duckChess('4k3/8/8/8/*7/8/8/R3K3 w - - 0 1');
+
+        expect(game.playUci('a1a8').success).toBe(false);
+        expect(game.playUci('a1a3').success).toBe(true);
+    });
+
+    it('has no check and is won by capturing the king', () => {
+        const game = duckChess('k7/8/8/8/8/8/8/R3K3 w - - 0 1');
+        expect(game.playUci('a1a2,h4').success).toBe(true);
+        expect(game.status).toBe(GameStatus.IN_PROGRESS);
+
+        expect(game.playUci('a8b8,h5').success).toBe(true);
+        expect(game.playUci('a2b2,h4').success).toBe(true);
+        // Black may even walk into the rook's line
+        expect(game.playUci('b8b7,h5').success).toBe(true);
+        expect(game.playUci('b2b7').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.KING_CAPTURED);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * Duck chess
+ * After each move the player places a neutral duck on any empty square, where
+ * it blocks every piece. There is no check: the king may be left attacked and
+ * capturing it wins. A player with no legal move wins as well.
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import { PieceColor, GameStatus, Variant, VariantWinReason } from '../types/index.js';
+
+export class DuckRules extends VariantRules {
+    public readonly variant = Variant.DUCK;
+    public readonly name = 'Duck';
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.noCheck = true;
+        return generator;
+    }
+
+    public get hasDuck(): boolean {
+        return true;
+    }
+
+    public isInCheck(): boolean {
+        return false;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    /**
+     * The side to move has lost once its king is captured, and wins
+     * when it has no legal move
+     */
+    public getOutcome(generator: MoveGenerator, legalMoves: number[]): IGameOutcome | null {
+        const color = generator.sideToMove;
+
+        if (!generator.getKingPosition(color)) {
+            return {
+                status: GameStatus.VARIANT_WIN,
+                winner: color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE,
+                winReason: VariantWinReason.KING_CAPTURED
+            };
+        }
+        if (legalMoves.length === 0) {
+            return {
+                status: GameStatus.VARIANT_WIN,
+                winner: color,
+                winReason: VariantWinReason.STALEMATED
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * A bare king can still be captured, so the game is never judged dead
+     */
+    public hasInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+}
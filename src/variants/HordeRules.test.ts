@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import { GameStatus, PieceColor, Variant, VariantWinReason } from '../types/index.js';
+
+function horde(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.HORDE);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('Horde', () => {
+    it('is won by Black when the last white piece is captured', () => {
+        const game = horde('k7/8/8/8/8/8/rP6/8 b - - 0 1');
+
+        expect(game.playUci('a2b2').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.HORDE_CAPTURED);
+        expect(game.getWinner()).toBe(PieceColor.BLACK);
+    });
+
+    it('lets first-rank pawns double-step without allowing en passant', () => {
+        const game = horde('k7/8/8/8/8/1p6/8/P7 w - - 0 1');
+
+        expect(game.playUci('a1a3').success).toBe(true);
+
+        expect(game.playUci('b3a2').success).toBe(false);
+    });
+
+    it('plays on however few pawns White has left', () => {
+        const game = horde('k7/8/8/8/8/8/P7/8 w - - 0 1');
+
+        expect(game.playUci('a2a3').success).toBe(true);
+
+        expect(game.isGameOver()).toBe(false);
+    });
+});
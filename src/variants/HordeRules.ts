@@ -0,0 +1,77 @@
+/**
+ * Horde
+ * White has 36 pawns and no king against Black's full army. White wins by
+ * checkmate, Black by capturing every white piece. White's pawns on the first
+ * rank may double-step, but that step cannot be taken en passant.
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import {
+    type ICheckCount,
+    PieceColor,
+    GameStatus,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+export class HordeRules extends VariantRules {
+    public readonly variant = Variant.HORDE;
+    public readonly name = 'Horde';
+
+    // ============================================================================
+    // START POSITION
+    // ============================================================================
+
+    public get startFen(): string {
+        return 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+    }
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.horde = true;
+        return generator;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    /**
+     * White without moves has lost if it has no pieces left; otherwise checkmate
+     * and stalemate are as in standard chess
+     */
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        checkCount: ICheckCount
+    ): IGameOutcome | null {
+        if (legalMoves.length === 0 && !generator.hasPieces(generator.sideToMove)) {
+            return {
+                status: GameStatus.VARIANT_WIN,
+                winner:
+                    generator.sideToMove === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE,
+                winReason: VariantWinReason.HORDE_CAPTURED
+            };
+        }
+
+        return super.getOutcome(generator, legalMoves, checkCount);
+    }
+
+    /**
+     * Black can always hunt down the last white pieces and any pawn may promote,
+     * so the game is left to the fifty-move rule rather than judged dead
+     */
+    public hasInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+}
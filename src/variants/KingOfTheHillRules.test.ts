@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import { GameStatus, PieceColor, Variant, VariantWinReason } from '../types/index.js';
+
+function kingOfTheHill(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.KING_OF_THE_HILL);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('King of the Hill', () => {
+    it('ends the game when a king reaches the centre', () => {
+        const game = kingOfTheHill('7k/8/8/8/8/3K4/8/8 w - - 0 1');
+
+        expect(game.playUci('d3e4').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.KING_IN_CENTER);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('lets bare kings play on towards the hill', () => {
+        const game = kingOfTheHill('7k/8/8/8/8/8/2K5/8 w - - 0 1');
+
+        expect(game.playUci('c2c3').success).toBe(true);
+        expect(game.playUci('h8g7').success).toBe(true);
+
+        expect(game.isGameOver()).toBe(false);
+    });
+});
@@ -0,0 +1,93 @@
+/**
+ * King of the Hill
+ * Standard chess, except that a king reaching one of the four centre squares
+ * (d4, d5, e4, e5) wins the game at once
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import {
+    type ICheckCount,
+    type IPosition,
+    PieceColor,
+    GameStatus,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+export class KingOfTheHillRules extends VariantRules {
+    public readonly variant = Variant.KING_OF_THE_HILL;
+    public readonly name = 'King of the Hill';
+
+    // AI bonus for a king one, two or three steps from the hill
+    private static readonly APPROACH_BONUS = [0, 120, 50, 20];
+
+    /**
+     * Whether a square is one of the four centre squares
+     */
+    public static isOnHill(position: IPosition): boolean {
+        return this.distanceToHill(position) === 0;
+    }
+
+    /**
+     * King moves needed to reach the nearest centre square
+     */
+    private static distanceToHill(position: IPosition): number {
+        const rows = position.row < 3 ? 3 - position.row : Math.max(0, position.row - 4);
+        const cols = position.col < 3 ? 3 - position.col : Math.max(0, position.col - 4);
+        return Math.max(rows, cols);
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        checkCount: ICheckCount
+    ): IGameOutcome | null {
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            const king = generator.getKingPosition(color);
+            if (king && KingOfTheHillRules.isOnHill(king)) {
+                return {
+                    status: GameStatus.VARIANT_WIN,
+                    winner: color,
+                    winReason: VariantWinReason.KING_IN_CENTER
+                };
+            }
+        }
+
+        return super.getOutcome(generator, legalMoves, checkCount);
+    }
+
+    /**
+     * A lone king can still walk to the hill, so no material is ever insufficient
+     */
+    public hasInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+
+    // ============================================================================
+    // AI
+    // ============================================================================
+
+    /**
+     * Reward the king for closing in on the hill, and the opponent's king likewise
+     */
+    public evaluate(generator: MoveGenerator, color: PieceColor): number {
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return this.getApproachBonus(generator, color) - this.getApproachBonus(generator, opponent);
+    }
+
+    private getApproachBonus(generator: MoveGenerator, color: PieceColor): number {
+        const king = generator.getKingPosition(color);
+        return king
+            ? (KingOfTheHillRules.APPROACH_BONUS[KingOfTheHillRules.distanceToHill(king)] ?? 0)
+            : 0;
+    }
+}
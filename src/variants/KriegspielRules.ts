@@ -0,0 +1,18 @@
+/**
+ * Kriegspiel
+ * Standard chess in which each player sees only their own pieces. Players
+ * try moves and an umpire, who sees the whole board, rejects illegal tries
+ * and announces captures, checks and available pawn captures.
+ */
+
+import { VariantRules } from './VariantRules.js';
+import { Variant } from '../types/index.js';
+
+export class KriegspielRules extends VariantRules {
+    public readonly variant = Variant.KRIEGSPIEL;
+    public readonly name = 'Kriegspiel';
+
+    public get hasUmpire(): boolean {
+        return true;
+    }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import { DrawReason, GameStatus, PieceColor, Variant, VariantWinReason } from '../types/index.js';
+
+function racingKings(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.RACING_KINGS);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('Racing Kings', () => {
+    it('does not allow moves that give check', () => {
+        const game = racingKings('8/8/8/8/8/k7/8/6KR w - - 0 1');
+
+        expect(game.playUci('h1h3').success).toBe(false);
+        expect(game.playUci('h1h2').success).toBe(true);
+    });
+
+    it('is won by Black reaching the eighth rank', () => {
+        const game = racingKings('8/1k6/8/8/8/8/4K3/8 b - - 0 1');
+
+        expect(game.playUci('b7b8').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.KING_REACHED_GOAL);
+        expect(game.getWinner()).toBe(PieceColor.BLACK);
+    });
+
+    it('is won by White when Black cannot follow', () => {
+        const game = racingKings('8/K7/8/8/8/7k/8/8 w - - 0 1');
+
+        expect(game.playUci('a7a8').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('draws when Black follows White to the goal', () => {
+        const game = racingKings('8/K6k/8/8/8/8/8/8 w - - 0 1');
+
+        expect(game.playUci('a7a8').success).toBe(true);
+        expect(game.isGameOver()).toBe(false);
+        expect(game.playUci('h7h8').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.DRAW);
+        expect(game.drawReason).toBe(DrawReason.BOTH_KINGS_REACHED_GOAL);
+    });
+});
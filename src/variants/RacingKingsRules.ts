@@ -0,0 +1,128 @@
+/**
+ * Racing Kings
+ * Both sides start on the first two ranks and race their kings to the eighth.
+ * No move may give check. If White gets there first, Black has one move to
+ * follow, which draws; a king that arrives unanswered wins.
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type Board } from '../core/Board.js';
+import { MoveGenerator } from '../core/MoveGenerator.js';
+import {
+    type ICheckCount,
+    PieceColor,
+    GameStatus,
+    DrawReason,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+export class RacingKingsRules extends VariantRules {
+    public readonly variant = Variant.RACING_KINGS;
+    public readonly name = 'Racing Kings';
+
+    // Row of the eighth rank, the kings' goal
+    private static readonly GOAL_ROW = 0;
+
+    // AI bonus by ranks the king has advanced
+    private static readonly ADVANCE_BONUS = [0, 10, 30, 60, 100, 160, 240, 360];
+
+    // ============================================================================
+    // START POSITION
+    // ============================================================================
+
+    public get startFen(): string {
+        return '8/8/8/8/8/8/krbnNBRK/qrbnNBRQ w - - 0 1';
+    }
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        const generator = super.createGenerator(board, sideToMove, chess960);
+        generator.racingKings = true;
+        return generator;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        checkCount: ICheckCount
+    ): IGameOutcome | null {
+        const whiteHome = this.hasReachedGoal(generator, PieceColor.WHITE);
+        const blackHome = this.hasReachedGoal(generator, PieceColor.BLACK);
+
+        if (whiteHome && blackHome) {
+            return { status: GameStatus.DRAW, drawReason: DrawReason.BOTH_KINGS_REACHED_GOAL };
+        }
+        if (blackHome) {
+            return this.win(PieceColor.BLACK);
+        }
+        if (whiteHome) {
+            // Black may still equalise by reaching the goal with its next move
+            const canFollow =
+                generator.sideToMove === PieceColor.BLACK &&
+                legalMoves.some((move) => this.reachesGoal(generator, move));
+            return canFollow ? null : this.win(PieceColor.WHITE);
+        }
+
+        return super.getOutcome(generator, legalMoves, checkCount);
+    }
+
+    /**
+     * Kings can always race, so no material is ever insufficient
+     */
+    public hasInsufficientMaterial(): boolean {
+        return false;
+    }
+
+    public hasMatingMaterial(): boolean {
+        return true;
+    }
+
+    private win(color: PieceColor): IGameOutcome {
+        return {
+            status: GameStatus.VARIANT_WIN,
+            winner: color,
+            winReason: VariantWinReason.KING_REACHED_GOAL
+        };
+    }
+
+    private hasReachedGoal(generator: MoveGenerator, color: PieceColor): boolean {
+        return generator.getKingPosition(color)?.row === RacingKingsRules.GOAL_ROW;
+    }
+
+    /**
+     * Whether a move takes the side to move's king to the goal
+     */
+    private reachesGoal(generator: MoveGenerator, move: number): boolean {
+        const king = generator.getKingPosition(generator.sideToMove);
+        return (
+            !!king &&
+            MoveGenerator.moveFrom(move) === MoveGenerator.toSquare(king) &&
+            MoveGenerator.toPosition(MoveGenerator.moveTo(move)).row === RacingKingsRules.GOAL_ROW
+        );
+    }
+
+    // ============================================================================
+    // AI
+    // ============================================================================
+
+    /**
+     * Reward the king for each rank it has advanced, and the opponent's king likewise
+     */
+    public evaluate(generator: MoveGenerator, color: PieceColor): number {
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return this.getAdvanceBonus(generator, color) - this.getAdvanceBonus(generator, opponent);
+    }
+
+    private getAdvanceBonus(generator: MoveGenerator, color: PieceColor): number {
+        const king = generator.getKingPosition(color);
+        return king ? RacingKingsRules.ADVANCE_BONUS[7 - king.row] : 0;
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Standard Chess
+ * The FIDE laws of chess, exactly as implemented by VariantRules
+ */
+
+import { VariantRules } from './VariantRules.js';
+import { Variant } from '../types/index.js';
+
+export class StandardRules extends VariantRules {
+    public readonly variant = Variant.STANDARD;
+    public readonly name = 'Standard';
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Game } from '../core/Game.js';
+import { GameStatus, PieceColor, Variant, VariantWinReason } from '../types/index.js';
+
+function threeCheck(fen: string): Game {
+    const game = new Game();
+    game.setVariant(Variant.THREE_CHECK);
+    game.loadFen(fen);
+    return game;
+}
+
+describe('Three-check', () => {
+    it('counts each check given', () => {
+        const game = threeCheck('4k3/8/8/8/8/8/8/R3K3 w - - 0 1');
+
+        expect(game.playUci('a1a8').success).toBe(true);
+
+        expect(game.checkCount).toEqual({ white: 1, black: 0 });
+        expect(game.isGameOver()).toBe(false);
+    });
+
+    it('ends the game on the third check', () => {
+        const game = threeCheck('4k3/8/8/8/8/8/8/R3K3 w - - 0 1 +2+0');
+
+        expect(game.playUci('a1a8').success).toBe(true);
+
+        expect(game.status).toBe(GameStatus.VARIANT_WIN);
+        expect(game.variantWinReason).toBe(VariantWinReason.THIRD_CHECK);
+        expect(game.getWinner()).toBe(PieceColor.WHITE);
+    });
+
+    it('plays on with a lone minor piece, which can still give check', () => {
+        const game = threeCheck('k7/8/8/8/8/8/8/KN6 w - - 0 1');
+
+        expect(game.playUci('b1c3').success).toBe(true);
+
+        expect(game.isGameOver()).toBe(false);
+    });
+});
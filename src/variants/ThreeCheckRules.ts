@@ -0,0 +1,76 @@
+/**
+ * Three-check
+ * Standard chess, except that a player who gives check for the third time wins
+ */
+
+import { VariantRules, type IGameOutcome } from './VariantRules.js';
+import { type MoveGenerator } from '../core/MoveGenerator.js';
+import { DrawDetector } from '../core/DrawDetector.js';
+import {
+    type ICheckCount,
+    type Board as BoardType,
+    PieceColor,
+    GameStatus,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+export class ThreeCheckRules extends VariantRules {
+    public readonly variant = Variant.THREE_CHECK;
+    public readonly name = 'Three-check';
+
+    public static readonly CHECKS_TO_WIN = 3;
+
+    // AI bonus by checks given: each check is worth more as the third draws near
+    private static readonly CHECK_BONUS = [0, 200, 600, 600];
+
+    public get countsChecks(): boolean {
+        return true;
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        checkCount: ICheckCount
+    ): IGameOutcome | null {
+        for (const color of [PieceColor.WHITE, PieceColor.BLACK]) {
+            if (checkCount[color] >= ThreeCheckRules.CHECKS_TO_WIN) {
+                return {
+                    status: GameStatus.VARIANT_WIN,
+                    winner: color,
+                    winReason: VariantWinReason.THIRD_CHECK
+                };
+            }
+        }
+
+        return super.getOutcome(generator, legalMoves, checkCount);
+    }
+
+    /**
+     * Any piece besides the king can give check, so only bare kings are a draw
+     */
+    public hasInsufficientMaterial(squares: BoardType): boolean {
+        return DrawDetector.hasBareKings(squares);
+    }
+
+    public hasMatingMaterial(squares: BoardType, color: PieceColor): boolean {
+        return DrawDetector.hasPiecesBesidesKing(squares, color);
+    }
+
+    // ============================================================================
+    // AI
+    // ============================================================================
+
+    public evaluate(_generator: MoveGenerator, color: PieceColor, checkCount: ICheckCount): number {
+        const opponent = color === PieceColor.WHITE ? PieceColor.BLACK : PieceColor.WHITE;
+        return this.getCheckBonus(checkCount[color]) - this.getCheckBonus(checkCount[opponent]);
+    }
+
+    private getCheckBonus(checks: number): number {
+        return ThreeCheckRules.CHECK_BONUS[Math.min(checks, ThreeCheckRules.CHECKS_TO_WIN)];
+    }
+}
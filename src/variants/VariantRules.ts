@@ -0,0 +1,181 @@
+/**
+ * Variant Rules
+ * Base class for the rules Game delegates to: the start position, which moves
+ * are legal, what a move does besides moving the piece, and when the game ends.
+ * The defaults are standard chess; a variant overrides only what it changes.
+ */
+
+import { type Board } from '../core/Board.js';
+import { type Piece } from '../core/Piece.js';
+import { MoveGenerator } from '../core/MoveGenerator.js';
+import { DrawDetector } from '../core/DrawDetector.js';
+import { STANDARD_FEN } from '../core/Fen.js';
+import {
+    type IMove,
+    type ICheckCount,
+    type Board as BoardType,
+    PieceType,
+    PieceColor,
+    GameStatus,
+    DrawReason,
+    Variant,
+    VariantWinReason
+} from '../types/index.js';
+
+/**
+ * A game-ending result decided by the rules
+ */
+export interface IGameOutcome {
+    readonly status: GameStatus;
+    readonly drawReason?: DrawReason;
+    readonly winner?: PieceColor; // for VARIANT_WIN
+    readonly winReason?: VariantWinReason;
+}
+
+export abstract class VariantRules {
+    public abstract readonly variant: Variant;
+    public abstract readonly name: string; // as written in the PGN Variant tag
+
+    // ============================================================================
+    // START POSITION
+    // ============================================================================
+
+    /**
+     * FEN of the position a new game starts from
+     */
+    public get startFen(): string {
+        return STANDARD_FEN;
+    }
+
+    // ============================================================================
+    // MOVE GENERATION
+    // ============================================================================
+
+    /**
+     * Move generator on a board, with the given color to move
+     */
+    public createGenerator(board: Board, sideToMove: PieceColor, chess960: boolean): MoveGenerator {
+        return MoveGenerator.fromBoard(board, sideToMove, chess960);
+    }
+
+    /**
+     * Legal moves of the generator's side to move, in the generator's encoding
+     */
+    public generateMoves(generator: MoveGenerator): number[] {
+        return generator.generateLegalMoves();
+    }
+
+    /**
+     * Pieces a pawn may promote to
+     */
+    public get promotionPieces(): PieceType[] {
+        return [PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT];
+    }
+
+    /**
+     * Whether each move is followed by placing the duck (Duck chess)
+     */
+    public get hasDuck(): boolean {
+        return false;
+    }
+
+    /**
+     * Whether each player sees only the squares their pieces can move to (Dark chess)
+     */
+    public get hasFogOfWar(): boolean {
+        return false;
+    }
+
+    /**
+     * Whether players see only their own pieces and an umpire reports on the game (Kriegspiel)
+     */
+    public get hasUmpire(): boolean {
+        return false;
+    }
+
+    /**
+     * Whether the checks each player has given count towards the result (Three-check),
+     * so they are part of the position and its FEN
+     */
+    public get countsChecks(): boolean {
+        return false;
+    }
+
+    /**
+     * Whether the generator's side to move is in check
+     */
+    public isInCheck(generator: MoveGenerator): boolean {
+        return generator.isInCheck();
+    }
+
+    // ============================================================================
+    // MOVE EFFECTS
+    // ============================================================================
+
+    /**
+     * Apply whatever a completed move does beyond moving its piece, called before
+     * the turn passes to the opponent with the piece it captured, if any;
+     * returns any further pieces it removed
+     */
+    public afterMove(
+        _board: Board,
+        _move: IMove,
+        _color: PieceColor,
+        _captured: Piece | null
+    ): Piece[] {
+        return [];
+    }
+
+    // ============================================================================
+    // GAME END
+    // ============================================================================
+
+    /**
+     * Decide whether the position ends the game for the side to move,
+     * given its legal moves and the checks given so far; null while the game goes on
+     */
+    public getOutcome(
+        generator: MoveGenerator,
+        legalMoves: number[],
+        _checkCount: ICheckCount
+    ): IGameOutcome | null {
+        if (legalMoves.length > 0) {
+            return null;
+        }
+
+        return this.isInCheck(generator)
+            ? { status: GameStatus.CHECKMATE }
+            : { status: GameStatus.STALEMATE, drawReason: DrawReason.STALEMATE };
+    }
+
+    /**
+     * Whether neither side can win any more, which draws the game at once
+     */
+    public hasInsufficientMaterial(squares: BoardType): boolean {
+        return DrawDetector.hasInsufficientMaterial(squares);
+    }
+
+    /**
+     * Whether a player could still win, which decides if the opponent
+     * running out of time loses or draws
+     */
+    public hasMatingMaterial(squares: BoardType, color: PieceColor): boolean {
+        return DrawDetector.hasMatingMaterial(squares, color);
+    }
+
+    // ============================================================================
+    // AI
+    // ============================================================================
+
+    /**
+     * Bonus (centipawns) for progress towards the variant's goal, from one color's
+     * point of view; added to the AI's material and position evaluation
+     */
+    public evaluate(
+        _generator: MoveGenerator,
+        _color: PieceColor,
+        _checkCount: ICheckCount
+    ): number {
+        return 0;
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Variant exports
+ */
+
+import { type VariantRules } from './VariantRules.js';
+import { StandardRules } from './StandardRules.js';
+import { KingOfTheHillRules } from './KingOfTheHillRules.js';
+import { ThreeCheckRules } from './ThreeCheckRules.js';
+import { AtomicRules } from './AtomicRules.js';
+import { CrazyhouseRules } from './CrazyhouseRules.js';
+import { AntichessRules } from './AntichessRules.js';
+import { HordeRules } from './HordeRules.js';
+import { RacingKingsRules } from './RacingKingsRules.js';
+import { DuckRules } from './DuckRules.js';
+import { DarkRules } from './DarkRules.js';
+import { KriegspielRules } from './KriegspielRules.js';
+import { Variant } from '../types/index.js';
+
+export { VariantRules, type IGameOutcome } from './VariantRules.js';
+export { StandardRules } from './StandardRules.js';
+export { KingOfTheHillRules } from './KingOfTheHillRules.js';
+export { ThreeCheckRules } from './ThreeCheckRules.js';
+export { AtomicRules } from './AtomicRules.js';
+export { CrazyhouseRules } from './CrazyhouseRules.js';
+export { AntichessRules } from './AntichessRules.js';
+export { HordeRules } from './HordeRules.js';
+export { RacingKingsRules } from './RacingKingsRules.js';
+export { DuckRules } from './DuckRules.js';
+export { DarkRules } from './DarkRules.js';
+export { KriegspielRules } from './KriegspielRules.js';
+
+// Rules class for each variant, so Game and the UI can create them by id
+export const VARIANT_RULES: Record<Variant, new () => VariantRules> = {
+    [Variant.STANDARD]: StandardRules,
+    [Variant.KING_OF_THE_HILL]: KingOfTheHillRules,
+    [Variant.THREE_CHECK]: ThreeCheckRules,
+    [Variant.ATOMIC]: AtomicRules,
+    [Variant.CRAZYHOUSE]: CrazyhouseRules,
+    [Variant.ANTICHESS]: AntichessRules,
+    [Variant.HORDE]: HordeRules,
+    [Variant.RACING_KINGS]: RacingKingsRules,
+    [Variant.DUCK]: DuckRules,
+    [Variant.DARK]: DarkRules,
+    [Variant.KRIEGSPIEL]: KriegspielRules
+};